@@ -10,6 +10,10 @@ import { CSSHover } from './services/cssHover.js';
 import { CSSNavigation } from './services/cssNavigation.js';
 import { CSSCodeActions } from './services/cssCodeActions.js';
 import { CSSValidation } from './services/cssValidation.js';
+import { CSSSemanticTokens } from './services/cssSemanticTokens.js';
+import { CSSInlayHints } from './services/cssInlayHints.js';
+import { CSSSignatureHelp } from './services/cssSignatureHelp.js';
+import { CSSCallHierarchy } from './services/cssCallHierarchy.js';
 
 import { SCSSParser } from './parser/scssParser.js';
 import { SCSSCompletion } from './services/scssCompletion.js';
@@ -23,7 +27,9 @@ import {
 	Diagnostic, Position, CompletionList, Hover, Location, DocumentHighlight, DocumentLink,
 	SymbolInformation, Range, CodeActionContext, Command, CodeAction, ColorInformation,
 	Color, ColorPresentation, WorkspaceEdit, FoldingRange, SelectionRange, TextDocument,
-	ICSSDataProvider, CSSDataV1, HoverSettings, CompletionSettings, TextEdit, CSSFormatConfiguration, DocumentSymbol
+	ICSSDataProvider, CSSDataV1, HoverSettings, CompletionSettings, TextEdit, CSSFormatConfiguration, DocumentSymbol, WorkspaceContext,
+	TextDocumentContentChangeEvent, SemanticTokens, SemanticTokensLegend, InlayHint, InlayHintSettings, SignatureHelp,
+	CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall
 } from './cssLanguageTypes.js';
 
 import { CSSDataManager } from './languageFacts/dataManager.js';
@@ -39,13 +45,37 @@ export interface LanguageService {
 	configure(raw?: LanguageSettings): void;
 	setDataProviders(useDefaultDataProvider: boolean, customDataProviders: ICSSDataProvider[]): void;
 	doValidation(document: TextDocument, stylesheet: Stylesheet, documentSettings?: LanguageSettings): Diagnostic[];
+	/**
+	 * Like `doValidation`, but also reports the variables, mixins, placeholders and keyframes that other stylesheets could reference
+	 * and that are not referenced in the workspace stylesheets, and the `@container` names that no workspace stylesheet declares.
+	 * The lint settings of the closest `.csslintrc.json` file in the folder of the document or its parent folders, read through
+	 * the `fileSystemProvider`, take precedence over `documentSettings`.
+	 */
+	doValidation2(document: TextDocument, stylesheet: Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext, documentSettings?: LanguageSettings): Promise<Diagnostic[]>;
 	parseStylesheet(document: TextDocument): Stylesheet;
+	/**
+	 * Parses the document after `changes` have been applied to the document `stylesheet` was parsed from,
+	 * reusing the parts of `stylesheet` that are not affected. `stylesheet` must not be used afterwards.
+	 */
+	parseStylesheetIncremental(document: TextDocument, stylesheet: Stylesheet, changes: TextDocumentContentChangeEvent[]): Stylesheet;
 	doComplete(document: TextDocument, position: Position, stylesheet: Stylesheet, settings?: CompletionSettings): CompletionList;
 	doComplete2(document: TextDocument, position: Position, stylesheet: Stylesheet, documentContext: DocumentContext, settings?: CompletionSettings): Promise<CompletionList>;
 	setCompletionParticipants(registeredCompletionParticipants: ICompletionParticipant[]): void;
 	doHover(document: TextDocument, position: Position, stylesheet: Stylesheet, settings?: HoverSettings): Hover | null;
+	/**
+	 * Return the signature of the CSS function, or of the Sass or Less mixin or function, whose arguments contain the position.
+	 */
+	doSignatureHelp(document: TextDocument, position: Position, stylesheet: Stylesheet): SignatureHelp | null;
 	findDefinition(document: TextDocument, position: Position, stylesheet: Stylesheet): Location | null;
+	/**
+	 * Return the definition in the document, and for Sass and Less variables, mixins and functions in the modules linked through `@use`, `@forward` and `@import` if `fsProvider` is provided.
+	 */
+	findDefinition2(document: TextDocument, position: Position, stylesheet: Stylesheet, documentContext: DocumentContext): Promise<Location | null>;
 	findReferences(document: TextDocument, position: Position, stylesheet: Stylesheet): Location[];
+	/**
+	 * Return the references in the document, and for Sass and Less variables, mixins and functions also the references in the workspace stylesheets that link to the declaring module.
+	 */
+	findReferences2(document: TextDocument, position: Position, stylesheet: Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext): Promise<Location[]>;
 	findDocumentHighlights(document: TextDocument, position: Position, stylesheet: Stylesheet): DocumentHighlight[];
 	findDocumentLinks(document: TextDocument, stylesheet: Stylesheet, documentContext: DocumentContext): DocumentLink[];
 	/**
@@ -56,13 +86,44 @@ export interface LanguageService {
 	findDocumentSymbols2(document: TextDocument, stylesheet: Stylesheet): DocumentSymbol[];
 	doCodeActions(document: TextDocument, range: Range, context: CodeActionContext, stylesheet: Stylesheet): Command[];
 	doCodeActions2(document: TextDocument, range: Range, context: CodeActionContext, stylesheet: Stylesheet): CodeAction[];
+	/**
+	 * Return the edits fixing all lint problems of the document that have an automatic fix, for the rules in `settings.fixAll.rules`.
+	 * The same edits are provided by the `source.fixAll` code action.
+	 */
+	fixAll(document: TextDocument, stylesheet: Stylesheet, settings?: LanguageSettings): TextEdit[];
 	findDocumentColors(document: TextDocument, stylesheet: Stylesheet): ColorInformation[];
 	getColorPresentations(document: TextDocument, stylesheet: Stylesheet, color: Color, range: Range): ColorPresentation[];
 	prepareRename(document: TextDocument, position: Position, stylesheet: Stylesheet): Range | undefined;
 	doRename(document: TextDocument, position: Position, newName: string, stylesheet: Stylesheet): WorkspaceEdit;
+	/**
+	 * Like `doRename`, but also renames the references of Sass and Less variables, mixins and functions in the workspace stylesheets, taking `@forward` prefixes into account.
+	 */
+	doRename2(document: TextDocument, position: Position, newName: string, stylesheet: Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext): Promise<WorkspaceEdit>;
 	getFoldingRanges(document: TextDocument, context?: { rangeLimit?: number; }): FoldingRange[];
 	getSelectionRanges(document: TextDocument, positions: Position[], stylesheet: Stylesheet): SelectionRange[];
 	format(document: TextDocument, range: Range | undefined, options: CSSFormatConfiguration): TextEdit[];
+	getSemanticTokenLegend(): SemanticTokensLegend;
+	/**
+	 * Return the semantic tokens of the document, or of the given range only, encoded as described by `getSemanticTokenLegend`.
+	 */
+	getSemanticTokens(document: TextDocument, stylesheet: Stylesheet, range?: Range): SemanticTokens;
+	/**
+	 * Return hints for the values of variables, the specificity of selectors and the pixel values of `rem` and `em` lengths in the range.
+	 */
+	getInlayHints(document: TextDocument, range: Range, stylesheet: Stylesheet, settings?: InlayHintSettings): InlayHint[];
+	/**
+	 * Return the Sass or Less mixin or function declared or called at the position, following `@use`, `@forward` and `@import` links.
+	 */
+	prepareCallHierarchy(document: TextDocument, position: Position, stylesheet: Stylesheet, documentContext: DocumentContext): Promise<CallHierarchyItem[]>;
+	/**
+	 * Return the mixins, functions, top-level rulesets or stylesheets that call the mixin or function of `item`, which is declared in `document`.
+	 * Calls in the workspace stylesheets are found through the stylesheets' module links.
+	 */
+	provideIncomingCalls(document: TextDocument, stylesheet: Stylesheet, item: CallHierarchyItem, documentContext: DocumentContext, workspace?: WorkspaceContext): Promise<CallHierarchyIncomingCall[]>;
+	/**
+	 * Return the mixins and functions called by `item`, which is declared in `document`.
+	 */
+	provideOutgoingCalls(document: TextDocument, stylesheet: Stylesheet, item: CallHierarchyItem, documentContext: DocumentContext): Promise<CallHierarchyOutgoingCall[]>;
 
 }
 
@@ -74,24 +135,31 @@ export function newCSSDataProvider(data: CSSDataV1): ICSSDataProvider {
 	return new CSSDataProvider(data);
 }
 
-function createFacade(parser: Parser, completion: CSSCompletion, hover: CSSHover, navigation: CSSNavigation, codeActions: CSSCodeActions, validation: CSSValidation, cssDataManager: CSSDataManager): LanguageService {
+function createFacade(parser: Parser, completion: CSSCompletion, hover: CSSHover, navigation: CSSNavigation, codeActions: CSSCodeActions, validation: CSSValidation, semanticTokens: CSSSemanticTokens, inlayHints: CSSInlayHints, signatureHelp: CSSSignatureHelp, callHierarchy: CSSCallHierarchy, cssDataManager: CSSDataManager): LanguageService {
 	return {
 		configure: (settings) => {
 			validation.configure(settings);
+			codeActions.configure(settings);
 			completion.configure(settings?.completion);
 			hover.configure(settings?.hover);
 			navigation.configure(settings?.importAliases);
+			inlayHints.configure(settings?.inlayHints);
 		},
 		setDataProviders: cssDataManager.setDataProviders.bind(cssDataManager),
 		doValidation: validation.doValidation.bind(validation),
+		doValidation2: validation.doValidation2.bind(validation),
 		parseStylesheet: parser.parseStylesheet.bind(parser),
+		parseStylesheetIncremental: parser.parseStylesheetIncremental.bind(parser),
 		doComplete: completion.doComplete.bind(completion),
 		doComplete2: completion.doComplete2.bind(completion),
 		setCompletionParticipants: completion.setCompletionParticipants.bind(completion),
 		doHover: hover.doHover.bind(hover),
+		doSignatureHelp: signatureHelp.doSignatureHelp.bind(signatureHelp),
 		format,
 		findDefinition: navigation.findDefinition.bind(navigation),
+		findDefinition2: navigation.findDefinition2.bind(navigation),
 		findReferences: navigation.findReferences.bind(navigation),
+		findReferences2: navigation.findReferences2.bind(navigation),
 		findDocumentHighlights: navigation.findDocumentHighlights.bind(navigation),
 		findDocumentLinks: navigation.findDocumentLinks.bind(navigation),
 		findDocumentLinks2: navigation.findDocumentLinks2.bind(navigation),
@@ -99,12 +167,20 @@ function createFacade(parser: Parser, completion: CSSCompletion, hover: CSSHover
 		findDocumentSymbols2: navigation.findDocumentSymbols.bind(navigation),
 		doCodeActions: codeActions.doCodeActions.bind(codeActions),
 		doCodeActions2: codeActions.doCodeActions2.bind(codeActions),
+		fixAll: codeActions.fixAll.bind(codeActions),
 		findDocumentColors: navigation.findDocumentColors.bind(navigation),
 		getColorPresentations: navigation.getColorPresentations.bind(navigation),
 		prepareRename: navigation.prepareRename.bind(navigation),
 		doRename: navigation.doRename.bind(navigation),
+		doRename2: navigation.doRename2.bind(navigation),
 		getFoldingRanges,
-		getSelectionRanges
+		getSelectionRanges,
+		getSemanticTokenLegend: semanticTokens.getSemanticTokenLegend.bind(semanticTokens),
+		getSemanticTokens: semanticTokens.getSemanticTokens.bind(semanticTokens),
+		getInlayHints: inlayHints.getInlayHints.bind(inlayHints),
+		prepareCallHierarchy: callHierarchy.prepareCallHierarchy.bind(callHierarchy),
+		provideIncomingCalls: callHierarchy.provideIncomingCalls.bind(callHierarchy),
+		provideOutgoingCalls: callHierarchy.provideOutgoingCalls.bind(callHierarchy)
 	};
 }
 
@@ -112,39 +188,54 @@ const defaultLanguageServiceOptions = {};
 
 export function getCSSLanguageService(options: LanguageServiceOptions = defaultLanguageServiceOptions): LanguageService {
 	const cssDataManager = new CSSDataManager(options);
+	const navigation = new CSSNavigation(options && options.fileSystemProvider, true);
 	return createFacade(
 		new Parser(),
 		new CSSCompletion(null, options, cssDataManager),
 		new CSSHover(options && options.clientCapabilities, cssDataManager),
-		new CSSNavigation(options && options.fileSystemProvider, true),
+		navigation,
 		new CSSCodeActions(cssDataManager),
-		new CSSValidation(cssDataManager),
+		new CSSValidation(cssDataManager, navigation, options && options.fileSystemProvider),
+		new CSSSemanticTokens(cssDataManager),
+		new CSSInlayHints(cssDataManager),
+		new CSSSignatureHelp(),
+		new CSSCallHierarchy(navigation),
 		cssDataManager
 	);
 }
 
 export function getSCSSLanguageService(options: LanguageServiceOptions = defaultLanguageServiceOptions): LanguageService {
 	const cssDataManager = new CSSDataManager(options);
+	const navigation = new SCSSNavigation(options && options.fileSystemProvider);
 	return createFacade(
 		new SCSSParser(),
 		new SCSSCompletion(options, cssDataManager),
 		new CSSHover(options && options.clientCapabilities, cssDataManager),
-		new SCSSNavigation(options && options.fileSystemProvider),
+		navigation,
 		new CSSCodeActions(cssDataManager),
-		new CSSValidation(cssDataManager),
+		new CSSValidation(cssDataManager, navigation, options && options.fileSystemProvider),
+		new CSSSemanticTokens(cssDataManager),
+		new CSSInlayHints(cssDataManager),
+		new CSSSignatureHelp(),
+		new CSSCallHierarchy(navigation),
 		cssDataManager
 	);
 }
 
 export function getLESSLanguageService(options: LanguageServiceOptions = defaultLanguageServiceOptions): LanguageService {
 	const cssDataManager = new CSSDataManager(options);
+	const navigation = new CSSNavigation(options && options.fileSystemProvider, true, new LESSParser());
 	return createFacade(
 		new LESSParser(),
 		new LESSCompletion(options, cssDataManager),
 		new CSSHover(options && options.clientCapabilities, cssDataManager),
-		new CSSNavigation(options && options.fileSystemProvider, true),
+		navigation,
 		new CSSCodeActions(cssDataManager),
-		new CSSValidation(cssDataManager),
+		new CSSValidation(cssDataManager, navigation, options && options.fileSystemProvider),
+		new CSSSemanticTokens(cssDataManager),
+		new CSSInlayHints(cssDataManager),
+		new CSSSignatureHelp(),
+		new CSSCallHierarchy(navigation),
 		cssDataManager
 	);
 }
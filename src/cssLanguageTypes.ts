@@ -8,31 +8,37 @@ import {
 	Range, Position, DocumentUri, MarkupContent, MarkupKind,
 	Color, ColorInformation, ColorPresentation,
 	FoldingRange, FoldingRangeKind, SelectionRange,
-	Diagnostic, DiagnosticSeverity,
+	Diagnostic, DiagnosticSeverity, DiagnosticTag,
 	CompletionItem, CompletionItemKind, CompletionList, CompletionItemTag,
 	InsertTextFormat, DefinitionLink,
 	SymbolInformation, SymbolKind, DocumentSymbol, Location, Hover, MarkedString,
 	CodeActionContext, Command, CodeAction,
 	DocumentHighlight, DocumentLink, WorkspaceEdit,
 	TextEdit, CodeActionKind,
-	TextDocumentEdit, VersionedTextDocumentIdentifier, DocumentHighlightKind
+	TextDocumentEdit, VersionedTextDocumentIdentifier, DocumentHighlightKind,
+	SemanticTokens, SemanticTokensLegend, InlayHint,
+	SignatureHelp, SignatureInformation, ParameterInformation,
+	CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall
 } from 'vscode-languageserver-types';
 
-import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument';
 
 export {
-	TextDocument,
+	TextDocument, TextDocumentContentChangeEvent,
 	Range, Position, DocumentUri, MarkupContent, MarkupKind,
 	Color, ColorInformation, ColorPresentation,
 	FoldingRange, FoldingRangeKind, SelectionRange,
-	Diagnostic, DiagnosticSeverity,
+	Diagnostic, DiagnosticSeverity, DiagnosticTag,
 	CompletionItem, CompletionItemKind, CompletionList, CompletionItemTag,
 	InsertTextFormat, DefinitionLink,
 	SymbolInformation, SymbolKind, DocumentSymbol, Location, Hover, MarkedString,
 	CodeActionContext, Command, CodeAction,
 	DocumentHighlight, DocumentLink, WorkspaceEdit,
 	TextEdit, CodeActionKind,
-	TextDocumentEdit, VersionedTextDocumentIdentifier, DocumentHighlightKind
+	TextDocumentEdit, VersionedTextDocumentIdentifier, DocumentHighlightKind,
+	SemanticTokens, SemanticTokensLegend, InlayHint,
+	SignatureHelp, SignatureInformation, ParameterInformation,
+	CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall
 };
 
 export type LintSettings = { [key: string]: any };
@@ -48,6 +54,24 @@ export interface LanguageSettings {
 	completion?: CompletionSettings;
 	hover?: HoverSettings;
 	importAliases?: AliasSettings;
+	inlayHints?: InlayHintSettings;
+	fixAll?: FixAllSettings;
+	/** lint settings for the documents matching glob patterns. Later overrides take precedence over earlier ones and over `lint` */
+	overrides?: LintOverride[];
+}
+
+export interface LintOverride {
+	/** glob patterns matched against the path of the document URI, e.g. `vendor/**` or `*.min.css`. Patterns that do not start with `/` can match any trailing part of the path */
+	files: string[];
+	lint: LintSettings;
+}
+
+/**
+ * The content of a lint configuration file, `.csslintrc.json`. In the overrides of the file, patterns that start with `/` are relative to the folder of the file.
+ */
+export interface LintConfiguration {
+	lint?: LintSettings;
+	overrides?: LintOverride[];
 }
 
 export interface AliasSettings {
@@ -59,6 +83,22 @@ export interface HoverSettings {
 	references?: boolean
 }
 
+export interface FixAllSettings {
+	/** the ids of the lint rules whose problems are fixed. Default: `zeroUnits`, `unknownProperties`, `vendorPrefix`, `compatibleVendorPrefixes` and `obsoleteVendorPrefix` */
+	rules?: string[];
+}
+
+export interface InlayHintSettings {
+	/** show the values of Sass and Less variables and custom properties. Default: true */
+	variableValues?: boolean;
+	/** show the specificity of selectors. Default: true */
+	selectorSpecificity?: boolean;
+	/** show `rem` and `em` values in pixels. Default: true */
+	pixelConversions?: boolean;
+	/** the font size in pixels used to convert `rem` and `em` values. Default: 16 */
+	baseFontSize?: number;
+}
+
 export interface PropertyCompletionContext {
 	propertyName: string;
 	range: Range;
@@ -99,6 +139,20 @@ export interface DocumentContext {
 	resolveReference(ref: string, baseUrl: string): string | undefined;
 }
 
+/**
+ * The stylesheets to search for references to variables, mixins and functions of other modules.
+ */
+export interface WorkspaceContext {
+	/**
+	 * Documents of the workspace. Their content takes precedence over the content of the file system.
+	 */
+	documents?: TextDocument[];
+	/**
+	 * Folders in which stylesheets are discovered using `fileSystemProvider.readDirectory`.
+	 */
+	folders?: DocumentUri[];
+}
+
 /**
  * Describes what LSP capabilities the client supports
  */
@@ -0,0 +1,132 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { BaselineStatus } from '../cssLanguageTypes.js';
+
+export type BrowserTarget =
+	{ kind: 'browser'; browser: string; operator: '>=' | '>' | '<=' | '<' | '='; version: number; query: string } |
+	{ kind: 'baseline'; status: 'high' | 'low'; year?: number; query: string };
+
+/**
+ * The browser codes used in the `browsers` field of the data, by their browserslist names.
+ */
+const browserCodes: { [name: string]: string } = {
+	'chrome': 'C',
+	'and_chr': 'CA',
+	'chromeandroid': 'CA',
+	'edge': 'E',
+	'firefox': 'FF',
+	'ff': 'FF',
+	'and_ff': 'FFA',
+	'firefoxandroid': 'FFA',
+	'safari': 'S',
+	'ios_saf': 'SM',
+	'ios': 'SM',
+	'iossafari': 'SM',
+	'opera': 'O',
+	'ie': 'IE',
+	'explorer': 'IE',
+};
+
+const browserDisplayNames: { [code: string]: string } = {
+	'C': 'Chrome',
+	'CA': 'Chrome for Android',
+	'E': 'Edge',
+	'FF': 'Firefox',
+	'FFA': 'Firefox for Android',
+	'S': 'Safari',
+	'SM': 'Safari on iOS',
+	'O': 'Opera',
+	'IE': 'Internet Explorer',
+};
+
+const compatPattern = /^(E|FFA|FF|SM|S|CA|C|IE|O)([\d.]+)?$/;
+
+/**
+ * Parses a browserslist-style query such as `chrome >= 100, safari >= 15` or `baseline widely available`.
+ * Queries can be separated by commas or `or`. Unrecognized queries are ignored.
+ */
+export function parseBrowserTargets(query: string | string[]): BrowserTarget[] {
+	const queries = Array.isArray(query) ? query : [query];
+	const result: BrowserTarget[] = [];
+	for (const entry of queries) {
+		if (typeof entry !== 'string') {
+			continue;
+		}
+		for (const part of entry.split(/,|\sor\s/i)) {
+			const target = parseBrowserTarget(part.trim());
+			if (target) {
+				result.push(target);
+			}
+		}
+	}
+	return result;
+}
+
+function parseBrowserTarget(query: string): BrowserTarget | undefined {
+	const baseline = query.match(/^baseline\s+(?:(widely|newly)\s+available|(\d{4}))$/i);
+	if (baseline) {
+		if (baseline[2]) {
+			return { kind: 'baseline', status: 'low', year: parseInt(baseline[2]), query };
+		}
+		return { kind: 'baseline', status: baseline[1].toLowerCase() === 'widely' ? 'high' : 'low', query };
+	}
+	const browser = query.match(/^([a-z_]+)\s*(>=|>|<=|<|=)?\s*(\d+(?:\.\d+)?)$/i);
+	if (browser) {
+		const code = browserCodes[browser[1].toLowerCase()];
+		if (code) {
+			return { kind: 'browser', browser: code, operator: <'>=' | '>' | '<=' | '<' | '='>browser[2] || '=', version: parseFloat(browser[3]), query };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns the targets that don't support an entry with the given compatibility data, described like `Safari 14`
+ * or `Baseline widely available`. Targets for which the entry has no data are considered supported.
+ */
+export function getUnsupportedTargets(entry: { browsers?: string[]; baseline?: BaselineStatus }, targets: BrowserTarget[]): { target: BrowserTarget; description: string }[] {
+	const result: { target: BrowserTarget; description: string }[] = [];
+	for (const target of targets) {
+		if (target.kind === 'baseline') {
+			if (entry.baseline && !isBaselineSupported(entry.baseline, target)) {
+				const description = target.year !== undefined ? `Baseline ${target.year}` : target.status === 'high' ? 'Baseline widely available' : 'Baseline newly available';
+				result.push({ target, description });
+			}
+		} else if (entry.browsers) {
+			// upper bounds include all older versions, a lower bound is checked against the oldest targeted version
+			const oldestTargeted = target.operator === '<' || target.operator === '<=' ? 0 : target.version;
+			const minVersion = getMinimumVersion(entry.browsers, target.browser);
+			if (minVersion === undefined || minVersion > oldestTargeted) {
+				const description = oldestTargeted ? `${browserDisplayNames[target.browser]} ${oldestTargeted}` : browserDisplayNames[target.browser];
+				result.push({ target, description });
+			}
+		}
+	}
+	return result;
+}
+
+function isBaselineSupported(baseline: BaselineStatus, target: { status: 'high' | 'low'; year?: number }): boolean {
+	if (target.year !== undefined) {
+		const year = baseline.baseline_low_date ? parseInt(baseline.baseline_low_date) : NaN;
+		return baseline.status !== 'false' && year <= target.year;
+	}
+	return target.status === 'high' ? baseline.status === 'high' : baseline.status === 'high' || baseline.status === 'low';
+}
+
+/**
+ * Returns the first version of the browser that supports the entry, or undefined if the browser doesn't support it.
+ * The entries in `browsers` look like `FF28` or `S10.1`; an entry without version means all versions.
+ */
+function getMinimumVersion(browsers: string[], browser: string): number | undefined {
+	for (const browserEntry of browsers) {
+		const match = compatPattern.exec(browserEntry);
+		if (match && match[1] === browser) {
+			return match[2] ? parseFloat(match[2]) : 0;
+		}
+	}
+	return undefined;
+}
@@ -4,6 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
+import { IDescriptorData } from '../cssLanguageTypes.js';
+
 export const positionKeywords: { [name: string]: string } = {
 	'bottom': 'Computes to ‘100%’ for the vertical position if one or two values are given, otherwise specifies the bottom edge as the origin for the next offset.',
 	'center': 'Computes to ‘50%’ (‘left 50%’) for the horizontal position if the horizontal position is not otherwise specified, or ‘50%’ (‘top 50%’) for the vertical position if it is.',
@@ -156,3 +158,77 @@ export const pageBoxDirectives = [
 	'@left-bottom', '@left-middle', '@left-top', '@right-bottom', '@right-middle', '@right-top',
 	'@top-center', '@top-left', '@top-left-corner', '@top-right', '@top-right-corner'
 ];
+
+/**
+ * The descriptors of at-rules, used when the data of the at-rule has none. The descriptors of `@position-try` are properties,
+ * their values are validated against the syntax of the property.
+ */
+export const atRuleDescriptors: { [atRuleName: string]: IDescriptorData[] } = {
+	'@counter-style': [
+		{ name: 'system', syntax: 'cyclic | numeric | alphabetic | symbolic | additive | [ fixed <integer>? ] | [ extends <counter-style-name> ]', description: 'Specifies the algorithm used to convert the integer value of a counter to a string representation.', values: ['cyclic', 'numeric', 'alphabetic', 'symbolic', 'additive', 'fixed', 'extends'].map(name => ({ name })) },
+		{ name: 'symbols', syntax: '<symbol>+', description: 'Specifies the symbols used by the counter system.' },
+		{ name: 'additive-symbols', syntax: '[ <integer [0,∞]> && <symbol> ]#', description: 'Specifies the weighted symbols of the `additive` counter system.' },
+		{ name: 'negative', syntax: '<symbol> <symbol>?', description: 'Specifies the symbols added before and after the representation of negative counter values.' },
+		{ name: 'prefix', syntax: '<symbol>', description: 'Specifies a symbol prepended to the marker representation.' },
+		{ name: 'suffix', syntax: '<symbol>', description: 'Specifies a symbol appended to the marker representation.' },
+		{ name: 'range', syntax: '[ [ <integer> | infinite ]{2} ]# | auto', description: 'Specifies the range of counter values the counter style applies to.', values: [{ name: 'auto' }, { name: 'infinite' }] },
+		{ name: 'pad', syntax: '<integer [0,∞]> && <symbol>', description: 'Specifies the minimum length of the marker representation and the symbol used to pad it.' },
+		{ name: 'speak-as', syntax: 'auto | bullets | numbers | words | spell-out | <counter-style-name>', description: 'Specifies how the counter value is spoken by speech synthesizers.', values: ['auto', 'bullets', 'numbers', 'words', 'spell-out'].map(name => ({ name })) },
+		{ name: 'fallback', syntax: '<counter-style-name>', description: 'Specifies the counter style used for values outside of the range of the counter style.' }
+	],
+	'@font-feature-values': [
+		{ name: 'font-display', syntax: 'auto | block | swap | fallback | optional', description: 'Specifies how the feature values are used while the font is loading.', values: ['auto', 'block', 'swap', 'fallback', 'optional'].map(name => ({ name })) }
+	],
+	'@font-palette-values': [
+		{ name: 'font-family', syntax: '<family-name>#', description: 'Specifies the font families the palette applies to.' },
+		{ name: 'base-palette', syntax: 'light | dark | <integer [0,∞]>', description: 'Specifies the palette of the font the custom palette is based on.', values: [{ name: 'light' }, { name: 'dark' }] },
+		{ name: 'override-colors', syntax: '[ <integer [0,∞]> <color> ]#', description: 'Overrides colors of the base palette, by their index.' }
+	],
+	'@position-try': [
+		'position-anchor', 'position-area', 'inset', 'top', 'right', 'bottom', 'left', 'inset-block', 'inset-block-start', 'inset-block-end', 'inset-inline',
+		'inset-inline-start', 'inset-inline-end', 'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'margin-block', 'margin-block-start',
+		'margin-block-end', 'margin-inline', 'margin-inline-start', 'margin-inline-end', 'width', 'height', 'min-width', 'min-height', 'max-width', 'max-height',
+		'block-size', 'inline-size', 'min-block-size', 'min-inline-size', 'max-block-size', 'max-inline-size', 'align-self', 'justify-self', 'place-self'
+	].map(name => ({ name })),
+	'@view-transition': [
+		{ name: 'navigation', syntax: 'auto | none', description: 'Specifies whether the document participates in a view transition when navigating between two documents of the same origin.', values: [{ name: 'auto' }, { name: 'none' }] },
+		{ name: 'types', syntax: 'none | <custom-ident>+', description: 'Specifies the types of the active view transition, used to select styles with the `:active-view-transition-type()` pseudo-class.', values: [{ name: 'none' }] }
+	]
+};
+
+/**
+ * The size features of `@container` queries
+ */
+export const containerSizeFeatures: IDescriptorData[] = [
+	{ name: 'width', type: 'range', syntax: '<length>', description: 'The width of the query container\'s content box.' },
+	{ name: 'height', type: 'range', syntax: '<length>', description: 'The height of the query container\'s content box.' },
+	{ name: 'inline-size', type: 'range', syntax: '<length>', description: 'The size of the query container\'s content box in the inline axis.' },
+	{ name: 'block-size', type: 'range', syntax: '<length>', description: 'The size of the query container\'s content box in the block axis.' },
+	{ name: 'aspect-ratio', type: 'range', syntax: '<ratio>', description: 'The ratio of the width to the height of the query container\'s content box.' },
+	{ name: 'orientation', type: 'discrete', syntax: 'portrait | landscape', description: 'The orientation of the query container\'s content box.', values: [{ name: 'portrait' }, { name: 'landscape' }] }
+];
+
+const scrollDirections = ['none', 'top', 'right', 'bottom', 'left', 'block-start', 'inline-start', 'block-end', 'inline-end'];
+
+/**
+ * The features of the `scroll-state()` queries of `@container`
+ */
+export const scrollStateFeatures: IDescriptorData[] = [
+	{ name: 'stuck', type: 'discrete', description: 'Queries whether a sticky positioned container is stuck to an edge of its scroll container.', values: scrollDirections.map(name => ({ name })) },
+	{ name: 'snapped', type: 'discrete', description: 'Queries whether the container is snapped to its scroll snap container ancestor.', values: ['none', 'x', 'y', 'block', 'inline', 'both'].map(name => ({ name })) },
+	{ name: 'scrollable', type: 'discrete', description: 'Queries whether the scroll container can be scrolled in the given direction.', values: [...scrollDirections, 'x', 'y', 'block', 'inline'].map(name => ({ name })) },
+	{ name: 'scrolled', type: 'discrete', description: 'Queries the direction of the most recent scroll of the scroll container.', values: [...scrollDirections, 'x', 'y', 'block', 'inline'].map(name => ({ name })) }
+];
+
+/**
+ * The syntax of the values of the feature value blocks of `@font-feature-values`
+ */
+export const fontFeatureValueSyntaxes: { [atRuleName: string]: string } = {
+	'@stylistic': '<integer [0,∞]>',
+	'@historical-forms': '<integer [0,∞]>',
+	'@styleset': '<integer [0,∞]>+',
+	'@character-variant': '<integer [0,∞]>{1,2}',
+	'@swash': '<integer [0,∞]>',
+	'@ornaments': '<integer [0,∞]>',
+	'@annotation': '<integer [0,∞]>'
+};
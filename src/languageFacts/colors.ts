@@ -159,7 +159,7 @@ export const colorFunctions = [
 
 ];
 
-const colorFunctionNameRegExp = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch)$/iu;
+const colorFunctionNameRegExp = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix|light-dark)$/iu;
 
 export const colors: { [name: string]: string } = {
 	aliceblue: '#f0f8ff',
@@ -385,6 +385,10 @@ export function isColorConstructor(node: nodes.Function): boolean {
 	if (!name) {
 		return false;
 	}
+	return isColorFunctionName(name);
+}
+
+export function isColorFunctionName(name: string): boolean {
 	return colorFunctionNameRegExp.test(name);
 }
 
@@ -874,6 +878,159 @@ export function colorFromOKLCH(l: number, c: number, h: number, alpha = 1): Colo
 
 export interface LCH { l: number; c: number; h: number; alpha?: number; }
 
+type Matrix3 = number[][];
+
+function multiplyMatrix(matrix: Matrix3, vector: number[]): number[] {
+	return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]);
+}
+
+function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+	return a.map(row => [0, 1, 2].map(column => row[0] * b[0][column] + row[1] * b[1][column] + row[2] * b[2][column]));
+}
+
+// Conversion matrices and transfer functions from https://www.w3.org/TR/css-color-4/#color-conversion-code
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+	[0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+	[0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+	[0.01933081871559182, 0.11919477979462598, 0.9505321522496607]
+];
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+	[3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+	[-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+	[0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+];
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+	[0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+	[0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+	[0, 0.04511338185890264, 1.043944368900976]
+];
+const XYZ_TO_LINEAR_P3: Matrix3 = [
+	[2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+	[-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+	[0.03584583024378447, -0.07617238926804182, 0.9568845240076872]
+];
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+	[0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+	[0.29734497525053605, 0.6273635662554661, 0.0752914584939978],
+	[0.02703136138641234, 0.07068885253582723, 0.9913375368376388]
+];
+const XYZ_TO_LINEAR_A98: Matrix3 = [
+	[2.0415879038107465, -0.5650069742788596, -0.34473135077832956],
+	[-0.9692436362808795, 1.8759675015077202, 0.04155505740717557],
+	[0.013444280632031142, -0.11836239223101838, 1.0151749943912054]
+];
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+	[0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+	[0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+	[0, 0, 0.8251046025104602]
+];
+const XYZ_D50_TO_LINEAR_PROPHOTO: Matrix3 = [
+	[1.3457868816471583, -0.25557208737979464, -0.05110186497554526],
+	[-0.5446307051249019, 1.5082477428451468, 0.02052744743642139],
+	[0, 0, 1.2119675456389452]
+];
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+	[0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+	[0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+	[0, 0.028072693049087428, 1.060985057710791]
+];
+const XYZ_TO_LINEAR_REC2020: Matrix3 = [
+	[1.716651187971268, -0.355670783776392, -0.25336628137366],
+	[-0.666684351832489, 1.616481236634939, 0.0157685458139111],
+	[0.017639857445311, -0.042770613257809, 0.942103121235474]
+];
+// Bradford chromatic adaptation
+const XYZ_D65_TO_D50: Matrix3 = [
+	[1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+	[0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+	[-0.009243058152591178, 0.015055144896577895, 0.7518742899580008]
+];
+const XYZ_D50_TO_D65: Matrix3 = [
+	[0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+	[-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+	[0.012314001688319899, -0.020507696433477912, 1.3303659366080753]
+];
+const IDENTITY: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * Applies a transfer function to the absolute value, keeping the sign, as the predefined RGB spaces are extended to negative values
+ */
+function signed(transfer: (value: number) => number): (value: number) => number {
+	return value => Math.sign(value) * transfer(Math.abs(value));
+}
+
+const identity = (value: number) => value;
+
+export type PredefinedColorSpace = 'srgb' | 'srgb-linear' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020' | 'xyz' | 'xyz-d50' | 'xyz-d65';
+
+interface PredefinedColorSpaceDefinition {
+	/** The converter of the linear coordinates to XYZ (D65) */
+	toXYZ: Matrix3;
+	fromXYZ: Matrix3;
+	toLinear: (value: number) => number;
+	fromLinear: (value: number) => number;
+}
+
+const srgbToLinear = signed(value => value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4));
+const srgbFromLinear = signed(value => value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055);
+
+const predefinedColorSpaces: { [name: string]: PredefinedColorSpaceDefinition } = {
+	'srgb': { toXYZ: LINEAR_SRGB_TO_XYZ, fromXYZ: XYZ_TO_LINEAR_SRGB, toLinear: srgbToLinear, fromLinear: srgbFromLinear },
+	'srgb-linear': { toXYZ: LINEAR_SRGB_TO_XYZ, fromXYZ: XYZ_TO_LINEAR_SRGB, toLinear: identity, fromLinear: identity },
+	'display-p3': { toXYZ: LINEAR_P3_TO_XYZ, fromXYZ: XYZ_TO_LINEAR_P3, toLinear: srgbToLinear, fromLinear: srgbFromLinear },
+	'a98-rgb': {
+		toXYZ: LINEAR_A98_TO_XYZ, fromXYZ: XYZ_TO_LINEAR_A98,
+		toLinear: signed(value => Math.pow(value, 563 / 256)),
+		fromLinear: signed(value => Math.pow(value, 256 / 563))
+	},
+	'prophoto-rgb': {
+		toXYZ: multiplyMatrices(XYZ_D50_TO_D65, LINEAR_PROPHOTO_TO_XYZ_D50), fromXYZ: multiplyMatrices(XYZ_D50_TO_LINEAR_PROPHOTO, XYZ_D65_TO_D50),
+		toLinear: signed(value => value <= 16 / 512 ? value / 16 : Math.pow(value, 1.8)),
+		fromLinear: signed(value => value >= 1 / 512 ? Math.pow(value, 1 / 1.8) : value * 16)
+	},
+	'rec2020': {
+		toXYZ: LINEAR_REC2020_TO_XYZ, fromXYZ: XYZ_TO_LINEAR_REC2020,
+		toLinear: signed(value => value < REC2020_BETA * 4.5 ? value / 4.5 : Math.pow((value + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)),
+		fromLinear: signed(value => value > REC2020_BETA ? REC2020_ALPHA * Math.pow(value, 0.45) - (REC2020_ALPHA - 1) : value * 4.5)
+	},
+	'xyz': { toXYZ: IDENTITY, fromXYZ: IDENTITY, toLinear: identity, fromLinear: identity },
+	'xyz-d65': { toXYZ: IDENTITY, fromXYZ: IDENTITY, toLinear: identity, fromLinear: identity },
+	'xyz-d50': { toXYZ: XYZ_D50_TO_D65, fromXYZ: XYZ_D65_TO_D50, toLinear: identity, fromLinear: identity },
+};
+
+export function isPredefinedColorSpace(name: string): name is PredefinedColorSpace {
+	return predefinedColorSpaces.hasOwnProperty(name);
+}
+
+function xyzFromColorSpace(space: PredefinedColorSpace, coordinates: number[]): number[] {
+	const definition = predefinedColorSpaces[space];
+	return multiplyMatrix(definition.toXYZ, coordinates.map(definition.toLinear));
+}
+
+function xyzToColorSpace(space: PredefinedColorSpace, xyz: number[]): number[] {
+	const definition = predefinedColorSpaces[space];
+	return multiplyMatrix(definition.fromXYZ, xyz).map(definition.fromLinear);
+}
+
+/**
+ * Converts coordinates of a predefined color space to a color, clipped to the sRGB gamut
+ */
+export function colorFromColorSpace(space: PredefinedColorSpace, coordinates: number[], alpha = 1): Color {
+	const [red, green, blue] = xyzToColorSpace('srgb', xyzFromColorSpace(space, coordinates)).map(clip);
+	return { red, green, blue, alpha };
+}
+
+export function colorSpaceFromColor(rgba: Color, space: PredefinedColorSpace): number[] {
+	return xyzToColorSpace(space, xyzFromColorSpace('srgb', [rgba.red, rgba.green, rgba.blue]));
+}
+
+function clip(value: number): number {
+	return Math.min(Math.max(value, 0), 1);
+}
+
 export function getColorValue(node: nodes.Node): Color | null {
 	if (node.type === nodes.NodeType.HexColorValue) {
 		const text = node.getText();
@@ -881,23 +1038,18 @@ export function getColorValue(node: nodes.Node): Color | null {
 	} else if (node.type === nodes.NodeType.Function) {
 		const functionNode = <nodes.Function>node;
 		const name = functionNode.getName();
-		let colorValues = functionNode.getArguments().getChildren();
-		if (colorValues.length === 1) {
-			const functionArg = colorValues[0].getChildren();
-			if (functionArg.length === 1 && functionArg[0].type === nodes.NodeType.Expression) {
-				colorValues = functionArg[0].getChildren();
-				if (colorValues.length === 3) {
-					const lastValue = colorValues[2];
-					if (lastValue instanceof nodes.BinaryExpression) {
-						const left = lastValue.getLeft(), right = lastValue.getRight(), operator = lastValue.getOperator();
-						if (left && right && operator && operator.matches('/')) {
-							colorValues = [colorValues[0], colorValues[1], left, right];
-						}
-					}
-				}
-			}
+		if (name === 'color-mix') {
+			return getColorMixValue(functionNode);
+		} else if (name === 'light-dark') {
+			return getLightDarkValue(functionNode);
 		}
-		if (!name || colorValues.length < 3 || colorValues.length > 4) {
+		const args = getColorArguments(functionNode);
+		if (name === 'color' || args.values.length && args.values[0].matches('from')) {
+			const result = getColorFunctionCoordinates(name, args);
+			return result && result.space.toColor(result.coordinates, result.alpha);
+		}
+		const colorValues = args.alpha ? [...args.values, args.alpha] : args.values;
+		if (!name || colorValues.length < 3 || colorValues.length > 4 || args.alpha && args.values.length !== 3) {
 			return null;
 		}
 
@@ -929,35 +1081,12 @@ export function getColorValue(node: nodes.Node): Color | null {
 					return colorFromHWB(h, w, b, alpha);
 				}
 
-				case 'lab': {
-					// Reference: https://mina86.com/2021/srgb-lab-lchab-conversions/
-					const l = getNumericValue(colorValues[0], 100);
-					// Since these two values can be negative, a lower limit of -1 has been added
-					const a = getNumericValue(colorValues[1], 125, -1);
-					const b = getNumericValue(colorValues[2], 125, -1);
-					return colorFromLAB(l * 100, a * 125, b * 125, alpha);
-				}
-
-				case 'lch': {
-					const l = getNumericValue(colorValues[0], 100);
-					const c = getNumericValue(colorValues[1], 230);
-					const h = getAngle(colorValues[2]);
-					return colorFromLCH(l * 100, c * 230, h, alpha);
-				}
-
-				case 'oklab': {
-					const l = getNumericValue(colorValues[0], 1);
-					// Since these two values can be negative, a lower limit of -1 has been added
-					const a = getNumericValue(colorValues[1], 0.4, -1);
-					const b = getNumericValue(colorValues[2], 0.4, -1);
-					return colorFromOKLAB(l, a * 0.4, b * 0.4, alpha);
-				}
-
+				case 'lab':
+				case 'lch':
+				case 'oklab':
 				case 'oklch': {
-					const l = getNumericValue(colorValues[0], 1);
-					const c = getNumericValue(colorValues[1], 0.4);
-					const h = getAngle(colorValues[2]);
-					return colorFromOKLCH(l, c * 0.4, h, alpha);
+					const { lab, isOKLab } = getLabCoordinates(name, colorValues, alpha)!;
+					return isOKLab ? colorFromOKLAB(lab.l, lab.a, lab.b, alpha) : colorFromLAB(lab.l, lab.a, lab.b, alpha);
 				}
 			}
 		} catch {
@@ -987,3 +1116,491 @@ export function getColorValue(node: nodes.Node): Color | null {
 	}
 	return null;
 }
+
+/**
+ * The coordinates of a color in the space of a color function, as used by relative colors and `color-mix()`
+ */
+interface ColorFunctionSpace {
+	channels: string[];
+	/** The value of 100% for each channel */
+	percentages: number[];
+	/** The index of the hue channel of polar spaces */
+	hueIndex?: number;
+	fromColor(rgba: Color): number[];
+	toColor(coordinates: number[], alpha: number): Color;
+}
+
+function getPredefinedFunctionSpace(space: PredefinedColorSpace): ColorFunctionSpace {
+	return {
+		channels: space.startsWith('xyz') ? ['x', 'y', 'z'] : ['r', 'g', 'b'],
+		percentages: [1, 1, 1],
+		fromColor: rgba => colorSpaceFromColor(rgba, space),
+		toColor: (coordinates, alpha) => colorFromColorSpace(space, coordinates, alpha)
+	};
+}
+
+const oklabFromColorUnscaled = (rgba: Color) => XYZtoOKLAB(RGBtoXYZ(rgba), false);
+
+const colorFunctionSpaces: { [name: string]: ColorFunctionSpace } = {
+	'rgb': {
+		channels: ['r', 'g', 'b'],
+		percentages: [255, 255, 255],
+		fromColor: rgba => [rgba.red * 255, rgba.green * 255, rgba.blue * 255],
+		toColor: ([r, g, b], alpha) => ({ red: clip(r / 255), green: clip(g / 255), blue: clip(b / 255), alpha })
+	},
+	'hsl': {
+		channels: ['h', 's', 'l'],
+		percentages: [0, 100, 100],
+		hueIndex: 0,
+		fromColor: rgba => { const hsl = hslFromColor(rgba); return [hsl.h, hsl.s * 100, hsl.l * 100]; },
+		toColor: ([h, s, l], alpha) => colorFromHSL(h, clip(s / 100), clip(l / 100), alpha)
+	},
+	'hwb': {
+		channels: ['h', 'w', 'b'],
+		percentages: [0, 100, 100],
+		hueIndex: 0,
+		fromColor: rgba => { const hwb = hwbFromColor(rgba); return [hwb.h, hwb.w * 100, hwb.b * 100]; },
+		toColor: ([h, w, b], alpha) => colorFromHWB(h, clip(w / 100), clip(b / 100), alpha)
+	},
+	'lab': {
+		channels: ['l', 'a', 'b'],
+		percentages: [100, 125, 125],
+		fromColor: rgba => { const lab = labFromColor(rgba, false); return [lab.l, lab.a, lab.b]; },
+		toColor: ([l, a, b], alpha) => colorFromLAB(l, a, b, alpha)
+	},
+	'lch': {
+		channels: ['l', 'c', 'h'],
+		percentages: [100, 150, 0],
+		hueIndex: 2,
+		fromColor: rgba => { const lch = labToLCH(labFromColor(rgba, false)); return [lch.l, lch.c, lch.h]; },
+		toColor: ([l, c, h], alpha) => colorFromLCH(l, c, h, alpha)
+	},
+	'oklab': {
+		channels: ['l', 'a', 'b'],
+		percentages: [1, 0.4, 0.4],
+		fromColor: rgba => { const lab = oklabFromColorUnscaled(rgba); return [lab.l, lab.a, lab.b]; },
+		toColor: ([l, a, b], alpha) => colorFromOKLAB(l, a, b, alpha)
+	},
+	'oklch': {
+		channels: ['l', 'c', 'h'],
+		percentages: [1, 0.4, 0],
+		hueIndex: 2,
+		fromColor: rgba => { const lch = labToLCH(oklabFromColorUnscaled(rgba)); return [lch.l, lch.c, lch.h]; },
+		toColor: ([l, c, h], alpha) => <Color>colorFromOKLCH(l, c, h, alpha)
+	}
+};
+
+for (const space of Object.keys(predefinedColorSpaces)) {
+	colorFunctionSpaces[space] = getPredefinedFunctionSpace(<PredefinedColorSpace>space);
+}
+
+/**
+ * The arguments of a color function with the space separated syntax, or the comma separated arguments of the legacy syntax.
+ */
+interface ColorArguments {
+	values: nodes.Node[];
+	/** The value after the `/` of the space separated syntax */
+	alpha?: nodes.Node;
+}
+
+function getColorArguments(functionNode: nodes.Function): ColorArguments {
+	const args = functionNode.getArguments().getChildren();
+	if (args.length === 1) {
+		const functionArg = args[0].getChildren();
+		if (functionArg.length === 1 && functionArg[0].type === nodes.NodeType.Expression) {
+			const values = functionArg[0].getChildren();
+			const lastValue = values[values.length - 1];
+			if (lastValue instanceof nodes.BinaryExpression) {
+				const left = lastValue.getLeft(), right = lastValue.getRight(), operator = lastValue.getOperator();
+				if (left && right && operator && operator.matches('/')) {
+					return { values: [...values.slice(0, -1), left], alpha: right };
+				}
+			}
+			return { values };
+		}
+	}
+	return { values: args };
+}
+
+/**
+ * Returns the innermost node of an argument that consists of a single term
+ */
+export function getTermValue(node: nodes.Node): nodes.Node {
+	while (node.getChildren().length === 1 && (node.type === nodes.NodeType.FunctionArgument || node.type === nodes.NodeType.Expression
+		|| node.type === nodes.NodeType.BinaryExpression || node.type === nodes.NodeType.Term)) {
+		node = node.getChild(0)!;
+	}
+	return node;
+}
+
+/**
+ * Evaluates a channel value of `color()` or of a relative color: a number, a percentage of `percentage`, an angle,
+ * a channel keyword of the origin color or a `calc()` expression of these.
+ */
+function evaluateChannel(node: nodes.Node, keywords: { [name: string]: number }, percentage: number): number {
+	const tokens = node.getText().toLowerCase().match(/[0-9]*\.?[0-9]+(?:e[-+]?[0-9]+)?(?:%|deg|grad|rad|turn)?|[a-z][a-z0-9-]*\(?|[-+*/()]/g) || [];
+	let index = 0;
+
+	const parseSum = (): number => {
+		let value = parseProduct();
+		while (tokens[index] === '+' || tokens[index] === '-') {
+			value = tokens[index++] === '+' ? value + parseProduct() : value - parseProduct();
+		}
+		return value;
+	};
+	const parseProduct = (): number => {
+		let value = parseValue();
+		while (tokens[index] === '*' || tokens[index] === '/') {
+			value = tokens[index++] === '*' ? value * parseValue() : value / parseValue();
+		}
+		return value;
+	};
+	const parseValue = (): number => {
+		const token = tokens[index++];
+		if (token === '-') {
+			return -parseValue();
+		}
+		if (token === '(' || token === 'calc(') {
+			const value = parseSum();
+			if (tokens[index++] !== ')') {
+				throw new Error(`Failed to parse '${node.getText()}'`);
+			}
+			return value;
+		}
+		const m = token && /^([0-9.]+(?:e[-+]?[0-9]+)?)(%|deg|grad|rad|turn)?$/.exec(token);
+		if (m) {
+			const value = parseFloat(m[1]);
+			switch (m[2]) {
+				case '%': return value * percentage / 100;
+				case 'grad': return value * GRAD_TO_DEGREE_FACTOR;
+				case 'rad': return value * RADIANS_TO_DEGREES_FACTOR;
+				case 'turn': return value * DEGREES_PER_CIRCLE;
+				default: return value;
+			}
+		}
+		if (token === 'none') {
+			return 0;
+		}
+		if (token && keywords.hasOwnProperty(token)) {
+			return keywords[token];
+		}
+		throw new Error(`Failed to parse '${node.getText()}'`);
+	};
+
+	const result = parseSum();
+	if (index !== tokens.length || isNaN(result)) {
+		throw new Error(`Failed to parse '${node.getText()}'`);
+	}
+	return result;
+}
+
+/**
+ * `color(<space> c1 c2 c3 [/ alpha])`, or with an origin color, `color(from <color> <space> c1 c2 c3 [/ alpha])`
+ * and `<function>(from <color> c1 c2 c3 [/ alpha])`
+ */
+function getColorFunctionCoordinates(name: string, args: ColorArguments): { space: ColorFunctionSpace; coordinates: number[]; alpha: number } | null {
+	let values = args.values;
+	let origin: Color | null = null;
+	if (values.length && values[0].matches('from')) {
+		origin = values.length > 1 ? getColorValue(getTermValue(values[1])) : null;
+		if (!origin) {
+			return null;
+		}
+		values = values.slice(2);
+	}
+	if (name === 'color') {
+		const spaceName = values.length ? values[0].getText().toLowerCase() : '';
+		if (!isPredefinedColorSpace(spaceName)) {
+			return null;
+		}
+		name = spaceName;
+		values = values.slice(1);
+	}
+	const space = colorFunctionSpaces[name === 'rgba' ? 'rgb' : name === 'hsla' ? 'hsl' : name];
+	if (!space || values.length !== 3) {
+		return null;
+	}
+
+	const keywords: { [name: string]: number } = {};
+	if (origin) {
+		const originCoordinates = space.fromColor(origin);
+		space.channels.forEach((channel, i) => keywords[channel] = originCoordinates[i]);
+		keywords['alpha'] = origin.alpha;
+	}
+	try {
+		const coordinates = values.map((value, i) => evaluateChannel(value, keywords, space.percentages[i]));
+		const alpha = args.alpha ? evaluateChannel(args.alpha, keywords, 1) : origin ? origin.alpha : 1;
+		return { space, coordinates, alpha: clip(alpha) };
+	} catch {
+		return null;
+	}
+}
+
+type HueInterpolationMethod = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+function interpolateHues(hue1: number, hue2: number, method: HueInterpolationMethod): [number, number] {
+	const difference = hue2 - hue1;
+	switch (method) {
+		case 'shorter':
+			if (difference > 180) {
+				hue1 += 360;
+			} else if (difference < -180) {
+				hue2 += 360;
+			}
+			break;
+		case 'longer':
+			if (0 < difference && difference < 180) {
+				hue1 += 360;
+			} else if (-180 < difference && difference <= 0) {
+				hue2 += 360;
+			}
+			break;
+		case 'increasing':
+			if (difference < 0) {
+				hue2 += 360;
+			}
+			break;
+		case 'decreasing':
+			if (difference > 0) {
+				hue1 += 360;
+			}
+			break;
+	}
+	return [hue1, hue2];
+}
+
+/**
+ * A color and its optional percentage in `color-mix()`
+ */
+function getMixComponent(node: nodes.Node): { color: Color; percentage?: number } | null {
+	const expression = getTermValue(node);
+	const parts = expression.type === nodes.NodeType.Expression ? expression.getChildren() : [expression];
+	let color: Color | null = null;
+	let percentage: number | undefined;
+	for (const part of parts) {
+		const value = getTermValue(part);
+		const m = /^([0-9]*\.?[0-9]+)%$/.exec(value.getText());
+		if (m && percentage === undefined) {
+			percentage = parseFloat(m[1]);
+		} else if (!color) {
+			color = getColorValue(value);
+		} else {
+			return null;
+		}
+	}
+	return color ? { color, percentage } : null;
+}
+
+/**
+ * `color-mix(in <space> [<hue-interpolation-method> hue], <color> [<percentage>], <color> [<percentage>])`,
+ * interpolated with premultiplied alpha as specified in https://www.w3.org/TR/css-color-5/#color-mix
+ */
+function getColorMixValue(functionNode: nodes.Function): Color | null {
+	const args = functionNode.getArguments().getChildren();
+	if (args.length !== 3) {
+		return null;
+	}
+	const method = args[0].getText().toLowerCase().split(/\s+/);
+	const space = method[1] !== 'rgb' ? colorFunctionSpaces[method[1]] : undefined;
+	if (method[0] !== 'in' || !space) {
+		return null;
+	}
+	let hueMethod: HueInterpolationMethod = 'shorter';
+	if (method.length === 4 && method[3] === 'hue' && space.hueIndex !== undefined && /^(?:shorter|longer|increasing|decreasing)$/.test(method[2])) {
+		hueMethod = <HueInterpolationMethod>method[2];
+	} else if (method.length !== 2) {
+		return null;
+	}
+
+	const first = getMixComponent(args[1]);
+	const second = getMixComponent(args[2]);
+	if (!first || !second) {
+		return null;
+	}
+	let p1 = first.percentage ?? (second.percentage !== undefined ? 100 - second.percentage : 50);
+	let p2 = second.percentage ?? 100 - p1;
+	const sum = p1 + p2;
+	if (sum <= 0 || p1 < 0 || p2 < 0) {
+		return null;
+	}
+	const alphaMultiplier = sum < 100 ? sum / 100 : 1;
+	p1 = p1 / sum;
+	p2 = p2 / sum;
+
+	const c1 = space.fromColor(first.color);
+	const c2 = space.fromColor(second.color);
+	const a1 = first.color.alpha, a2 = second.color.alpha;
+	const hueIndex = space.hueIndex;
+	if (hueIndex !== undefined) {
+		// the hue of an achromatic color is powerless and takes the hue of the other color
+		if (isAchromatic(first.color)) {
+			c1[hueIndex] = c2[hueIndex];
+		} else if (isAchromatic(second.color)) {
+			c2[hueIndex] = c1[hueIndex];
+		}
+		[c1[hueIndex], c2[hueIndex]] = interpolateHues(c1[hueIndex], c2[hueIndex], hueMethod);
+	}
+	const alpha = a1 * p1 + a2 * p2;
+	const coordinates = c1.map((value, i) => {
+		if (i === hueIndex || alpha === 0) {
+			return value * p1 + c2[i] * p2;
+		}
+		return (value * a1 * p1 + c2[i] * a2 * p2) / alpha;
+	});
+	if (hueIndex !== undefined) {
+		coordinates[hueIndex] = coordinates[hueIndex] % 360;
+	}
+	return space.toColor(coordinates, alpha * alphaMultiplier);
+}
+
+function isAchromatic(rgba: Color): boolean {
+	return Math.max(rgba.red, rgba.green, rgba.blue) - Math.min(rgba.red, rgba.green, rgba.blue) < 0.0001;
+}
+
+/**
+ * `light-dark(<light color>, <dark color>)` evaluates to the color of the light color scheme.
+ */
+function getLightDarkValue(functionNode: nodes.Function): Color | null {
+	const args = functionNode.getArguments().getChildren();
+	return args.length === 2 ? getColorValue(getTermValue(args[0])) : null;
+}
+
+/**
+ * The CIE Lab or OKLab coordinates of `lab()`, `lch()`, `oklab()` and `oklch()`.
+ */
+function getLabCoordinates(name: string, colorValues: nodes.Node[], alpha: number): { lab: LAB; isOKLab: boolean } | null {
+	switch (name) {
+		case 'lab': {
+			// Reference: https://mina86.com/2021/srgb-lab-lchab-conversions/
+			const l = getNumericValue(colorValues[0], 100);
+			// Since these two values can be negative, a lower limit of -1 has been added
+			const a = getNumericValue(colorValues[1], 125, -1);
+			const b = getNumericValue(colorValues[2], 125, -1);
+			return { lab: { l: l * 100, a: a * 125, b: b * 125, alpha }, isOKLab: false };
+		}
+
+		case 'lch': {
+			const l = getNumericValue(colorValues[0], 100);
+			const c = getNumericValue(colorValues[1], 230);
+			const h = getAngle(colorValues[2]);
+			return { lab: labFromLCH(l * 100, c * 230, h, alpha), isOKLab: false };
+		}
+
+		case 'oklab': {
+			const l = getNumericValue(colorValues[0], 1);
+			// Since these two values can be negative, a lower limit of -1 has been added
+			const a = getNumericValue(colorValues[1], 0.4, -1);
+			const b = getNumericValue(colorValues[2], 0.4, -1);
+			return { lab: { l, a: a * 0.4, b: b * 0.4, alpha }, isOKLab: true };
+		}
+
+		case 'oklch': {
+			const l = getNumericValue(colorValues[0], 1);
+			const c = getNumericValue(colorValues[1], 0.4);
+			const h = getAngle(colorValues[2]);
+			return { lab: labFromLCH(l, c * 0.4, h, alpha), isOKLab: true };
+		}
+	}
+	return null;
+}
+
+/**
+ * The XYZ (D65) coordinates of a color that can be outside of the sRGB gamut: `color()` and the Lab functions.
+ */
+function getColorXYZ(node: nodes.Node): number[] | null {
+	if (node.type !== nodes.NodeType.Function) {
+		return null;
+	}
+	const name = (<nodes.Function>node).getName();
+	const args = getColorArguments(<nodes.Function>node);
+	if (name === 'color') {
+		const spaceName = args.values.length === 4 ? args.values[0].getText().toLowerCase() : '';
+		if (!isPredefinedColorSpace(spaceName)) {
+			return null;
+		}
+		try {
+			return xyzFromColorSpace(spaceName, args.values.slice(1).map(value => evaluateChannel(value, {}, 1)));
+		} catch {
+			return null;
+		}
+	}
+	if (args.values.length !== 3 || args.values[0].matches('from')) {
+		return null;
+	}
+	try {
+		const result = getLabCoordinates(name, args.values, 1);
+		if (result) {
+			const xyz = result.isOKLab ? xyzFromOKLAB(result.lab) : xyzFromLAB(result.lab);
+			return [xyz.x / 100, xyz.y / 100, xyz.z / 100];
+		}
+	} catch {
+		// parse error on numeric value
+	}
+	return null;
+}
+
+const GAMUT_EPSILON = 0.001;
+
+/**
+ * Returns false if the color of the node can not be displayed in the given RGB space without clipping.
+ */
+export function isColorInGamut(node: nodes.Node, space: PredefinedColorSpace = 'srgb'): boolean {
+	const xyz = getColorXYZ(node);
+	if (!xyz || space.startsWith('xyz')) {
+		return true;
+	}
+	return xyzToColorSpace(space, xyz).every(value => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON);
+}
+
+/**
+ * Composes a translucent color over an opaque background color.
+ */
+export function blendColors(foreground: Color, background: Color): Color {
+	const alpha = foreground.alpha;
+	return {
+		red: foreground.red * alpha + background.red * (1 - alpha),
+		green: foreground.green * alpha + background.green * (1 - alpha),
+		blue: foreground.blue * alpha + background.blue * (1 - alpha),
+		alpha: 1
+	};
+}
+
+/**
+ * The relative luminance of WCAG 2, the Y component of the XYZ color in the range 0-1.
+ */
+export function getRelativeLuminance(rgba: Color): number {
+	return RGBtoXYZ(rgba).y / 100;
+}
+
+/**
+ * The WCAG 2 contrast ratio of a text color on an opaque background color, between 1 and 21.
+ * See https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+ */
+export function getContrastRatio(foreground: Color, background: Color): number {
+	const l1 = getRelativeLuminance(blendColors(foreground, background));
+	const l2 = getRelativeLuminance(background);
+	return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * The APCA lightness contrast (Lc) of a text color on an opaque background color, positive for dark text on a light background
+ * and negative for light text on a dark background. See https://github.com/Myndex/apca-w3, version 0.0.98G-4g.
+ */
+export function getAPCAContrast(foreground: Color, background: Color): number {
+	const luminance = (rgba: Color) => {
+		const y = 0.2126729 * Math.pow(rgba.red, 2.4) + 0.7151522 * Math.pow(rgba.green, 2.4) + 0.0721750 * Math.pow(rgba.blue, 2.4);
+		// soft clamp of the black level
+		return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+	};
+	const text = luminance(blendColors(foreground, background));
+	const back = luminance(background);
+	if (Math.abs(back - text) < 0.0005) {
+		return 0;
+	}
+	if (back > text) {
+		const contrast = (Math.pow(back, 0.56) - Math.pow(text, 0.57)) * 1.14;
+		return contrast < 0.1 ? 0 : (contrast - 0.027) * 100;
+	}
+	const contrast = (Math.pow(back, 0.65) - Math.pow(text, 0.62)) * 1.14;
+	return contrast > -0.1 ? 0 : (contrast + 0.027) * 100;
+}
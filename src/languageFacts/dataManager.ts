@@ -10,11 +10,13 @@ import {
 	IAtDirectiveData,
 	IPseudoClassData,
 	IPseudoElementData,
+	IDescriptorData,
 } from '../cssLanguageTypes.js';
 
 import * as objects from '../utils/objects.js';
 import { cssData } from '../data/webCustomData.js';
 import { CSSDataProvider } from './dataProvider.js';
+import { atRuleDescriptors } from './builtinData.js';
 
 export class CSSDataManager {
 	private dataProviders: ICSSDataProvider[] = [];
@@ -85,6 +87,13 @@ export class CSSDataManager {
 	getPseudoClass(name: string) : IPseudoClassData | undefined { return this._pseudoClassSet[name]; }
 	getPseudoElement(name: string) : IPseudoElementData | undefined { return this._pseudoElementSet[name]; }
 
+	/**
+	 * The descriptors of the at-rule, from its data or from the built-in descriptors
+	 */
+	getAtRuleDescriptors(name: string): IDescriptorData[] | undefined {
+		return this.getAtDirective(name)?.descriptors ?? atRuleDescriptors[name];
+	}
+
 	getProperties() : IPropertyData[] {
 		return this._properties;
 	}
@@ -6,4 +6,5 @@
 
 export * from './entry.js';
 export * from './colors.js';
-export * from './builtinData.js';
\ No newline at end of file
+export * from './builtinData.js';
+export * from './functionSignatures.js';
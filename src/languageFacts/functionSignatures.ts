@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+/**
+ * The signatures of the CSS functions, by lowercase function name. Parameters are separated by commas,
+ * a parameter ending with `...` can be repeated. Functions with optional leading parameters have a
+ * signature for each form. In the signatures with a `/ <alpha>` parameter and no comma, like the modern
+ * color functions, the parameters are separated by spaces and `/`.
+ */
+export const functionSignatures: { [name: string]: string[] } = {
+	// substitution
+	'var': ['var(<custom-property-name>, <fallback>)'],
+	'env': ['env(<environment-variable>, <fallback>)'],
+	'attr': ['attr(<attr-name> <attr-type>, <fallback>)'],
+	'if': ['if(<condition>: <value>; else: <value>)'],
+
+	// math
+	'calc': ['calc(<calc-sum>)'],
+	'min': ['min(<calc-sum>, <calc-sum>...)'],
+	'max': ['max(<calc-sum>, <calc-sum>...)'],
+	'clamp': ['clamp(<min>, <preferred>, <max>)'],
+	'round': ['round(<value>, <interval>)', 'round(<rounding-strategy>, <value>, <interval>)'],
+	'mod': ['mod(<dividend>, <divisor>)'],
+	'rem': ['rem(<dividend>, <divisor>)'],
+	'sin': ['sin(<angle>)'],
+	'cos': ['cos(<angle>)'],
+	'tan': ['tan(<angle>)'],
+	'asin': ['asin(<number>)'],
+	'acos': ['acos(<number>)'],
+	'atan': ['atan(<number>)'],
+	'atan2': ['atan2(<y>, <x>)'],
+	'pow': ['pow(<base>, <exponent>)'],
+	'sqrt': ['sqrt(<value>)'],
+	'hypot': ['hypot(<value>, <value>...)'],
+	'log': ['log(<value>)', 'log(<value>, <base>)'],
+	'exp': ['exp(<value>)'],
+	'abs': ['abs(<value>)'],
+	'sign': ['sign(<value>)'],
+
+	// colors
+	'rgb': ['rgb(<red>, <green>, <blue>)', 'rgb(<red> <green> <blue> / <alpha>)'],
+	'rgba': ['rgba(<red>, <green>, <blue>, <alpha>)'],
+	'hsl': ['hsl(<hue>, <saturation>, <lightness>)', 'hsl(<hue> <saturation> <lightness> / <alpha>)'],
+	'hsla': ['hsla(<hue>, <saturation>, <lightness>, <alpha>)'],
+	'hwb': ['hwb(<hue> <whiteness> <blackness> / <alpha>)'],
+	'lab': ['lab(<lightness> <a> <b> / <alpha>)'],
+	'lch': ['lch(<lightness> <chroma> <hue> / <alpha>)'],
+	'oklab': ['oklab(<lightness> <a> <b> / <alpha>)'],
+	'oklch': ['oklch(<lightness> <chroma> <hue> / <alpha>)'],
+	'color': ['color(<colorspace> <c1> <c2> <c3> / <alpha>)'],
+	'color-mix': ['color-mix(<color-interpolation-method>, <color> <percentage>, <color> <percentage>)'],
+	'light-dark': ['light-dark(<light-color>, <dark-color>)'],
+
+	// images
+	'url': ['url(<url>)'],
+	'image-set': ['image-set(<image> <resolution>, <image> <resolution>...)'],
+	'cross-fade': ['cross-fade(<image> <percentage>, <image> <percentage>...)'],
+	'element': ['element(<id-selector>)'],
+	'linear-gradient': ['linear-gradient(<angle> | to <side-or-corner>, <color-stop>, <color-stop>...)'],
+	'repeating-linear-gradient': ['repeating-linear-gradient(<angle> | to <side-or-corner>, <color-stop>, <color-stop>...)'],
+	'radial-gradient': ['radial-gradient(<shape> <size> at <position>, <color-stop>, <color-stop>...)'],
+	'repeating-radial-gradient': ['repeating-radial-gradient(<shape> <size> at <position>, <color-stop>, <color-stop>...)'],
+	'conic-gradient': ['conic-gradient(from <angle> at <position>, <color-stop>, <color-stop>...)'],
+	'repeating-conic-gradient': ['repeating-conic-gradient(from <angle> at <position>, <color-stop>, <color-stop>...)'],
+
+	// transforms
+	'matrix': ['matrix(<a>, <b>, <c>, <d>, <tx>, <ty>)'],
+	'matrix3d': ['matrix3d(<a1>, <b1>, <c1>, <d1>, <a2>, <b2>, <c2>, <d2>, <a3>, <b3>, <c3>, <d3>, <a4>, <b4>, <c4>, <d4>)'],
+	'translate': ['translate(<tx>, <ty>)'],
+	'translatex': ['translateX(<tx>)'],
+	'translatey': ['translateY(<ty>)'],
+	'translatez': ['translateZ(<tz>)'],
+	'translate3d': ['translate3d(<tx>, <ty>, <tz>)'],
+	'scale': ['scale(<sx>, <sy>)'],
+	'scalex': ['scaleX(<sx>)'],
+	'scaley': ['scaleY(<sy>)'],
+	'scalez': ['scaleZ(<sz>)'],
+	'scale3d': ['scale3d(<sx>, <sy>, <sz>)'],
+	'rotate': ['rotate(<angle>)'],
+	'rotatex': ['rotateX(<angle>)'],
+	'rotatey': ['rotateY(<angle>)'],
+	'rotatez': ['rotateZ(<angle>)'],
+	'rotate3d': ['rotate3d(<x>, <y>, <z>, <angle>)'],
+	'skew': ['skew(<ax>, <ay>)'],
+	'skewx': ['skewX(<angle>)'],
+	'skewy': ['skewY(<angle>)'],
+	'perspective': ['perspective(<length>)'],
+
+	// easing
+	'cubic-bezier': ['cubic-bezier(<x1>, <y1>, <x2>, <y2>)'],
+	'steps': ['steps(<number-of-steps>, <step-position>)'],
+	'linear': ['linear(<linear-stop>, <linear-stop>...)'],
+
+	// filters
+	'blur': ['blur(<length>)'],
+	'brightness': ['brightness(<amount>)'],
+	'contrast': ['contrast(<amount>)'],
+	'drop-shadow': ['drop-shadow(<color> <offset-x> <offset-y> <blur-radius>)'],
+	'grayscale': ['grayscale(<amount>)'],
+	'hue-rotate': ['hue-rotate(<angle>)'],
+	'invert': ['invert(<amount>)'],
+	'opacity': ['opacity(<amount>)'],
+	'saturate': ['saturate(<amount>)'],
+	'sepia': ['sepia(<amount>)'],
+
+	// shapes
+	'circle': ['circle(<radius> at <position>)'],
+	'ellipse': ['ellipse(<radius-x> <radius-y> at <position>)'],
+	'inset': ['inset(<top> <right> <bottom> <left> round <border-radius>)'],
+	'polygon': ['polygon(<fill-rule>, <point>, <point>...)'],
+	'path': ['path(<fill-rule>, <path-data>)'],
+	'rect': ['rect(<top> <right> <bottom> <left> round <border-radius>)'],
+	'xywh': ['xywh(<x> <y> <width> <height> round <border-radius>)'],
+
+	// grid
+	'minmax': ['minmax(<min>, <max>)'],
+	'repeat': ['repeat(<count>, <track-list>)'],
+	'fit-content': ['fit-content(<length-percentage>)'],
+
+	// others
+	'anchor': ['anchor(<anchor-name> <anchor-side>, <fallback>)'],
+	'anchor-size': ['anchor-size(<anchor-name> <anchor-size>, <fallback>)'],
+	'counter': ['counter(<counter-name>, <counter-style>)'],
+	'counters': ['counters(<counter-name>, <string>, <counter-style>)'],
+	'local': ['local(<font-face-name>)'],
+	'format': ['format(<font-format>)'],
+};
@@ -0,0 +1,639 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { units, cssWideKeywords, imageFunctions, transitionTimingFunctions, basicShapeFunctions } from './builtinData.js';
+import { isColorConstructor, isColorString } from './colors.js';
+
+/**
+ * A parsed CSS value definition syntax, see https://www.w3.org/TR/css-values-4/#value-defs
+ */
+export type SyntaxNode =
+	{ kind: 'keyword'; name: string } |
+	{ kind: 'literal'; value: string } |
+	{ kind: 'type'; name: string; min?: number; max?: number } |
+	{ kind: 'property'; name: string } |
+	{ kind: 'function'; name: string } |
+	{ kind: 'group'; combinator: ' ' | '&&' | '||' | '|'; terms: SyntaxNode[] } |
+	{ kind: 'multiplier'; term: SyntaxNode; min: number; max: number; comma: boolean; required: boolean };
+
+type ComponentValue =
+	{ kind: 'ident'; text: string } |
+	{ kind: 'number'; text: string; value: number; unit: string } |
+	{ kind: 'hash' | 'string' | 'url' | 'unicode-range' | 'brackets'; text: string } |
+	{ kind: 'function'; text: string; name: string } |
+	{ kind: 'delim'; text: string } |
+	{ kind: 'any'; text: string };
+
+/**
+ * Definitions of the data types referenced by the property syntaxes. Data types that are neither
+ * defined here nor in `primitiveTypes` are unknown, values of properties using them are not validated.
+ */
+const typeDefinitions: { [name: string]: string } = {
+	'absolute-size': 'xx-small | x-small | small | medium | large | x-large | xx-large | xxx-large',
+	'attachment': 'scroll | fixed | local',
+	'baseline-position': '[ first | last ]? baseline',
+	'bg-clip': '<visual-box> | border-area | text',
+	'bg-image': 'none | <image>',
+	'bg-layer': '<bg-image> || <bg-position> [ / <bg-size> ]? || <repeat-style> || <attachment> || <visual-box> || <visual-box>',
+	'bg-position': '<position>',
+	'bg-size': '[ <length-percentage [0,∞]> | auto ]{1,2} | cover | contain',
+	'blend-mode': 'normal | multiply | screen | overlay | darken | lighten | color-dodge | color-burn | hard-light | soft-light | difference | exclusion | hue | saturation | color | luminosity',
+	'common-lig-values': 'common-ligatures | no-common-ligatures',
+	'compositing-operator': 'add | subtract | intersect | exclude',
+	'content-distribution': 'space-between | space-around | space-evenly | stretch',
+	'content-position': 'center | start | end | flex-start | flex-end',
+	'content-list': '[ <string> | <counter> | <quote> | <target> | <leader()> | <image> | contents ]+',
+	'content-replacement': '<image>',
+	'contextual-alt-values': 'contextual | no-contextual',
+	'coord-box': '<visual-box> | fill-box | stroke-box | view-box',
+	'counter': '<counter()> | <counters()>',
+	'counter-name': '<custom-ident>',
+	'counter-style-name': '<custom-ident>',
+	'cursor-predefined': 'auto | default | none | context-menu | help | pointer | progress | wait | cell | crosshair | text | vertical-text | alias | copy | move | no-drop | not-allowed | grab | grabbing | e-resize | n-resize | ne-resize | nw-resize | s-resize | se-resize | sw-resize | w-resize | ew-resize | ns-resize | nesw-resize | nwse-resize | col-resize | row-resize | all-scroll | zoom-in | zoom-out',
+	'discretionary-lig-values': 'discretionary-ligatures | no-discretionary-ligatures',
+	'display-box': 'contents | none',
+	'display-inside': 'flow | flow-root | table | flex | grid | ruby',
+	'display-internal': 'table-row-group | table-header-group | table-footer-group | table-row | table-cell | table-column-group | table-column | table-caption | ruby-base | ruby-text | ruby-base-container | ruby-text-container',
+	'display-legacy': 'inline-block | inline-list-item | inline-table | inline-flex | inline-grid',
+	'display-listitem': '<display-outside>? && [ flow | flow-root ]? && list-item',
+	'display-outside': 'block | inline | run-in',
+	'east-asian-variant-values': 'jis78 | jis83 | jis90 | jis04 | simplified | traditional',
+	'east-asian-width-values': 'full-width | proportional-width',
+	'family-name': '<string> | <custom-ident>+',
+	'final-bg-layer': '<color> || <bg-image> || <bg-position> [ / <bg-size> ]? || <repeat-style> || <attachment> || <visual-box> || <visual-box>',
+	'font-stretch-absolute': 'normal | ultra-condensed | extra-condensed | condensed | semi-condensed | semi-expanded | expanded | extra-expanded | ultra-expanded | <percentage [0,∞]>',
+	'font-variant-css2': 'normal | small-caps',
+	'font-weight-absolute': 'normal | bold | <number [1,1000]>',
+	'font-width-css3': 'normal | ultra-condensed | extra-condensed | condensed | semi-condensed | semi-expanded | expanded | extra-expanded | ultra-expanded',
+	'geometry-box': '<shape-box> | fill-box | stroke-box | view-box',
+	'historical-lig-values': 'historical-ligatures | no-historical-ligatures',
+	'keyframes-name': '<custom-ident> | <string>',
+	'line-style': 'none | hidden | dotted | dashed | solid | double | groove | ridge | inset | outset',
+	'line-width': '<length [0,∞]> | thin | medium | thick',
+	'masking-mode': 'alpha | luminance | match-source',
+	'numeric-figure-values': 'lining-nums | oldstyle-nums',
+	'numeric-fraction-values': 'diagonal-fractions | stacked-fractions',
+	'numeric-spacing-values': 'proportional-nums | tabular-nums',
+	'opacity-value': '<number> | <percentage>',
+	'outline-radius': '<length> | <percentage>',
+	'overflow-position': 'unsafe | safe',
+	'paint': 'none | <color> | <url> [ none | <color> ]? | context-fill | context-stroke',
+	'position': '[ left | center | right | top | bottom | x-start | x-end | y-start | y-end | <length-percentage> ]{1,4}',
+	'quote': 'open-quote | close-quote | no-open-quote | no-close-quote',
+	'ratio': '<number [0,∞]> [ / <number [0,∞]> ]?',
+	'relative-size': 'larger | smaller',
+	'repeat-style': 'repeat-x | repeat-y | [ repeat | space | round | no-repeat ]{1,2}',
+	'self-position': 'center | start | end | self-start | self-end | flex-start | flex-end',
+	'shadow': 'inset? && <length>{2,4} && <color>?',
+	'shadow-t': '<length>{2,3} && <color>?',
+	'symbol': '<string> | <image> | <custom-ident>',
+	'shape-box': '<visual-box> | margin-box',
+	'single-animation': '<time> || <easing-function> || <time> || <single-animation-iteration-count> || <single-animation-direction> || <single-animation-fill-mode> || <single-animation-play-state> || [ none | <keyframes-name> ] || <single-animation-timeline>',
+	'single-animation-composition': 'replace | add | accumulate',
+	'single-animation-direction': 'normal | reverse | alternate | alternate-reverse',
+	'single-animation-fill-mode': 'none | forwards | backwards | both',
+	'single-animation-iteration-count': 'infinite | <number [0,∞]>',
+	'single-animation-play-state': 'running | paused',
+	'single-animation-timeline': 'auto | none | <dashed-ident> | scroll() | view()',
+	'single-transition': '[ none | <single-transition-property> ] || <time> || <easing-function> || <time> || <transition-behavior-value>',
+	'single-transition-property': 'all | <custom-ident>',
+	'system-family-name': 'caption | icon | menu | message-box | small-caption | status-bar',
+	'target': '<target-counter()> | <target-counters()> | <target-text()>',
+	'transform-list': '<transform-function>+',
+	'filter-value-list': '[ <filter-function> | <url> ]+',
+	'transition-behavior-value': 'normal | allow-discrete',
+	'visual-box': 'content-box | padding-box | border-box',
+};
+
+const mathFunctions = ['calc', 'min', 'max', 'clamp', 'round', 'mod', 'rem', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2', 'pow', 'sqrt', 'hypot', 'log', 'exp', 'abs', 'sign', 'calc-size'];
+const colorFunctionNames = ['color', 'color-mix', 'light-dark', 'device-cmyk', 'contrast-color'];
+const transformFunctions = ['matrix', 'matrix3d', 'translate', 'translatex', 'translatey', 'translatez', 'translate3d', 'scale', 'scalex', 'scaley', 'scalez', 'scale3d', 'rotate', 'rotatex', 'rotatey', 'rotatez', 'rotate3d', 'skew', 'skewx', 'skewy', 'perspective'];
+const filterFunctions = ['blur', 'brightness', 'contrast', 'drop-shadow', 'grayscale', 'hue-rotate', 'invert', 'opacity', 'saturate', 'sepia'];
+const imageFunctionNames = Object.keys(imageFunctions).map(toFunctionName);
+const easingFunctionNames = Object.keys(transitionTimingFunctions).filter(name => name.endsWith('()')).map(toFunctionName).concat('linear');
+const easingKeywords = Object.keys(transitionTimingFunctions).filter(name => !name.endsWith(')'));
+const basicShapeFunctionNames = Object.keys(basicShapeFunctions).map(toFunctionName).concat('rect', 'xywh', 'path', 'shape');
+const systemColors = ['accentcolor', 'accentcolortext', 'activetext', 'buttonborder', 'buttonface', 'buttontext', 'canvas', 'canvastext', 'field', 'fieldtext', 'graytext', 'highlight', 'highlighttext', 'linktext', 'mark', 'marktext', 'selecteditem', 'selecteditemtext', 'visitedtext'];
+
+/**
+ * Sizing keywords that the syntaxes of the sizing properties don't list yet. They are accepted wherever `fit-content` is.
+ */
+const sizingKeywords = ['stretch'];
+
+/**
+ * Functions that can not be validated before substitution: a value using them at the top level matches any syntax.
+ */
+const substitutionFunctions = ['var', 'env', 'attr', 'if'];
+
+const knownFunctions = new Set<string>([...mathFunctions, ...colorFunctionNames, ...transformFunctions, ...filterFunctions, ...imageFunctionNames, ...easingFunctionNames, ...basicShapeFunctionNames, 'url', 'src']);
+
+const numericTypes = ['number', 'integer', 'percentage', 'length', 'length-percentage', 'number-percentage', 'angle', 'time', 'frequency', 'resolution', 'flex'];
+
+const primitiveTypes: { [name: string]: (value: ComponentValue) => boolean } = {
+	'number': value => value.kind === 'number' && value.unit === '',
+	'integer': value => value.kind === 'number' && value.unit === '' && Number.isInteger(value.value) && !/[.e]/i.test(value.text),
+	'percentage': value => value.kind === 'number' && value.unit === '%',
+	'length': value => value.kind === 'number' && (isUnitOf(value.unit, 'length') || value.unit === '' && value.value === 0),
+	'length-percentage': value => primitiveTypes['length'](value) || primitiveTypes['percentage'](value),
+	'number-percentage': value => primitiveTypes['number'](value) || primitiveTypes['percentage'](value),
+	'angle': value => value.kind === 'number' && (isUnitOf(value.unit, 'angle') || value.unit === '' && value.value === 0),
+	'time': value => value.kind === 'number' && isUnitOf(value.unit, 'time'),
+	'frequency': value => value.kind === 'number' && isUnitOf(value.unit, 'frequency'),
+	'resolution': value => value.kind === 'number' && (isUnitOf(value.unit, 'resolution') || value.unit === 'x'),
+	'flex': value => value.kind === 'number' && value.unit === 'fr',
+	'string': value => value.kind === 'string',
+	'url': value => value.kind === 'url' || value.kind === 'function' && (value.name === 'url' || value.name === 'src'),
+	'ident': value => value.kind === 'ident',
+	'custom-ident': value => value.kind === 'ident' && !isCSSWideKeyword(value.text) && value.text.toLowerCase() !== 'default',
+	'dashed-ident': value => value.kind === 'ident' && value.text.startsWith('--'),
+	'color': value => value.kind === 'hash'
+		|| value.kind === 'ident' && (isColorString(value.text) || systemColors.indexOf(value.text.toLowerCase()) !== -1)
+		|| value.kind === 'function' && (colorFunctionNames.indexOf(value.name) !== -1 || /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch)$/.test(value.name)),
+	'image': value => primitiveTypes['url'](value) || value.kind === 'function' && imageFunctionNames.indexOf(value.name) !== -1,
+	'easing-function': value => value.kind === 'ident' && easingKeywords.indexOf(value.text.toLowerCase()) !== -1 || value.kind === 'function' && easingFunctionNames.indexOf(value.name) !== -1,
+	'basic-shape': value => value.kind === 'function' && basicShapeFunctionNames.indexOf(value.name) !== -1,
+	'transform-function': value => value.kind === 'function' && transformFunctions.indexOf(value.name) !== -1,
+	'filter-function': value => value.kind === 'function' && filterFunctions.indexOf(value.name) !== -1,
+	'unicode-range-token': value => value.kind === 'unicode-range',
+};
+
+const syntaxCache = new Map<string, SyntaxNode | null>();
+
+/**
+ * Parses a value definition syntax such as `<length> | <percentage> | auto`.
+ * Returns null if the syntax can not be parsed.
+ */
+export function parseValueSyntax(syntax: string): SyntaxNode | null {
+	let result = syntaxCache.get(syntax);
+	if (result === undefined) {
+		result = new SyntaxParser(syntax).parse();
+		syntaxCache.set(syntax, result);
+	}
+	return result;
+}
+
+/**
+ * Checks the value of a declaration against a property syntax.
+ * Returns `undefined` if the value can not be validated, e.g. because it uses `var()`, preprocessor variables,
+ * unknown functions or because the syntax references unknown data types.
+ */
+export function matchesValueSyntax(expression: nodes.Expression, syntax: string, getPropertySyntax: (name: string) => string | undefined, isPreprocessor = false): boolean | undefined {
+	const root = parseValueSyntax(syntax);
+	const values = getComponentValues(expression, isPreprocessor);
+	if (!root || !values) {
+		return undefined;
+	}
+	if (values.length === 1 && values[0].kind === 'ident' && isCSSWideKeyword(values[0].text)) {
+		return true;
+	}
+	const matcher = new SyntaxMatcher(values, getPropertySyntax);
+	if (matcher.match(root, 0).indexOf(values.length) !== -1) {
+		return true;
+	}
+	return matcher.hasUnknownTypes ? undefined : false;
+}
+
+/**
+ * Returns true if the function is a math function like `calc()` or `clamp()`.
+ */
+export function isMathFunction(name: string): boolean {
+	return mathFunctions.indexOf(name.toLowerCase()) !== -1;
+}
+
+function toFunctionName(name: string): string {
+	return name.substring(0, name.indexOf('(')).toLowerCase();
+}
+
+function isUnitOf(unit: string, type: string): boolean {
+	return units[type].some(u => u.toLowerCase() === unit.toLowerCase());
+}
+
+function isCSSWideKeyword(text: string): boolean {
+	const keyword = text.toLowerCase();
+	return !!cssWideKeywords[keyword] || keyword === 'revert' || keyword === 'revert-layer';
+}
+
+/**
+ * Flattens the expression into component values. Returns undefined if the expression contains nodes
+ * that can not be validated.
+ */
+function getComponentValues(expression: nodes.Expression, isPreprocessor: boolean): ComponentValue[] | undefined {
+	const result: ComponentValue[] = [];
+	const text = expression.getText();
+	let lastEnd = expression.offset;
+
+	const addValue = (node: nodes.Node): boolean => {
+		if (text.substring(lastEnd - expression.offset, node.offset - expression.offset).indexOf(',') !== -1) {
+			result.push({ kind: 'delim', text: ',' });
+		}
+		lastEnd = node.end;
+		switch (node.type) {
+			case nodes.NodeType.Identifier: {
+				const ident = node.getText();
+				if (node.hasChildren()) {
+					return false; // interpolation
+				}
+				result.push({ kind: isVendorSpecific(ident) ? 'any' : 'ident', text: ident });
+				return true;
+			}
+			case nodes.NodeType.NumericValue: {
+				const match = node.getText().match(/^([-+]?(?:\d*\.)?\d+(?:e[-+]?\d+)?)(.*)$/i);
+				if (!match) {
+					return false;
+				}
+				result.push({ kind: 'number', text: match[1], value: parseFloat(match[1]), unit: match[2] });
+				return true;
+			}
+			case nodes.NodeType.Function: {
+				const name = (<nodes.Function>node).getName().toLowerCase();
+				if (knownFunctions.has(name) || isColorConstructor(<nodes.Function>node) || substitutionFunctions.indexOf(name) !== -1) {
+					result.push({ kind: 'function', text: node.getText(), name });
+				} else if (name.startsWith('--')) {
+					return false; // a custom function might return several values
+				} else if (isPreprocessor && !isVendorSpecific(name)) {
+					return false; // a preprocessor function might return several values
+				} else {
+					result.push({ kind: 'any', text: node.getText() }); // unknown and vendor specific functions match any value
+				}
+				return true;
+			}
+			case nodes.NodeType.HexColorValue:
+				result.push({ kind: 'hash', text: node.getText() });
+				return true;
+			case nodes.NodeType.StringLiteral:
+				result.push({ kind: 'string', text: node.getText() });
+				return true;
+			case nodes.NodeType.URILiteral:
+				result.push({ kind: 'url', text: node.getText() });
+				return true;
+			case nodes.NodeType.UnicodeRange:
+				result.push({ kind: 'unicode-range', text: node.getText() });
+				return true;
+			case nodes.NodeType.GridLine:
+				result.push({ kind: 'brackets', text: node.getText() });
+				return true;
+			case nodes.NodeType.Operator:
+				if (node.getText() !== '/' || isPreprocessor) {
+					return false; // arithmetic operations
+				}
+				result.push({ kind: 'delim', text: '/' });
+				return true;
+		}
+		return false;
+	};
+
+	const visit = (node: nodes.Node): boolean => {
+		if (node instanceof nodes.BinaryExpression) {
+			return node.getChildren().every(visit);
+		}
+		if (node instanceof nodes.Term) {
+			const term = node.getExpression();
+			return !node.getOperator() && !!term && visit(term);
+		}
+		return addValue(node);
+	};
+
+	for (const child of expression.getChildren()) {
+		if (!visit(child)) {
+			return undefined;
+		}
+	}
+	if (result.some(value => value.kind === 'function' && substitutionFunctions.indexOf(value.name) !== -1)) {
+		return undefined;
+	}
+	return result;
+}
+
+function isVendorSpecific(text: string): boolean {
+	return text.charAt(0) === '-' && text.charAt(1) !== '-';
+}
+
+class SyntaxParser {
+
+	private tokens: string[] = [];
+	private index = 0;
+
+	constructor(syntax: string) {
+		const tokenRegExp = /\s*(\[|\]|\|\||\||&&|<[^>]*>|\{\s*\d+\s*(?:,\s*\d*\s*)?\}|[*+?#!]|'[^']*'|[a-zA-Z-][\w-]*\(|[a-zA-Z-][\w-]*|,|\/|\(|\)|\S)/y;
+		let match: RegExpExecArray | null;
+		while ((match = tokenRegExp.exec(syntax)) !== null) {
+			this.tokens.push(match[1]);
+		}
+	}
+
+	public parse(): SyntaxNode | null {
+		const node = this.parseGroup('|');
+		return node && this.index === this.tokens.length ? node : null;
+	}
+
+	private parseGroup(combinator: '|' | '||' | '&&' | ' '): SyntaxNode | null {
+		const terms: SyntaxNode[] = [];
+		do {
+			const term = combinator === '|' ? this.parseGroup('||') : combinator === '||' ? this.parseGroup('&&') : combinator === '&&' ? this.parseGroup(' ') : this.parseMultiplied();
+			if (!term) {
+				break;
+			}
+			terms.push(term);
+		} while (combinator === ' ' || this.accept(combinator));
+
+		if (terms.length === 0) {
+			return null;
+		}
+		return terms.length === 1 ? terms[0] : { kind: 'group', combinator, terms };
+	}
+
+	private parseMultiplied(): SyntaxNode | null {
+		let term = this.parsePrimary();
+		if (!term) {
+			return null;
+		}
+		while (this.index < this.tokens.length) {
+			const token = this.tokens[this.index];
+			if (token === '?') {
+				term = { kind: 'multiplier', term, min: 0, max: 1, comma: false, required: false };
+			} else if (token === '*') {
+				term = { kind: 'multiplier', term, min: 0, max: Infinity, comma: false, required: false };
+			} else if (token === '+') {
+				term = { kind: 'multiplier', term, min: 1, max: Infinity, comma: false, required: false };
+			} else if (token === '#') {
+				term = { kind: 'multiplier', term, min: 1, max: Infinity, comma: true, required: false };
+			} else if (token === '!') {
+				term = { kind: 'multiplier', term, min: 1, max: 1, comma: false, required: true };
+			} else if (token.charAt(0) === '{') {
+				const [min, max] = token.substring(1, token.length - 1).split(',').map(s => s.trim());
+				const bounds = { min: parseInt(min), max: max === undefined ? parseInt(min) : max === '' ? Infinity : parseInt(max) };
+				if (term.kind === 'multiplier' && term.comma && this.tokens[this.index - 1] === '#') {
+					term = { ...term, ...bounds };
+				} else {
+					term = { kind: 'multiplier', term, ...bounds, comma: false, required: false };
+				}
+			} else {
+				break;
+			}
+			this.index++;
+		}
+		return term;
+	}
+
+	private parsePrimary(): SyntaxNode | null {
+		const token = this.tokens[this.index];
+		if (token === undefined) {
+			return null;
+		}
+		if (token === '[') {
+			this.index++;
+			const group = this.parseGroup('|');
+			return group && this.accept(']') ? group : null;
+		}
+		if (token.charAt(0) === '<') {
+			this.index++;
+			return this.parseType(token.substring(1, token.length - 1).trim());
+		}
+		if (token.endsWith('(')) {
+			// the arguments of functions are not validated
+			this.index++;
+			let depth = 1;
+			while (depth > 0 && this.index < this.tokens.length) {
+				const t = this.tokens[this.index++];
+				if (t.endsWith('(')) {
+					depth++;
+				} else if (t === ')') {
+					depth--;
+				}
+			}
+			return depth === 0 ? { kind: 'function', name: token.substring(0, token.length - 1).toLowerCase() } : null;
+		}
+		if (token === ',' || token === '/') {
+			this.index++;
+			return { kind: 'literal', value: token };
+		}
+		if (token.charAt(0) === '\'') {
+			this.index++;
+			return { kind: 'literal', value: token.substring(1, token.length - 1) };
+		}
+		if (/^[a-zA-Z-]/.test(token)) {
+			this.index++;
+			return { kind: 'keyword', name: token.toLowerCase() };
+		}
+		return null;
+	}
+
+	private parseType(content: string): SyntaxNode | null {
+		const property = content.match(/^'([\w-]+)'$/);
+		if (property) {
+			return { kind: 'property', name: property[1] };
+		}
+		const type = content.match(/^([\w-]+)(\(\))?(?:\s*\[\s*([^,\]]+?)\s*,\s*([^\]]+?)\s*\])?$/);
+		if (!type) {
+			return null;
+		}
+		if (type[2]) {
+			return { kind: 'function', name: type[1].toLowerCase() };
+		}
+		return { kind: 'type', name: type[1], min: parseBound(type[3]), max: parseBound(type[4]) };
+	}
+
+	private accept(token: string): boolean {
+		if (this.tokens[this.index] === token) {
+			this.index++;
+			return true;
+		}
+		return false;
+	}
+}
+
+function parseBound(bound: string | undefined): number | undefined {
+	if (bound === undefined) {
+		return undefined;
+	}
+	if (/^[-+]?∞$/.test(bound)) {
+		return bound.charAt(0) === '-' ? -Infinity : Infinity;
+	}
+	const value = parseFloat(bound);
+	return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Matches component values against a syntax. `match` returns all positions the values can be
+ * consumed up to when matching a syntax node from the given position.
+ */
+class SyntaxMatcher {
+
+	public hasUnknownTypes = false;
+
+	private cache = new Map<SyntaxNode, Map<number, number[]>>();
+	private unorderedCache = new Map<object, Map<string, number[]>>();
+
+	constructor(private readonly values: ComponentValue[], private readonly getPropertySyntax: (name: string) => string | undefined) {
+	}
+
+	public match(node: SyntaxNode, pos: number): number[] {
+		const isAny = this.values[pos]?.kind === 'any';
+		if (isAny && (node.kind === 'keyword' || node.kind === 'function' || node.kind === 'type' && primitiveTypes[node.name])) {
+			return [pos + 1];
+		}
+		let cache = this.cache.get(node);
+		if (!cache) {
+			cache = new Map();
+			this.cache.set(node, cache);
+		}
+		let result = cache.get(pos);
+		if (!result) {
+			cache.set(pos, []); // guards against recursive definitions
+			result = this.doMatch(node, pos);
+			if (isAny && (node.kind === 'type' || node.kind === 'property')) {
+				// the value matches the whole type, or the start of a type that spans several values like `<content-list>`
+				result = unique([pos + 1, ...result]);
+			}
+			cache.set(pos, result);
+		}
+		return result;
+	}
+
+	private doMatch(node: SyntaxNode, pos: number): number[] {
+		const value = this.values[pos];
+		switch (node.kind) {
+			case 'keyword': {
+				const keyword = value && value.kind === 'ident' ? value.text.toLowerCase() : undefined;
+				return keyword === node.name || node.name === 'fit-content' && keyword !== undefined && sizingKeywords.indexOf(keyword) !== -1 ? [pos + 1] : [];
+			}
+			case 'literal':
+				if (value && value.kind === 'delim' && value.text === node.value) {
+					return [pos + 1];
+				}
+				// commas next to omitted parts are omitted as well
+				if (node.value === ',' && (pos === 0 || pos === this.values.length || this.values[pos - 1].text === ',')) {
+					return [pos];
+				}
+				return [];
+			case 'function':
+				return value && value.kind === 'function' && value.name === node.name ? [pos + 1] : [];
+			case 'type':
+				return this.matchType(node, pos);
+			case 'property': {
+				const syntax = this.getPropertySyntax(node.name);
+				const root = syntax !== undefined ? parseValueSyntax(syntax) : null;
+				if (!root) {
+					this.hasUnknownTypes = true;
+					return [];
+				}
+				return this.match(root, pos);
+			}
+			case 'multiplier':
+				return this.matchMultiplier(node, pos);
+			case 'group':
+				switch (node.combinator) {
+					case '|':
+						return unique(node.terms.flatMap(term => this.match(term, pos)));
+					case ' ':
+						return node.terms.reduce((positions, term) => unique(positions.flatMap(p => this.match(term, p))), [pos]);
+					case '&&':
+						return this.matchUnordered(node, (1 << node.terms.length) - 1, pos, true);
+					case '||':
+						return this.matchUnordered(node, (1 << node.terms.length) - 1, pos, false);
+				}
+		}
+	}
+
+	private matchType(node: { name: string; min?: number; max?: number }, pos: number): number[] {
+		const value = this.values[pos];
+		const primitive = primitiveTypes[node.name];
+		if (primitive) {
+			if (!value) {
+				return [];
+			}
+			if (value.kind === 'function' && mathFunctions.indexOf(value.name) !== -1) {
+				return numericTypes.indexOf(node.name) !== -1 ? [pos + 1] : [];
+			}
+			if (!primitive(value)) {
+				return [];
+			}
+			if (value.kind === 'number' && (node.min !== undefined && value.value < node.min || node.max !== undefined && value.value > node.max)) {
+				return [];
+			}
+			return [pos + 1];
+		}
+		if (node.name === 'declaration-value' || node.name === 'any-value') {
+			const result: number[] = [];
+			for (let i = pos + 1; i <= this.values.length; i++) {
+				result.push(i);
+			}
+			return result;
+		}
+		const definition = typeDefinitions[node.name];
+		const root = definition !== undefined ? parseValueSyntax(definition) : null;
+		if (!root) {
+			this.hasUnknownTypes = true;
+			return [];
+		}
+		return this.match(root, pos);
+	}
+
+	private matchMultiplier(node: { term: SyntaxNode; min: number; max: number; comma: boolean; required: boolean }, pos: number): number[] {
+		if (node.required) {
+			return this.match(node.term, pos).filter(p => p > pos);
+		}
+		const result = node.min === 0 ? [pos] : [];
+		let current = [pos];
+		for (let count = 1; count <= node.max && current.length > 0; count++) {
+			const next: number[] = [];
+			for (const start of current) {
+				let p = start;
+				if (node.comma && count > 1) {
+					const value = this.values[p];
+					if (!value || value.kind !== 'delim' || value.text !== ',') {
+						continue;
+					}
+					p++;
+				}
+				for (const end of this.match(node.term, p)) {
+					if (end > start) {
+						next.push(end);
+					}
+				}
+			}
+			current = unique(next);
+			if (count >= node.min) {
+				result.push(...current);
+			}
+		}
+		return unique(result);
+	}
+
+	private matchUnordered(group: { terms: SyntaxNode[] }, remaining: number, pos: number, all: boolean): number[] {
+		const key = `${remaining}:${pos}`;
+		let cache = this.unorderedCache.get(group);
+		if (!cache) {
+			cache = new Map();
+			this.unorderedCache.set(group, cache);
+		}
+		const cached = cache.get(key);
+		if (cached) {
+			return cached;
+		}
+		const terms = group.terms;
+		const result: number[] = [];
+		if (remaining === 0 || !all && remaining !== (1 << terms.length) - 1) {
+			result.push(pos);
+		}
+		for (let i = 0; i < terms.length; i++) {
+			if (remaining & (1 << i)) {
+				for (const end of this.match(terms[i], pos)) {
+					if (end > pos || all) {
+						result.push(...this.matchUnordered(group, remaining & ~(1 << i), end, all));
+					}
+				}
+			}
+		}
+		cache.set(key, unique(result));
+		return cache.get(key)!;
+	}
+}
+
+function unique(positions: number[]): number[] {
+	return positions.length > 1 ? Array.from(new Set(positions)) : positions;
+}
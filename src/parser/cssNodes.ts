@@ -104,6 +104,13 @@ export enum NodeType {
 	ModuleConfig,
 	SelectorList,
 	StartingStyleAtRule,
+	CounterStyle,
+	FontFeatureValues,
+	FontFeatureValueBlock,
+	FontPaletteValues,
+	PositionTry,
+	FunctionResult,
+	ViewTransition,
 }
 
 export enum ReferenceType {
@@ -116,7 +123,11 @@ export enum ReferenceType {
 	Module,
 	Forward,
 	ForwardVisibility,
-	Property
+	Property,
+	Anchor,
+	PositionTry,
+	ViewTransition,
+	Container
 }
 
 
@@ -402,6 +413,29 @@ export class Node {
 		return result;
 	}
 
+	/**
+	 * Moves the node, its descendants and their issues by `delta` characters.
+	 */
+	public shift(delta: number): void {
+		this.accept(node => {
+			if (node.offset !== -1) {
+				node.offset += delta;
+			}
+			if (node instanceof AbstractDeclaration) {
+				if (node.colonPosition !== undefined) {
+					node.colonPosition += delta;
+				}
+				if (node.semicolonPosition !== undefined) {
+					node.semicolonPosition += delta;
+				}
+			}
+			if (node.issues) {
+				node.issues = node.issues.map(issue => new Marker(issue.getNode(), issue.getRule(), issue.getLevel(), issue.getMessage(), issue.getOffset() + delta, issue.getLength()));
+			}
+			return true;
+		});
+	}
+
 	public setData(key: string, value: any): void {
 		if (!this.options) {
 			this.options = {};
@@ -482,6 +516,11 @@ export class Identifier extends Node {
 
 export class Stylesheet extends Node {
 
+	/**
+	 * The text the stylesheet was parsed from. Used to map the changes of an incremental parse.
+	 */
+	public sourceText: string | undefined;
+
 	constructor(offset: number, length: number) {
 		super(offset, length);
 	}
@@ -575,6 +614,7 @@ export class SimpleSelector extends Node {
 export class AtApplyRule extends Node {
 
 	public identifier?: Identifier;
+	private arguments?: Nodelist;
 
 	constructor(offset: number, length: number) {
 		super(offset, length);
@@ -595,6 +635,13 @@ export class AtApplyRule extends Node {
 	public getName(): string {
 		return this.identifier ? this.identifier.getText() : '';
 	}
+
+	public getArguments(): Nodelist {
+		if (!this.arguments) {
+			this.arguments = new Nodelist(this);
+		}
+		return this.arguments;
+	}
 }
 
 export abstract class AbstractDeclaration extends Node {
@@ -679,6 +726,20 @@ export class Declaration extends AbstractDeclaration {
 	}
 }
 
+/**
+ * The `result` descriptor of a custom function
+ */
+export class FunctionResult extends Declaration {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.FunctionResult;
+	}
+}
+
 export class CustomPropertyDeclaration extends Declaration {
 	public propertySet?: CustomPropertySet;
 
@@ -776,6 +837,7 @@ export class Function extends Invocation {
 export class FunctionParameter extends Node {
 
 	public identifier?: Node;
+	public syntax?: Node;
 	public defaultValue?: Node;
 
 	constructor(offset: number, length: number) {
@@ -798,6 +860,17 @@ export class FunctionParameter extends Node {
 		return this.identifier ? this.identifier.getText() : '';
 	}
 
+	/**
+	 * The type of a parameter of a custom function or mixin, e.g. `<length>`
+	 */
+	public setSyntax(node: Node | null): node is Node {
+		return this.setNode('syntax', node);
+	}
+
+	public getSyntax(): Node | undefined {
+		return this.syntax;
+	}
+
 	public setDefaultValue(node: Node | null): node is Node {
 		return this.setNode('defaultValue', node, 0);
 	}
@@ -920,6 +993,7 @@ export class ElseStatement extends BodyDeclaration {
 export class FunctionDeclaration extends BodyDeclaration {
 	public identifier?: Identifier;
 	public parameters?: Nodelist;
+	public returnType?: Node;
 
 	constructor(offset: number, length: number) {
 		super(offset, length);
@@ -947,6 +1021,17 @@ export class FunctionDeclaration extends BodyDeclaration {
 		}
 		return this.parameters;
 	}
+
+	/**
+	 * The type after `returns` of a custom function
+	 */
+	public setReturnType(node: Node | null): node is Node {
+		return this.setNode('returnType', node);
+	}
+
+	public getReturnType(): Node | undefined {
+		return this.returnType;
+	}
 }
 
 export class ViewPort extends BodyDeclaration {
@@ -1279,6 +1364,118 @@ export class PropertyAtRule extends BodyDeclaration {
 
 }
 
+/**
+ * An at-rule whose body contains descriptors instead of properties. The descriptors are listed in the data of the at-rule.
+ */
+export abstract class DescriptorAtRule extends BodyDeclaration {
+
+	public keyword?: Node;
+	public identifier?: Node;
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public setKeyword(keyword: Node | null): keyword is Node {
+		return this.setNode('keyword', keyword);
+	}
+
+	public getKeyword(): Node | undefined {
+		return this.keyword;
+	}
+
+	/**
+	 * The at-keyword in lower case, e.g. `@counter-style`
+	 */
+	public getAtRuleName(): string {
+		return this.keyword ? this.keyword.getText().toLowerCase() : '';
+	}
+
+	public setIdentifier(node: Node | null): node is Node {
+		return this.setNode('identifier', node);
+	}
+
+	public getIdentifier(): Node | undefined {
+		return this.identifier;
+	}
+
+	public getName(): string {
+		return this.identifier ? this.identifier.getText() : '';
+	}
+}
+
+export class CounterStyle extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.CounterStyle;
+	}
+}
+
+/**
+ * `@font-feature-values`, the identifier is the list of font families
+ */
+export class FontFeatureValues extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.FontFeatureValues;
+	}
+}
+
+/**
+ * The feature value blocks of `@font-feature-values`, such as `@swash` or `@styleset`. The names of the descriptors are defined by the author.
+ */
+export class FontFeatureValueBlock extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.FontFeatureValueBlock;
+	}
+}
+
+export class FontPaletteValues extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.FontPaletteValues;
+	}
+}
+
+export class PositionTry extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.PositionTry;
+	}
+}
+
+export class ViewTransition extends DescriptorAtRule {
+
+	constructor(offset: number, length: number) {
+		super(offset, length);
+	}
+
+	public get type(): NodeType {
+		return NodeType.ViewTransition;
+	}
+}
+
 export class StartingStyleAtRule extends BodyDeclaration {
 
 	constructor(offset: number, length: number) {
@@ -7,7 +7,7 @@ import { TokenType, Scanner, IToken } from './cssScanner.js';
 import * as nodes from './cssNodes.js';
 import { ParseError, CSSIssueType } from './cssErrors.js';
 import * as languageFacts from '../languageFacts/facts.js';
-import { TextDocument } from '../cssLanguageTypes.js';
+import { TextDocument, TextDocumentContentChangeEvent } from '../cssLanguageTypes.js';
 import { isDefined } from '../utils/objects.js';
 
 export interface IMark {
@@ -28,6 +28,7 @@ export class Parser {
 	public prevToken?: IToken;
 
 	private lastErrorToken?: IToken;
+	private isInCustomFunction = false;
 
 	constructor(scnr: Scanner = new Scanner()) {
 		this.scanner = scnr;
@@ -229,16 +230,131 @@ export class Parser {
 	}
 
 	public parseStylesheet(textDocument: TextDocument): nodes.Stylesheet {
-		const versionId = textDocument.version;
 		const text = textDocument.getText();
-		const textProvider = (offset: number, length: number) => {
+		const stylesheet = this.internalParse(text, this._parseStylesheet, this.createTextProvider(textDocument, text));
+		stylesheet.sourceText = text;
+		return stylesheet;
+	}
+
+	/**
+	 * Parses the document after `changes` have been applied to the text `previous` was parsed from.
+	 * The top-level statements before and after the changed region are taken over from `previous`,
+	 * only the region in between is parsed again. `previous` must not be used afterwards.
+	 */
+	public parseStylesheetIncremental(textDocument: TextDocument, previous: nodes.Stylesheet, changes: TextDocumentContentChangeEvent[]): nodes.Stylesheet {
+		const text = textDocument.getText();
+		const damage = previous.sourceText !== undefined ? getDamagedRange(previous.sourceText, changes) : undefined;
+		if (!damage || damage.text !== text) {
+			return this.parseStylesheet(textDocument);
+		}
+
+		const children = previous.getChildren();
+		const stylesheetIssues: nodes.IMarker[] = [];
+		previous.collectIssues(stylesheetIssues);
+		const issueOffsets = nodes.ParseErrorCollector.entries(previous).map(issue => issue.getOffset());
+
+		this.scanner.setSource(text);
+
+		// Keep the statements that end before the damaged region, except for the last one, whose parse might have looked ahead.
+		let first = 0;
+		while (first < children.length && children[first].end < damage.start) {
+			first++;
+		}
+		let resumeToken: IToken | undefined;
+		while (--first > 0 && !(resumeToken = this.getResumeToken(children[first - 1].end, children[first].offset, issueOffsets))) {
+			// an error or an unexpected token between the statements, try the previous statement
+		}
+
+		let node: nodes.Stylesheet;
+		let resumeOffset = 0;
+		if (first > 0 && resumeToken) {
+			resumeOffset = children[first - 1].end;
+			node = new nodes.Stylesheet(previous.offset, previous.length);
+			for (let i = 0; i < first; i++) {
+				children[i].parent = null;
+				node.addChild(children[i]);
+			}
+			this.prevToken = resumeToken;
+			this.token = this.scanner.scan();
+		} else {
+			first = 0;
+			this.scanner.setSource(text); // the probing for a resume token has moved the scanner
+			this.token = this.scanner.scan();
+			node = this.create(nodes.Stylesheet);
+			while (node.addChild(this._parseStylesheetStart())) {
+				// Parse statements only valid at the beginning of stylesheets.
+			}
+		}
+		for (const issue of stylesheetIssues) {
+			if (issue.getOffset() < resumeOffset) {
+				node.addIssue(new nodes.Marker(node, issue.getRule(), issue.getLevel(), issue.getMessage(), issue.getOffset(), issue.getLength()));
+			}
+		}
+
+		// Stop parsing at the first statement after the damaged region that starts at the same place as before.
+		const resyncPoints = new Map<number, number>();
+		for (let i = first; i < children.length; i++) {
+			const offset = children[i].offset;
+			if (offset > damage.end && issueOffsets.indexOf(offset) === -1) {
+				resyncPoints.set(offset + damage.delta, i);
+			}
+		}
+		const resyncOffset = this._parseStylesheetStatements(node, offset => resyncPoints.has(offset));
+		if (resyncOffset === -1) {
+			this.finish(node);
+		} else {
+			for (let i = resyncPoints.get(resyncOffset)!; i < children.length; i++) {
+				const child = children[i];
+				child.parent = null;
+				child.shift(damage.delta);
+				node.addChild(child);
+			}
+			for (const issue of stylesheetIssues) {
+				if (issue.getOffset() + damage.delta > resyncOffset) {
+					node.addIssue(new nodes.Marker(node, issue.getRule(), issue.getLevel(), issue.getMessage(), issue.getOffset() + damage.delta, issue.getLength()));
+				}
+			}
+			node.length = previous.end + damage.delta - node.offset;
+		}
+
+		node.textProvider = this.createTextProvider(textDocument, text);
+		node.sourceText = text;
+		return node;
+	}
+
+	/**
+	 * Returns the token to continue parsing after a statement ending at `end`, provided that only empty statements
+	 * follow up to the statement at `next` and no error was reported in between.
+	 */
+	private getResumeToken(end: number, next: number, issueOffsets: number[]): IToken | undefined {
+		if (issueOffsets.some(offset => offset >= end && offset <= next)) {
+			return undefined;
+		}
+		this.scanner.goBackTo(end);
+		let prevToken: IToken = { type: TokenType.Delim, offset: end, len: 0, text: '' };
+		let token = this.scanner.scan();
+		while (token.offset < next) {
+			if (token.type !== TokenType.SemiColon && token.type !== TokenType.CDO && token.type !== TokenType.CDC) {
+				return undefined;
+			}
+			prevToken = token;
+			token = this.scanner.scan();
+		}
+		if (token.offset !== next || token.type === TokenType.Charset) {
+			return undefined;
+		}
+		this.scanner.goBackTo(next);
+		return prevToken;
+	}
+
+	private createTextProvider(textDocument: TextDocument, text: string): nodes.ITextProvider {
+		const versionId = textDocument.version;
+		return (offset: number, length: number) => {
 			if (textDocument.version !== versionId) {
 				throw new Error('Underlying model has changed, AST is no longer valid');
 			}
 			return text.substr(offset, length);
 		};
-
-		return this.internalParse(text, this._parseStylesheet, textProvider);
 	}
 
 	public internalParse<T extends nodes.Node, U extends T | null>(input: string, parseFunc: () => U, textProvider?: nodes.ITextProvider): U;
@@ -263,11 +379,24 @@ export class Parser {
 			// Parse statements only valid at the beginning of stylesheets.
 		}
 
+		this._parseStylesheetStatements(node);
+
+		return this.finish(node);
+	}
+
+	/**
+	 * Parses the top-level statements into `node`. If `stopAt` accepts the offset of a statement,
+	 * parsing stops before that statement and its offset is returned, otherwise -1.
+	 */
+	public _parseStylesheetStatements(node: nodes.Stylesheet, stopAt?: (offset: number) => boolean): number {
 		let inRecovery = false;
 		do {
 			let hasMatch = false;
 			do {
 				hasMatch = false;
+				if (stopAt && stopAt(this.token.offset)) {
+					return this.token.offset;
+				}
 				const statement = this._parseStylesheetStatement();
 				if (statement) {
 					node.addChild(statement);
@@ -299,7 +428,7 @@ export class Parser {
 			this.consumeToken();
 		} while (!this.peek(TokenType.EOF));
 
-		return this.finish(node);
+		return -1;
 	}
 
 	public _parseStylesheetStart(): nodes.Node | null {
@@ -323,6 +452,13 @@ export class Parser {
 			|| this._parseSupports(isNested)
 			|| this._parseLayer(isNested)
 			|| this._parsePropertyAtRule()
+			|| this._parseCounterStyle()
+			|| this._parseFontFeatureValues()
+			|| this._parseFontPaletteValues()
+			|| this._parsePositionTry()
+			|| this._parseViewTransition()
+			|| this._parseCustomFunctionDeclaration()
+			|| this._parseCustomMixinDeclaration()
 			|| this._parseViewPort()
 			|| this._parseNamespace()
 			|| this._parseDocument()
@@ -370,6 +506,7 @@ export class Parser {
 			|| this._parseLayer(true)
 			|| this._parseContainer(true)
 			|| this._parseStartingStyleAtRule(true)
+			|| this._parseApply()
 			|| this._parseUnknownAtRule();
 	}
 
@@ -416,6 +553,7 @@ export class Parser {
 			case nodes.NodeType.MixinReference:
 				return !(<nodes.MixinReference>node).getContent();
 			case nodes.NodeType.Declaration:
+			case nodes.NodeType.FunctionResult:
 				return !(<nodes.Declaration>node).getNestedProperties();
 		}
 		return false;
@@ -479,7 +617,8 @@ export class Parser {
 			return customProperty;
 		}
 
-		const node = this.create(nodes.Declaration);
+		// the result descriptor of a custom function
+		const node = this.create(this.isInCustomFunction && this.peekIdent('result') ? nodes.FunctionResult : nodes.Declaration);
 		if (!node.setProperty(this._parseProperty())) {
 			return null;
 		}
@@ -542,7 +681,7 @@ export class Parser {
 		const expression = this._parseExpr();
 		if (expression && !expression.isErroneous(true)) {
 			this._parsePrio();
-			if (this.peekOne(...(stopTokens || []), TokenType.SemiColon, TokenType.EOF)) {
+			if (this.peekOne(...(stopTokens || []), TokenType.SemiColon, TokenType.CurlyR, TokenType.EOF)) {
 				node.setValue(expression);
 				if (this.peek(TokenType.SemiColon)) {
 					node.semicolonPosition = this.token.offset; // not part of the declaration, but useful information for code assist
@@ -909,6 +1048,288 @@ export class Parser {
 		return this._parseBody(node, this._parseDeclaration.bind(this));
 	}
 
+	public _parseCounterStyle(): nodes.Node | null {
+		// @counter-style <counter-style-name> {
+		// 	<declaration-list>
+		// }
+		if (!this.peekKeyword('@counter-style')) {
+			return null;
+		}
+		const node = this.create(nodes.CounterStyle);
+		node.setKeyword(this._parseAtKeyword());
+
+		if (!node.setIdentifier(this._parseIdent())) {
+			return this.finish(node, ParseError.IdentifierExpected);
+		}
+
+		return this._parseBody(node, this._parseDeclaration.bind(this));
+	}
+
+	public _parseFontFeatureValues(): nodes.Node | null {
+		// @font-feature-values <family-name># {
+		// 	<declaration-rule-list>
+		// }
+		if (!this.peekKeyword('@font-feature-values')) {
+			return null;
+		}
+		const node = this.create(nodes.FontFeatureValues);
+		node.setKeyword(this._parseAtKeyword());
+
+		const families = this.create(nodes.Node);
+		do {
+			if (!this.accept(TokenType.String)) {
+				if (!this.accept(TokenType.Ident)) {
+					return this.finish(node, ParseError.IdentifierExpected);
+				}
+				while (this.accept(TokenType.Ident)) {
+					// family names of several identifiers
+				}
+			}
+		} while (this.accept(TokenType.Comma));
+		node.setIdentifier(this.finish(families));
+
+		return this._parseBody(node, this._parseFontFeatureValuesDeclaration.bind(this));
+	}
+
+	private fontFeatureValueBlockRegex = /^@(stylistic|historical-forms|styleset|character-variant|swash|ornaments|annotation)$/i;
+
+	public _parseFontFeatureValuesDeclaration(): nodes.Node | null {
+		if (this.peekRegExp(TokenType.AtKeyword, this.fontFeatureValueBlockRegex)) {
+			const node = this.create(nodes.FontFeatureValueBlock);
+			node.setKeyword(this._parseAtKeyword());
+			return this._parseBody(node, this._parseDeclaration.bind(this));
+		}
+		if (this.peek(TokenType.AtKeyword)) {
+			return this._parseUnknownAtRule();
+		}
+		return this._parseDeclaration();
+	}
+
+	public _parseFontPaletteValues(): nodes.Node | null {
+		// @font-palette-values <dashed-ident> {
+		// 	<declaration-list>
+		// }
+		if (!this.peekKeyword('@font-palette-values')) {
+			return null;
+		}
+		const node = this.create(nodes.FontPaletteValues);
+		node.setKeyword(this._parseAtKeyword());
+
+		if (!this.peekRegExp(TokenType.Ident, /^--/) || !node.setIdentifier(this._parseIdent())) {
+			return this.finish(node, ParseError.IdentifierExpected);
+		}
+
+		return this._parseBody(node, this._parseDeclaration.bind(this));
+	}
+
+	public _parsePositionTry(): nodes.Node | null {
+		// @position-try <dashed-ident> {
+		// 	<declaration-list>
+		// }
+		if (!this.peekKeyword('@position-try')) {
+			return null;
+		}
+		const node = this.create(nodes.PositionTry);
+		node.setKeyword(this._parseAtKeyword());
+
+		if (!this.peekRegExp(TokenType.Ident, /^--/) || !node.setIdentifier(this._parseIdent([nodes.ReferenceType.PositionTry]))) {
+			return this.finish(node, ParseError.IdentifierExpected);
+		}
+
+		return this._parseBody(node, this._parseDeclaration.bind(this));
+	}
+
+	public _parseViewTransition(): nodes.Node | null {
+		// @view-transition {
+		// 	<declaration-list>
+		// }
+		if (!this.peekKeyword('@view-transition')) {
+			return null;
+		}
+		const node = this.create(nodes.ViewTransition);
+		node.setKeyword(this._parseAtKeyword());
+
+		return this._parseBody(node, this._parseDeclaration.bind(this));
+	}
+
+	public _parseCustomFunctionDeclaration(): nodes.Node | null {
+		// @function <dashed-function> <function-parameter>#? ) [ returns <css-type> ]? {
+		// 	<declaration-rule-list>
+		// }
+		if (!this.peekKeyword('@function')) {
+			return null;
+		}
+		const pos = this.mark();
+		const node = this.create(nodes.FunctionDeclaration);
+		this.consumeToken(); // @function
+
+		if (!this.peekRegExp(TokenType.Ident, /^--/)) {
+			this.restoreAtMark(pos); // not a custom function, e.g. a Sass function
+			return null;
+		}
+		node.setIdentifier(this._parseIdent([nodes.ReferenceType.Function]));
+
+		if (this.hasWhitespace() || !this.accept(TokenType.ParenthesisL)) {
+			return this.finish(node, ParseError.LeftParenthesisExpected, [TokenType.CurlyR]);
+		}
+		if (!this._parseCustomParameters(node.getParameters())) {
+			return this.finish(node, ParseError.RightParenthesisExpected, [TokenType.CurlyR]);
+		}
+
+		if (this.acceptIdent('returns')) {
+			if (!node.setReturnType(this._parseCustomType())) {
+				return this.finish(node, ParseError.IdentifierExpected, [TokenType.CurlyR]);
+			}
+		}
+
+		const isInCustomFunction = this.isInCustomFunction;
+		this.isInCustomFunction = true;
+		try {
+			return this._parseBody(node, this._parseCustomFunctionBodyDeclaration.bind(this));
+		} finally {
+			this.isInCustomFunction = isInCustomFunction;
+		}
+	}
+
+	public _parseCustomFunctionBodyDeclaration(): nodes.Node | null {
+		// the body contains the result descriptor, local variables and conditional rules
+		if (this.peek(TokenType.AtKeyword)) {
+			return this._parseMedia(true)
+				|| this._parseSupports(true)
+				|| this._parseContainer(true)
+				|| this._parseUnknownAtRule();
+		}
+		return this._parseDeclaration();
+	}
+
+	public _parseCustomMixinDeclaration(): nodes.Node | null {
+		// @mixin <dashed-function> <function-parameter>#? ) {
+		// 	<declaration-rule-list>
+		// }
+		if (!this.peekKeyword('@mixin')) {
+			return null;
+		}
+		const pos = this.mark();
+		const node = this.create(nodes.MixinDeclaration);
+		this.consumeToken(); // @mixin
+
+		if (!this.peekRegExp(TokenType.Ident, /^--/)) {
+			this.restoreAtMark(pos); // not a custom mixin, e.g. a Sass mixin
+			return null;
+		}
+		node.setIdentifier(this._parseIdent([nodes.ReferenceType.Mixin]));
+
+		if (!this.hasWhitespace() && this.accept(TokenType.ParenthesisL)) {
+			if (!this._parseCustomParameters(node.getParameters())) {
+				return this.finish(node, ParseError.RightParenthesisExpected, [TokenType.CurlyR]);
+			}
+		}
+
+		return this._parseBody(node, this._parseRuleSetDeclaration.bind(this));
+	}
+
+	/**
+	 * Parses the parameters of a custom function or mixin, after the opening parenthesis. Returns false if the closing parenthesis is missing.
+	 */
+	private _parseCustomParameters(parameters: nodes.Nodelist): boolean {
+		if (parameters.addChild(this._parseCustomParameter())) {
+			while (this.accept(TokenType.Comma)) {
+				if (!parameters.addChild(this._parseCustomParameter())) {
+					return false;
+				}
+			}
+		}
+		return this.accept(TokenType.ParenthesisR);
+	}
+
+	public _parseCustomParameter(): nodes.Node | null {
+		// <custom-property-name> <css-type>? [ : <default-value> ]?
+		if (!this.peekRegExp(TokenType.Ident, /^--/)) {
+			return null;
+		}
+		const node = this.create(nodes.FunctionParameter);
+		node.setIdentifier(this._parseIdent());
+		node.setSyntax(this._parseCustomType());
+
+		if (this.accept(TokenType.Colon)) {
+			if (!node.setDefaultValue(this._parseExpr(true))) {
+				return this.finish(node, ParseError.VariableValueExpected, [], [TokenType.Comma, TokenType.ParenthesisR]);
+			}
+		}
+		return this.finish(node);
+	}
+
+	public _parseCustomType(): nodes.Node | null {
+		// <syntax-component> | type( <syntax> )
+		const node = this.create(nodes.Node);
+		if (this.peekIdent('type')) {
+			this.consumeToken();
+			if (this.hasWhitespace() || !this.accept(TokenType.ParenthesisL)) {
+				return this.finish(node, ParseError.LeftParenthesisExpected);
+			}
+			while (!this.peek(TokenType.ParenthesisR) && !this.peek(TokenType.CurlyL) && !this.peek(TokenType.EOF)) {
+				this.consumeToken(); // the syntax is not validated
+			}
+			if (!this.accept(TokenType.ParenthesisR)) {
+				return this.finish(node, ParseError.RightParenthesisExpected);
+			}
+			return this.finish(node);
+		}
+		if (this.acceptDelim('<')) {
+			if (this.hasWhitespace() || !this.accept(TokenType.Ident) || this.hasWhitespace() || !this.acceptDelim('>')) {
+				return this.finish(node, ParseError.IdentifierExpected, [], [TokenType.Comma, TokenType.ParenthesisR, TokenType.Colon]);
+			}
+			if (!this.hasWhitespace()) {
+				this.acceptDelim('+') || this.acceptDelim('#'); // multiplier
+			}
+			return this.finish(node);
+		}
+		if (this.peekDelim('*')) {
+			this.consumeToken(); // universal syntax
+			return this.finish(node);
+		}
+		return null;
+	}
+
+	public _parseApply(): nodes.Node | null {
+		// @apply <dashed-ident> | <dashed-function> <declaration-value>? ) ;
+		if (!this.peekKeyword('@apply')) {
+			return null;
+		}
+		const pos = this.mark();
+		const node = this.create(nodes.AtApplyRule);
+		this.consumeToken(); // @apply
+
+		if (!this.peekRegExp(TokenType.Ident, /^--/)) {
+			this.restoreAtMark(pos); // not a custom mixin, e.g. a list of utility classes
+			return null;
+		}
+		node.setIdentifier(this._parseIdent([nodes.ReferenceType.Mixin]));
+
+		if (!this.hasWhitespace() && this.accept(TokenType.ParenthesisL)) {
+			if (node.getArguments().addChild(this._parseFunctionArgument())) {
+				while (this.accept(TokenType.Comma)) {
+					if (this.peek(TokenType.ParenthesisR)) {
+						break;
+					}
+					if (!node.getArguments().addChild(this._parseFunctionArgument())) {
+						return this.finish(node, ParseError.ExpressionExpected);
+					}
+				}
+			}
+			if (!this.accept(TokenType.ParenthesisR)) {
+				return this.finish(node, ParseError.RightParenthesisExpected);
+			}
+		}
+		return this.finish(node);
+	}
+
+	private _parseAtKeyword(): nodes.Node {
+		const node = this.create(nodes.Node);
+		this.consumeToken(); // at-keyword
+		return this.finish(node);
+	}
+
 	_parseStartingStyleAtRule(isNested = false) {
 		if (!this.peekKeyword("@starting-style")) {
 			return null;
@@ -1472,14 +1893,14 @@ export class Parser {
 		const node = this.create(nodes.Container);
 		this.consumeToken(); // @container
 
-		node.addChild(this._parseIdent()); // optional container name
+		node.addChild(this._parseContainerName()); // optional container name
 		if (node.addChild(this._parseContainerQuery())) {
 			while (this.accept(TokenType.Comma)) {
 				if (this.peek(TokenType.CurlyL)) {
 					break;
 				}
 
-				node.addChild(this._parseIdent()); // optional container name
+				node.addChild(this._parseContainerName()); // optional container name
 				node.addChild(this._parseContainerQuery());
 			}
 		}
@@ -1487,6 +1908,20 @@ export class Parser {
 		return this._parseBody(node, this._parseContainerDeclaration.bind(this, isNested));
 	}
 
+	public _parseContainerName(): nodes.Node | null {
+		// <container-name> = <custom-ident>, excluding the keywords and the functions of the query
+		if (!this.peek(TokenType.Ident) || this.peekRegExp(TokenType.Ident, /^(not|and|or|none)$/i)) {
+			return null;
+		}
+		const pos = this.mark();
+		const node = this._parseIdent([nodes.ReferenceType.Container]);
+		if (!this.hasWhitespace() && this.peek(TokenType.ParenthesisL)) {
+			this.restoreAtMark(pos); // style() or scroll-state()
+			return null;
+		}
+		return node;
+	}
+
 	public _parseContainerQuery(): nodes.Node | null {
 		// <container-query>     = not <query-in-parens>
 		//                         | <query-in-parens> [ [ and <query-in-parens> ]* | [ or <query-in-parens> ]* ]
@@ -1531,6 +1966,19 @@ export class Parser {
 			if (!this.accept(TokenType.ParenthesisR)) {
 				return this.finish(node, ParseError.RightParenthesisExpected, [], [TokenType.CurlyL]);
 			}
+		} else if (this.acceptIdent('scroll-state')) {
+			// scroll-state( <scroll-state-query> )
+			if (this.hasWhitespace() || !this.accept(TokenType.ParenthesisL)) {
+				return this.finish(node, ParseError.LeftParenthesisExpected, [], [TokenType.CurlyL]);
+			}
+			if (this.peekIdent('not') || this.peek(TokenType.ParenthesisL)) {
+				node.addChild(this._parseContainerQuery());
+			} else {
+				node.addChild(this._parseMediaFeature());
+			}
+			if (!this.accept(TokenType.ParenthesisR)) {
+				return this.finish(node, ParseError.RightParenthesisExpected, [], [TokenType.CurlyL]);
+			}
 		} else {
 			if (optional) {
 				return null;
@@ -2276,3 +2724,35 @@ export class Parser {
 		}
 	}
 }
+
+/**
+ * Applies the changes to `text` and returns the result together with the changed region: `start` and `end`
+ * are offsets in the original text, `delta` is the difference in length.
+ */
+function getDamagedRange(text: string, changes: TextDocumentContentChangeEvent[]): { text: string; start: number; end: number; delta: number } | undefined {
+	let start = -1, end = -1, delta = 0; // the damaged region in the coordinates of the current text
+	for (const change of changes) {
+		if (!('range' in change)) {
+			return undefined; // full content change
+		}
+		const document = TextDocument.create('', '', 0, text);
+		const changeStart = document.offsetAt(change.range.start);
+		const changeEnd = document.offsetAt(change.range.end);
+		const shift = change.text.length - (changeEnd - changeStart);
+		text = text.substring(0, changeStart) + change.text + text.substring(changeEnd);
+
+		if (start === -1) {
+			start = changeStart;
+			end = changeStart + change.text.length;
+		} else {
+			const movedEnd = end > changeEnd ? end + shift : end < changeStart ? end : changeStart + change.text.length;
+			start = Math.min(start, changeStart);
+			end = Math.max(movedEnd, changeStart + change.text.length);
+		}
+		delta += shift;
+	}
+	if (start === -1) {
+		return undefined;
+	}
+	return { text, start, end: end - delta, delta };
+}
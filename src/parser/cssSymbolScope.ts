@@ -7,6 +7,104 @@
 import * as nodes from './cssNodes.js';
 import { findFirst } from '../utils/arrays.js';
 
+const anchorNameProperties = ['anchor-name', 'position-anchor', 'anchor-scope'];
+const positionTryProperties = ['position-try-fallbacks', 'position-try'];
+
+/**
+ * Returns the reference type of a dashed identifier that names an anchor, in `anchor-name`, `position-anchor`, `anchor-scope`, `anchor()`
+ * and `anchor-size()`, or a `@position-try` rule, in `position-try-fallbacks` and `position-try`.
+ */
+export function getAnchorReferenceType(node: nodes.Node): nodes.ReferenceType | null {
+	if (!(node instanceof nodes.Identifier) || !node.isCustomProperty || node.parent?.type !== nodes.NodeType.Term) {
+		return null;
+	}
+	const declaration = nodes.getParentDeclaration(node);
+	if (!declaration) {
+		return null;
+	}
+	const func = <nodes.Function | null>node.findAParent(nodes.NodeType.Function);
+	if (func && declaration.encloses(func)) {
+		const functionName = func.getName().toLowerCase();
+		return functionName === 'anchor' || functionName === 'anchor-size' ? nodes.ReferenceType.Anchor : null;
+	}
+	const propertyName = declaration.getFullPropertyName().toLowerCase();
+	if (anchorNameProperties.indexOf(propertyName) !== -1) {
+		return nodes.ReferenceType.Anchor;
+	}
+	if (positionTryProperties.indexOf(propertyName) !== -1) {
+		return nodes.ReferenceType.PositionTry;
+	}
+	return null;
+}
+
+/**
+ * Returns true if the node is an anchor name declared by `anchor-name`
+ */
+export function isAnchorNameDeclaration(node: nodes.Node): boolean {
+	return getAnchorReferenceType(node) === nodes.ReferenceType.Anchor && nodes.getParentDeclaration(node)!.getFullPropertyName().toLowerCase() === 'anchor-name'
+		&& !node.findAParent(nodes.NodeType.Function);
+}
+
+const viewTransitionPseudoElements = ['::view-transition-group', '::view-transition-image-pair', '::view-transition-old', '::view-transition-new'];
+const viewTransitionNameKeywords = ['none', 'auto', 'match-element'];
+
+/**
+ * Returns true if the node is a view transition name declared by `view-transition-name`
+ */
+export function isViewTransitionNameDeclaration(node: nodes.Node): boolean {
+	if (!(node instanceof nodes.Identifier) || node.parent?.type !== nodes.NodeType.Term || node.findAParent(nodes.NodeType.Function)) {
+		return false;
+	}
+	const declaration = nodes.getParentDeclaration(node);
+	return !!declaration && declaration.getFullPropertyName().toLowerCase() === 'view-transition-name'
+		&& viewTransitionNameKeywords.indexOf(node.getText().toLowerCase()) === -1;
+}
+
+/**
+ * Returns the view transition pseudo-element, such as `::view-transition-group(hero)`, if the node is the name in its argument
+ */
+export function getViewTransitionPseudoElement(node: nodes.Node): nodes.Node | null {
+	if (!(node instanceof nodes.Identifier) || node.parent?.type !== nodes.NodeType.ElementNameSelector && node.parent?.type !== nodes.NodeType.Term) {
+		return null;
+	}
+	const pseudoElement = node.findAParent(nodes.NodeType.PseudoSelector);
+	return pseudoElement && isViewTransitionPseudoElement(pseudoElement) ? pseudoElement : null;
+}
+
+/**
+ * Returns true if the node is one of the view transition pseudo-elements that take a view transition name as argument
+ */
+export function isViewTransitionPseudoElement(node: nodes.Node): boolean {
+	if (node.type !== nodes.NodeType.PseudoSelector) {
+		return false;
+	}
+	const name = node.getText().split('(')[0].toLowerCase();
+	return viewTransitionPseudoElements.indexOf(name) !== -1;
+}
+
+/**
+ * Returns true if the node is a container name declared by `container-name`, or by the `container` shorthand before the `/`
+ */
+export function isContainerNameDeclaration(node: nodes.Node): boolean {
+	if (!(node instanceof nodes.Identifier) || node.parent?.type !== nodes.NodeType.Term || node.findAParent(nodes.NodeType.Function)) {
+		return false;
+	}
+	const declaration = nodes.getParentDeclaration(node);
+	const value = declaration && declaration.getValue();
+	if (!value || node.getText().toLowerCase() === 'none') {
+		return false;
+	}
+	switch (declaration!.getFullPropertyName().toLowerCase()) {
+		case 'container-name':
+			return true;
+		case 'container': {
+			const slash = value.getText().indexOf('/');
+			return slash === -1 || node.offset < value.offset + slash;
+		}
+	}
+	return false;
+}
+
 export class Scope {
 
 	public parent: Scope | null;
@@ -145,6 +243,21 @@ export class ScopeBuilder implements nodes.IVisitor {
 			case nodes.NodeType.Keyframe:
 				this.addSymbol(node, (<nodes.Keyframe>node).getName(), void 0, nodes.ReferenceType.Keyframe);
 				return true;
+			case nodes.NodeType.PositionTry:
+				this.addSymbol(node, (<nodes.PositionTry>node).getName(), void 0, nodes.ReferenceType.PositionTry);
+				return true;
+			case nodes.NodeType.Identifier:
+				if (isAnchorNameDeclaration(node)) {
+					// anchor names are visible in the whole document
+					this.scope.addSymbol(new Symbol(node.getText(), void 0, node, nodes.ReferenceType.Anchor));
+				} else if (isViewTransitionNameDeclaration(node)) {
+					// view transition names are visible in the whole document
+					this.scope.addSymbol(new Symbol(node.getText(), void 0, node, nodes.ReferenceType.ViewTransition));
+				} else if (isContainerNameDeclaration(node)) {
+					// container names are visible in the whole document
+					this.scope.addSymbol(new Symbol(node.getText(), void 0, node, nodes.ReferenceType.Container));
+				}
+				return true;
 			case nodes.NodeType.CustomPropertyDeclaration:
 				return this.visitCustomPropertyDeclarationNode(<nodes.CustomPropertyDeclaration>node);
 			case nodes.NodeType.VariableDeclaration:
@@ -294,6 +407,16 @@ export class Symbols {
 			if (referenceTypes) {
 				return referenceTypes;
 			} else {
+				const anchorReferenceType = getAnchorReferenceType(node);
+				if (anchorReferenceType !== null) {
+					return [anchorReferenceType];
+				}
+				if (isViewTransitionNameDeclaration(node) || getViewTransitionPseudoElement(node)) {
+					return [nodes.ReferenceType.ViewTransition];
+				}
+				if (isContainerNameDeclaration(node)) {
+					return [nodes.ReferenceType.Container];
+				}
 				if (node.isCustomProperty) {
 					return [nodes.ReferenceType.Variable];
 				}
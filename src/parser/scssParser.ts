@@ -25,6 +25,8 @@ export class SCSSParser extends cssParser.Parser {
 		if (this.peek(TokenType.AtKeyword)) {
 			return this._parseWarnAndDebug() // @warn, @debug and @error statements
 				|| this._parseControlStatement() // @if, @while, @for, @each
+				|| this._parseCustomFunctionDeclaration() // CSS @function --name
+				|| this._parseCustomMixinDeclaration() // CSS @mixin --name
 				|| this._parseMixinDeclaration() // @mixin
 				|| this._parseMixinContent() // @content
 				|| this._parseMixinReference() // @include
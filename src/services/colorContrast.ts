@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { Color } from '../cssLanguageTypes.js';
+import { getColorValue, getTermValue, isColorValue } from '../languageFacts/facts.js';
+
+export type ContrastPair = {
+	foreground: nodes.Declaration;
+	background: nodes.Declaration;
+	foregroundColor: Color;
+	backgroundColor: Color;
+};
+
+/**
+ * The minimum WCAG 2 contrast ratios and APCA lightness contrasts of body text
+ */
+export const contrastThresholds: { [level: string]: { ratio: number; lc: number } } = {
+	'AA': { ratio: 4.5, lc: 60 },
+	'AAA': { ratio: 7, lc: 75 }
+};
+
+/**
+ * Returns the text and background colors of a declarations block, if both are set to literal colors.
+ * The last declaration of a property wins. Translucent backgrounds and background images are not evaluated.
+ */
+export function getContrastPair(declarations: nodes.Node): ContrastPair | null {
+	let foreground: { declaration: nodes.Declaration; color: Color | null } | undefined;
+	let background: { declaration: nodes.Declaration; color: Color | null } | undefined;
+	for (const child of declarations.getChildren()) {
+		if (!(child instanceof nodes.Declaration) || child instanceof nodes.CustomPropertyDeclaration) {
+			continue;
+		}
+		const value = child.getValue();
+		switch (child.getFullPropertyName().toLowerCase()) {
+			case 'color':
+				foreground = { declaration: child, color: value ? getLiteralColor(value.getChildren(), false) : null };
+				break;
+			case 'background-color':
+				background = { declaration: child, color: value ? getLiteralColor(value.getChildren(), false) : null };
+				break;
+			case 'background':
+				background = { declaration: child, color: value ? getLiteralColor(value.getChildren(), true) : null };
+				break;
+			case 'background-image':
+				background = undefined;
+				break;
+		}
+	}
+	if (!foreground || !foreground.color || !background || !background.color || background.color.alpha < 1) {
+		return null;
+	}
+	return { foreground: foreground.declaration, background: background.declaration, foregroundColor: foreground.color, backgroundColor: background.color };
+}
+
+/**
+ * The literal color of a value. The `background` shorthand can contain other values, but no images.
+ */
+function getLiteralColor(values: nodes.Node[], isShorthand: boolean): Color | null {
+	if (values.length !== 1 && !isShorthand) {
+		return null;
+	}
+	let color: Color | null = null;
+	for (const value of values) {
+		const node = getTermValue(value);
+		if (isColorValue(node)) {
+			color = getColorValue(node);
+		} else if (node instanceof nodes.Function || node.type === nodes.NodeType.URILiteral || node instanceof nodes.Variable) {
+			return null;
+		}
+	}
+	return color;
+}
@@ -0,0 +1,225 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { Symbols } from '../parser/cssSymbolScope.js';
+import { Color } from '../cssLanguageTypes.js';
+import { colorFromHSL, getColorValue, getTermValue, hslFromColor, isColorValue } from '../languageFacts/facts.js';
+
+export type ResolvedColor = {
+	color: Color;
+	/** The node that defines the color: a literal color, or the call of a color function that computes it */
+	definition: nodes.Node;
+};
+
+/**
+ * Returns the color of a Sass or Less variable reference or of a `var()` function, following the declarations of the document.
+ * The values of the declarations can be literal colors, other references and simple Sass and Less color functions.
+ */
+export function getReferencedColor(node: nodes.Node, symbols: Symbols): ResolvedColor | null {
+	if (!isColorReference(node, symbols)) {
+		return null;
+	}
+	const result = evaluateColor(node, symbols, new Set());
+	if (result && result.definition.offset >= node.offset && result.definition.end <= node.end) {
+		return null; // the fallback of `var()` is a color of its own
+	}
+	return result;
+}
+
+function isColorReference(node: nodes.Node, symbols: Symbols): boolean {
+	if (node instanceof nodes.Variable) {
+		const parent = node.getParent();
+		if (parent instanceof nodes.FunctionArgument && parent.getIdentifier() === node) {
+			return false; // keyword argument
+		}
+		const symbol = symbols.findSymbolFromNode(node);
+		return !!symbol && symbol.node instanceof nodes.VariableDeclaration && symbol.node.getVariable() !== node;
+	}
+	return node instanceof nodes.Function && node.getName() === 'var';
+}
+
+function evaluateColor(node: nodes.Node, symbols: Symbols, visited: Set<nodes.Node>): ResolvedColor | null {
+	node = getTermValue(node);
+	if (isColorValue(node)) {
+		const color = getColorValue(node);
+		if (color) {
+			return { color, definition: node };
+		}
+	}
+	if (node instanceof nodes.Variable) {
+		const symbol = symbols.findSymbolFromNode(node);
+		const declaration = symbol && symbol.node;
+		if (declaration instanceof nodes.VariableDeclaration && !visited.has(declaration)) {
+			visited.add(declaration);
+			const value = declaration.getValue();
+			return value ? evaluateColor(value, symbols, visited) : null;
+		}
+		return null;
+	}
+	if (node instanceof nodes.Module) {
+		// Sass module functions, `color.adjust()`
+		const moduleName = node.getIdentifier()?.getText();
+		const functionNode = node.getChildren().find(child => child instanceof nodes.Function);
+		if (moduleName === 'color' && functionNode instanceof nodes.Function) {
+			const color = evaluateColorFunction('color.' + functionNode.getName(), functionNode, symbols, visited);
+			return color && { color, definition: node };
+		}
+		return null;
+	}
+	if (node instanceof nodes.Function) {
+		const args = node.getArguments().getChildren();
+		if (node.getName() === 'var') {
+			return evaluateCustomProperty(args, symbols, visited);
+		}
+		const color = evaluateColorFunction(node.getName(), node, symbols, visited);
+		return color && { color, definition: node };
+	}
+	return null;
+}
+
+function evaluateCustomProperty(args: nodes.Node[], symbols: Symbols, visited: Set<nodes.Node>): ResolvedColor | null {
+	const name = args.length ? getTermValue(args[0]) : null;
+	const symbol = name && symbols.findSymbolFromNode(name);
+	const declaration = symbol && symbol.node.getParent();
+	if (declaration instanceof nodes.CustomPropertyDeclaration && !visited.has(declaration)) {
+		visited.add(declaration);
+		const value = declaration.getValue();
+		const result = value && evaluateColor(value, symbols, visited);
+		if (result) {
+			return result;
+		}
+	}
+	// the fallback value
+	return args.length === 2 ? evaluateColor(args[1], symbols, visited) : null;
+}
+
+/**
+ * Evaluates the Sass color functions `lighten`, `darken`, `rgba`, `mix` and `color.adjust`, and the Less color functions
+ * `lighten`, `darken`, `fade`, `spin` and `mix`.
+ */
+function evaluateColorFunction(name: string, node: nodes.Function, symbols: Symbols, visited: Set<nodes.Node>): Color | null {
+	const args = <nodes.FunctionArgument[]>node.getArguments().getChildren();
+	if (!args.length) {
+		return null;
+	}
+	const resolved = evaluateColor(args[0], symbols, visited);
+	const color = resolved && resolved.color;
+	if (!color) {
+		return null;
+	}
+	switch (name) {
+		case 'lighten':
+		case 'darken': {
+			const amount = args.length === 2 ? getPercentage(args[1]) : null;
+			if (amount === null) {
+				return null;
+			}
+			const hsl = hslFromColor(color);
+			return colorFromHSL(hsl.h, hsl.s, clamp(hsl.l + (name === 'lighten' ? amount : -amount)), hsl.a);
+		}
+		case 'rgb':
+		case 'rgba':
+		case 'fade': {
+			const alpha = args.length === 2 ? getAlpha(args[1]) : null;
+			return alpha !== null ? { ...color, alpha: clamp(alpha) } : null;
+		}
+		case 'spin': {
+			const angle = args.length === 2 ? getNumber(args[1]) : null;
+			if (angle === null) {
+				return null;
+			}
+			const hsl = hslFromColor(color);
+			return colorFromHSL(hsl.h + angle, hsl.s, hsl.l, hsl.a);
+		}
+		case 'mix':
+		case 'color.mix': {
+			const other = args.length >= 2 ? evaluateColor(args[1], symbols, visited) : null;
+			const weight = args.length === 3 ? getPercentage(args[2]) : 0.5;
+			return other && weight !== null ? mix(color, other.color, weight) : null;
+		}
+		case 'adjust-color':
+		case 'color.adjust':
+			return adjust(color, args.slice(1));
+	}
+	return null;
+}
+
+/**
+ * The color channel adjustments of Sass `color.adjust()`, passed as keyword arguments.
+ */
+function adjust(color: Color, args: nodes.FunctionArgument[]): Color | null {
+	let { red, green, blue, alpha } = color;
+	const hsl = hslFromColor(color);
+	let isHSLAdjusted = false, isRGBAdjusted = false;
+	for (const arg of args) {
+		const value = arg.getValue() && getNumber(arg.getValue()!);
+		if (value === null || value === undefined) {
+			return null;
+		}
+		switch (arg.getName()) {
+			case '$red': red = clamp(red + value / 255); isRGBAdjusted = true; break;
+			case '$green': green = clamp(green + value / 255); isRGBAdjusted = true; break;
+			case '$blue': blue = clamp(blue + value / 255); isRGBAdjusted = true; break;
+			case '$alpha': alpha = clamp(alpha + value); break;
+			case '$hue': hsl.h += value; isHSLAdjusted = true; break;
+			case '$saturation': hsl.s = clamp(hsl.s + value / 100); isHSLAdjusted = true; break;
+			case '$lightness': hsl.l = clamp(hsl.l + value / 100); isHSLAdjusted = true; break;
+			default: return null;
+		}
+	}
+	if (isHSLAdjusted && isRGBAdjusted) {
+		return null; // RGB and HSL adjustments can not be combined
+	}
+	if (isHSLAdjusted) {
+		return colorFromHSL(hsl.h, hsl.s, hsl.l, alpha);
+	}
+	return { red, green, blue, alpha };
+}
+
+/**
+ * The Sass and Less `mix()`: the weight of the first color is adjusted by the difference of the alpha values.
+ */
+function mix(color1: Color, color2: Color, weight: number): Color {
+	const w = 2 * weight - 1;
+	const a = color1.alpha - color2.alpha;
+	const weight1 = ((w * a === -1 ? w : (w + a) / (1 + w * a)) + 1) / 2;
+	const weight2 = 1 - weight1;
+	return {
+		red: color1.red * weight1 + color2.red * weight2,
+		green: color1.green * weight1 + color2.green * weight2,
+		blue: color1.blue * weight1 + color2.blue * weight2,
+		alpha: color1.alpha * weight + color2.alpha * (1 - weight)
+	};
+}
+
+/**
+ * A number, without its unit
+ */
+function getNumber(node: nodes.Node): number | null {
+	const m = /^([-+]?[0-9]*\.?[0-9]+)(%|deg)?$/.exec(getTermValue(node).getText());
+	return m ? parseFloat(m[1]) : null;
+}
+
+/**
+ * A percentage, with or without the unit, as a number between 0 and 1
+ */
+function getPercentage(node: nodes.Node): number | null {
+	const value = getNumber(node);
+	return value !== null ? value / 100 : null;
+}
+
+/**
+ * A percentage or a number between 0 and 1
+ */
+function getAlpha(node: nodes.Node): number | null {
+	const value = getNumber(node);
+	return value !== null && getTermValue(node).getText().endsWith('%') ? value / 100 : value;
+}
+
+function clamp(value: number): number {
+	return Math.min(Math.max(value, 0), 1);
+}
@@ -0,0 +1,191 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import {
+	TextDocument, Position, Range, SymbolKind, DocumentContext, WorkspaceContext,
+	CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall
+} from '../cssLanguageTypes.js';
+import { CSSNavigation } from './cssNavigation.js';
+import { ModuleDocument, getSigil, isMemberReferenceNode } from './moduleGraph.js';
+import { basename } from '../utils/resources.js';
+
+/**
+ * Call hierarchy of Sass mixins and functions and Less mixins. Calls are the `@include`s and function calls in the body of a mixin
+ * or function. Calls outside of mixins and functions are attributed to the top-level ruleset, or to the stylesheet.
+ */
+export class CSSCallHierarchy {
+
+	constructor(private readonly navigation: CSSNavigation) {
+	}
+
+	public async prepareCallHierarchy(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet, documentContext: DocumentContext): Promise<CallHierarchyItem[]> {
+		let node = nodes.getNodeAtOffset(stylesheet, document.offsetAt(position));
+		if (node && node.parent instanceof nodes.Identifier) {
+			node = node.parent; // the name of a Less mixin
+		}
+		if (!node || !isMemberReferenceNode(node)) {
+			return [];
+		}
+		const graph = this.navigation.createModuleGraph(documentContext);
+		const member = await graph.resolveMember(graph.addDocument(document, stylesheet), node);
+		if (!member || !isCallable(member.symbol.node)) {
+			return [];
+		}
+		return [toCallHierarchyItem(member.module, member.symbol.node)];
+	}
+
+	/**
+	 * Returns the callers of the mixin or function of `item`, declared in `document`, in the document and the workspace stylesheets.
+	 */
+	public async provideIncomingCalls(document: TextDocument, stylesheet: nodes.Stylesheet, item: CallHierarchyItem, documentContext: DocumentContext, workspace: WorkspaceContext = {}): Promise<CallHierarchyIncomingCall[]> {
+		const graph = this.navigation.createModuleGraph(documentContext);
+		const module = graph.addDocument(document, stylesheet);
+		const declaration = findItemNode(module, item);
+		if (!declaration || !isCallable(declaration)) {
+			return [];
+		}
+
+		const name = declaration.getName();
+		const bareName = name.substring(getSigil(name).length);
+		const uris = [document.uri, ...await this.navigation.addWorkspace(graph, document, workspace)];
+		const result = new Map<nodes.Node, CallHierarchyIncomingCall>();
+		for (const uri of uris) {
+			const callerModule = await graph.getModule(uri, document.languageId);
+			if (!callerModule) {
+				continue;
+			}
+			for (const call of getCalls(callerModule.stylesheet)) {
+				if (!call.endsWith(bareName)) {
+					continue;
+				}
+				const member = await graph.resolveMember(callerModule, call);
+				if (member && member.symbol.node === declaration) {
+					const caller = getCaller(call);
+					let incomingCall = result.get(caller);
+					if (!incomingCall) {
+						incomingCall = { from: toCallHierarchyItem(callerModule, caller), fromRanges: [] };
+						result.set(caller, incomingCall);
+					}
+					incomingCall.fromRanges.push(getRange(call, callerModule.document));
+				}
+			}
+		}
+		return [...result.values()];
+	}
+
+	/**
+	 * Returns the mixins and functions called by the caller of `item`, declared in `document`, following the module links.
+	 */
+	public async provideOutgoingCalls(document: TextDocument, stylesheet: nodes.Stylesheet, item: CallHierarchyItem, documentContext: DocumentContext): Promise<CallHierarchyOutgoingCall[]> {
+		const graph = this.navigation.createModuleGraph(documentContext);
+		const module = graph.addDocument(document, stylesheet);
+		const caller = findItemNode(module, item);
+		if (!caller) {
+			return [];
+		}
+
+		const result = new Map<nodes.Node, CallHierarchyOutgoingCall>();
+		for (const call of getCalls(caller)) {
+			if (getCaller(call) !== caller) {
+				continue;
+			}
+			const member = await graph.resolveMember(module, call);
+			const callee = member && member.symbol.node;
+			if (callee && isCallable(callee)) {
+				let outgoingCall = result.get(callee);
+				if (!outgoingCall) {
+					outgoingCall = { to: toCallHierarchyItem(member.module, callee), fromRanges: [] };
+					result.set(callee, outgoingCall);
+				}
+				outgoingCall.fromRanges.push(getRange(call, document));
+			}
+		}
+		return [...result.values()];
+	}
+}
+
+function isCallable(node: nodes.Node): node is nodes.MixinDeclaration | nodes.FunctionDeclaration {
+	return node instanceof nodes.MixinDeclaration || node instanceof nodes.FunctionDeclaration;
+}
+
+/**
+ * Returns the names of the mixins and functions that are called in `node`.
+ */
+function getCalls(node: nodes.Node): nodes.Node[] {
+	const result: nodes.Node[] = [];
+	node.accept(candidate => {
+		const parent = candidate.parent;
+		if ((parent instanceof nodes.MixinReference || parent instanceof nodes.Function) && parent.getIdentifier() === candidate) {
+			result.push(candidate);
+		}
+		return true;
+	});
+	return result;
+}
+
+/**
+ * The mixin or function that contains the call, otherwise the top-level ruleset or the stylesheet.
+ */
+function getCaller(call: nodes.Node): nodes.Node {
+	let ruleSet: nodes.Node | undefined;
+	let root = call;
+	for (let node: nodes.Node | null = call; node; node = node.parent) {
+		if (isCallable(node)) {
+			return node;
+		}
+		if (node instanceof nodes.RuleSet) {
+			ruleSet = node;
+		}
+		root = node;
+	}
+	return ruleSet || root;
+}
+
+function findItemNode(module: ModuleDocument, item: CallHierarchyItem): nodes.Node | undefined {
+	if (item.kind === SymbolKind.File) {
+		return module.stylesheet;
+	}
+	const start = module.document.offsetAt(item.range.start);
+	const end = module.document.offsetAt(item.range.end);
+	return nodes.getNodePath(module.stylesheet, start).find(node => node.offset === start && node.end === end && (isCallable(node) || node instanceof nodes.RuleSet));
+}
+
+function toCallHierarchyItem(module: ModuleDocument, node: nodes.Node): CallHierarchyItem {
+	const document = module.document;
+	if (isCallable(node)) {
+		const identifier = node.getIdentifier();
+		return {
+			name: node.getName(),
+			kind: node instanceof nodes.MixinDeclaration ? SymbolKind.Method : SymbolKind.Function,
+			uri: document.uri,
+			range: getRange(node, document),
+			selectionRange: getRange(identifier || node, document)
+		};
+	}
+	if (node instanceof nodes.RuleSet) {
+		const selectors = node.getSelectors();
+		return {
+			name: selectors.getText(),
+			kind: SymbolKind.Class,
+			uri: document.uri,
+			range: getRange(node, document),
+			selectionRange: getRange(selectors, document)
+		};
+	}
+	const range = Range.create(document.positionAt(0), document.positionAt(document.getText().length));
+	return {
+		name: basename(document.uri),
+		kind: SymbolKind.File,
+		uri: document.uri,
+		range,
+		selectionRange: Range.create(range.start, range.start)
+	};
+}
+
+function getRange(node: nodes.Node, document: TextDocument): Range {
+	return Range.create(document.positionAt(node.offset), document.positionAt(node.end));
+}
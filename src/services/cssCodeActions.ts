@@ -6,19 +6,39 @@
 
 import * as nodes from '../parser/cssNodes.js';
 import { difference } from '../utils/strings.js';
-import { Rules } from '../services/lintRules.js';
+import { LintConfigurationSettings, Rules, Settings } from '../services/lintRules.js';
+import { LintVisitor } from '../services/lint.js';
+import { isSuppressibleRule, toDiagnostic } from '../services/cssValidation.js';
+import { applySuppressions, findSuppressions, getSuppressionEdit } from '../services/lintSuppressions.js';
+import { getLintSettings } from '../services/lintConfiguration.js';
+import { getPropertyOrder, sortDeclarations } from '../services/propertyOrder.js';
+import { unusedDeclarationRules } from '../services/unusedDeclarations.js';
+import { collapseShorthand, expandShorthand, findOverridingShorthand, getLonghandNames, getShorthandNames } from '../services/lintUtil.js';
 import {
 	Range, CodeActionContext, Diagnostic, Command, TextEdit, CodeAction, WorkspaceEdit, CodeActionKind,
-	TextDocumentEdit, VersionedTextDocumentIdentifier, TextDocument, ICSSDataProvider
+	TextDocumentEdit, VersionedTextDocumentIdentifier, TextDocument, ICSSDataProvider, LanguageSettings
 } from '../cssLanguageTypes.js';
 import * as l10n from '@vscode/l10n';
 import { CSSDataManager } from '../languageFacts/dataManager.js';
 
+/**
+ * The rules whose problems are fixed by default by `fixAll`: their fixes don't change the meaning of the stylesheet.
+ */
+const defaultFixAllRules = [Rules.ZeroWithUnit, Rules.UnknownProperty, Rules.IncludeStandardPropertyWhenUsingVendorPrefix, Rules.AllVendorPrefixes, Rules.ObsoleteVendorPrefix].map(rule => rule.id);
+
+const sortPropertiesKind = `${CodeActionKind.Source}.sortProperties`;
+
 export class CSSCodeActions {
 
+	private settings?: LanguageSettings;
+
 	constructor(private readonly cssDataManager: CSSDataManager) {
 	}
 
+	public configure(settings?: LanguageSettings) {
+		this.settings = settings;
+	}
+
 	public doCodeActions(document: TextDocument, range: Range, context: CodeActionContext, stylesheet: nodes.Stylesheet): Command[] {
 		return this.doCodeActions2(document, range, context, stylesheet).map(ca => {
 			const textDocumentEdit: TextDocumentEdit | undefined = ca.edit && ca.edit.documentChanges && ca.edit.documentChanges[0] as TextDocumentEdit;
@@ -32,10 +52,86 @@ export class CSSCodeActions {
 			for (const diagnostic of context.diagnostics) {
 				this.appendFixesForMarker(document, stylesheet, diagnostic, result);
 			}
+			for (const diagnostic of context.diagnostics) {
+				this.appendSuppressionForMarker(document, diagnostic, result);
+			}
+		}
+		if (!context.only || context.only.some(kind => CodeActionKind.RefactorRewrite.startsWith(kind))) {
+			this.appendShorthandRefactorings(document, range, stylesheet, result);
+		}
+		// fixing all problems lints the whole document, so it is only computed on request
+		const fixAllKind = `${CodeActionKind.SourceFixAll}.${document.languageId}`;
+		if (context.only && context.only.some(kind => fixAllKind.startsWith(kind))) {
+			const edits = this.fixAll(document, stylesheet);
+			if (edits.length) {
+				const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+				const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, edits)] };
+				result.push(CodeAction.create(l10n.t("Fix all auto-fixable problems"), workspaceEdit, fixAllKind));
+			}
+		}
+		if (context.only && context.only.some(kind => sortPropertiesKind.startsWith(kind))) {
+			const edits = this.sortProperties(document, stylesheet);
+			if (edits.length) {
+				const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+				const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, edits)] };
+				result.push(CodeAction.create(l10n.t("Sort properties"), workspaceEdit, sortPropertiesKind));
+			}
 		}
 		return result;
 	}
 
+	/**
+	 * Returns the edits sorting the declarations of all blocks in the order of the `propertyOrder` lint setting.
+	 */
+	private sortProperties(document: TextDocument, stylesheet: nodes.Stylesheet): TextEdit[] {
+		const order = this.getPropertyOrder(document);
+		const edits: TextEdit[] = [];
+		stylesheet.accept(node => {
+			if (node instanceof nodes.Declarations) {
+				edits.push(...sortDeclarations(document, node, order));
+			}
+			return true;
+		});
+		return edits;
+	}
+
+	private getPropertyOrder(document: TextDocument) {
+		return getPropertyOrder(new LintConfigurationSettings(getLintSettings(this.settings, document.uri)).getSetting(Settings.PropertyOrder));
+	}
+
+	/**
+	 * Returns the edits of the preferred quick fixes of all lint problems of the rules in `settings.fixAll.rules`.
+	 * Problems suppressed by comments are not fixed. Fixes that overlap with the fix of a preceding problem are left out.
+	 * The fixes that copy the value of a declaration come last, and copy the value as fixed by the other fixes.
+	 */
+	public fixAll(document: TextDocument, stylesheet: nodes.Stylesheet, settings: LanguageSettings | undefined = this.settings): TextEdit[] {
+		const rules = settings?.fixAll?.rules ?? defaultFixAllRules;
+		const markers = LintVisitor.entries(stylesheet, document, new LintConfigurationSettings(getLintSettings(settings, document.uri)), this.cssDataManager);
+		const problems = markers.filter(marker => rules.includes(marker.getRule().id)).map(marker => toDiagnostic(document, marker));
+		const diagnostics = applySuppressions(problems, findSuppressions(document), isSuppressibleRule).diagnostics;
+		const copiesValue = (diagnostic: Diagnostic) => diagnostic.code === Rules.IncludeStandardPropertyWhenUsingVendorPrefix.id || diagnostic.code === Rules.AllVendorPrefixes.id;
+		diagnostics.sort((a, b) => Number(copiesValue(a)) - Number(copiesValue(b)) || document.offsetAt(a.range.start) - document.offsetAt(b.range.start));
+
+		const result: TextEdit[] = [];
+		const fixedRanges: { start: number; end: number }[] = [];
+		for (const diagnostic of diagnostics) {
+			const fixes: CodeAction[] = [];
+			this.appendFixesForMarker(document, stylesheet, diagnostic, fixes, result);
+			const fix = fixes.find(codeAction => codeAction.isPreferred);
+			const change = fix && fix.edit && fix.edit.documentChanges && <TextDocumentEdit>fix.edit.documentChanges[0];
+			if (!change) {
+				continue;
+			}
+			const ranges = change.edits.map(edit => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end) }));
+			const overlaps = ranges.some(range => fixedRanges.some(fixed => isOverlapping(range, fixed)));
+			if (!overlaps) {
+				result.push(...change.edits);
+				fixedRanges.push(...ranges);
+			}
+		}
+		return result.sort((a, b) => document.offsetAt(a.range.start) - document.offsetAt(b.range.start));
+	}
+
 	private getFixesForUnknownProperty(document: TextDocument, property: nodes.Property, marker: Diagnostic, result: CodeAction[]): void {
 
 		interface RankedProperty {
@@ -67,6 +163,9 @@ export class CSSCodeActions {
 			const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
 			const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
 			codeAction.diagnostics = [marker];
+			if (candidate === candidates[0] && (candidates.length === 1 || candidates[1].score < candidate.score)) {
+				codeAction.isPreferred = true;
+			}
 			result.push(codeAction);
 			if (--maxActions <= 0) {
 				return;
@@ -74,15 +173,369 @@ export class CSSCodeActions {
 		}
 	}
 
-	private appendFixesForMarker(document: TextDocument, stylesheet: nodes.Stylesheet, marker: Diagnostic, result: CodeAction[]): void {
+	private appendSuppressionForMarker(document: TextDocument, marker: Diagnostic, result: CodeAction[]): void {
+		const rule = String(marker.code);
+		if (!isSuppressibleRule(rule)) {
+			return;
+		}
+		const title = l10n.t("Suppress '{0}' for this line", rule);
+		const edit = getSuppressionEdit(document, marker.range.start.line, rule);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		result.push(codeAction);
+	}
 
-		if (marker.code !== Rules.UnknownProperty.id) {
+	private getFixesForZeroWithUnit(document: TextDocument, marker: Diagnostic, result: CodeAction[]): void {
+		const number = /^[-+]?[\d.]+/.exec(document.getText(marker.range));
+		if (!number) {
+			return;
+		}
+		const title = l10n.t("Remove unit");
+		const edit = TextEdit.replace(marker.range, number[0]);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		codeAction.isPreferred = true;
+		result.push(codeAction);
+	}
+
+	private getFixesForUnsupportedFeature(document: TextDocument, nodepath: nodes.Node[], marker: Diagnostic, result: CodeAction[]): void {
+		let declaration: nodes.Declaration | undefined;
+		let selector: nodes.Node | undefined;
+		let ruleSet: nodes.RuleSet | undefined;
+		for (let i = nodepath.length - 1; i >= 0; i--) {
+			const node = nodepath[i];
+			if (node instanceof nodes.Declaration && !selector) {
+				declaration = node;
+				break;
+			}
+			if (node instanceof nodes.Selector && !selector) {
+				selector = node;
+			}
+			if (node instanceof nodes.RuleSet && selector) {
+				ruleSet = node;
+				break;
+			}
+		}
+
+		let condition: string;
+		let edit: TextEdit;
+		if (declaration) {
+			// conditional rules can be nested inside style rules
+			const text = declaration.getText();
+			const end = declaration.semicolonPosition !== undefined ? declaration.semicolonPosition + 1 : declaration.end;
+			// `!important` is not allowed in the condition
+			const prio = declaration.getChildren().find(child => child.type === nodes.NodeType.Prio);
+			condition = `(${prio ? text.substring(0, prio.offset - declaration.offset).trim() : text})`;
+			edit = TextEdit.replace(Range.create(document.positionAt(declaration.offset), document.positionAt(end)), `@supports ${condition} { ${text}; }`);
+		} else if (selector && ruleSet) {
+			const start = document.positionAt(ruleSet.offset);
+			const indent = document.getText(Range.create(start.line, 0, start.line, start.character)).match(/^\s*/)![0];
+			condition = `selector(${selector.getText()})`;
+			const lines = ruleSet.getText().split('\n');
+			const innerIndent = lines.length > 1 ? lines[1].match(/^\s*/)![0] : '';
+			const unit = innerIndent.startsWith(indent) && innerIndent.length > indent.length ? innerIndent.substring(indent.length) : '\t';
+			const body = lines.map((line, i) => i === 0 ? indent + unit + line : unit + line).join('\n');
+			edit = TextEdit.replace(Range.create(start, document.positionAt(ruleSet.end)), `@supports ${condition} {\n${body}\n${indent}}`);
+		} else {
+			return;
+		}
+		const title = l10n.t("Wrap in '@supports {0}'", condition);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		codeAction.isPreferred = true;
+		result.push(codeAction);
+	}
+
+	private getFixesForUnusedDeclaration(document: TextDocument, nodepath: nodes.Node[], marker: Diagnostic, result: CodeAction[]): void {
+		const text = document.getText();
+		let start: number | undefined;
+		let end: number | undefined;
+		for (let i = nodepath.length - 1; i >= 0 && start === undefined; i--) {
+			const node = nodepath[i];
+			if (node instanceof nodes.VariableDeclaration || node instanceof nodes.MixinDeclaration || node instanceof nodes.Keyframe) {
+				start = node.offset;
+				end = node.end + (/^[ \t]*;/.exec(text.substring(node.end))?.[0].length ?? 0);
+			} else if (node instanceof nodes.Selector && node.parent?.parent instanceof nodes.RuleSet) {
+				const selectors = node.parent.getChildren();
+				if (selectors.length === 1) {
+					start = node.parent.parent.offset;
+					end = node.parent.parent.end;
+				} else {
+					// remove the selector from the selector list, together with a separating comma
+					const index = selectors.indexOf(node);
+					start = index === 0 ? node.offset : selectors[index - 1].end;
+					end = index === 0 ? selectors[1].offset : node.end;
+				}
+			}
+		}
+		if (start === undefined || end === undefined) {
+			return;
+		}
+
+		const title = l10n.t("Remove unused declaration");
+		const edit = TextEdit.del(getRemovalRange(document, start, end));
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		codeAction.isPreferred = true;
+		result.push(codeAction);
+	}
+
+	/**
+	 * Sorts the properties of the rule of the misplaced declaration.
+	 */
+	private getFixesForPropertyOrder(document: TextDocument, nodepath: nodes.Node[], marker: Diagnostic, result: CodeAction[]): void {
+		const declaration = nodepath.slice().reverse().find(node => node instanceof nodes.Declaration);
+		const declarations = declaration && declaration.getParent();
+		const edits = declarations ? sortDeclarations(document, declarations, this.getPropertyOrder(document)) : [];
+		if (!edits.length) {
+			return;
+		}
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const codeAction = CodeAction.create(l10n.t("Sort properties of the rule"), { documentChanges: [TextDocumentEdit.create(documentIdentifier, edits)] }, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		codeAction.isPreferred = true;
+		result.push(codeAction);
+	}
+
+	/**
+	 * Moves the overridden declaration after the shorthand, or merges its value into the value of the shorthand.
+	 */
+	private getFixesForOverriddenProperty(document: TextDocument, nodepath: nodes.Node[], marker: Diagnostic, result: CodeAction[]): void {
+		let declaration: nodes.Declaration | undefined;
+		for (let i = nodepath.length - 1; i >= 0 && !declaration; i--) {
+			if (nodepath[i] instanceof nodes.Declaration) {
+				declaration = <nodes.Declaration>nodepath[i];
+			}
+		}
+		const shorthand = declaration && findOverridingShorthand(declaration);
+		if (!declaration || !shorthand) {
+			return;
+		}
+		const propertyName = declaration.getFullPropertyName().toLowerCase();
+		const shorthandName = shorthand.getFullPropertyName().toLowerCase();
+		const end = declaration.semicolonPosition !== undefined ? declaration.semicolonPosition + 1 : declaration.end;
+		const removal = TextEdit.del(getRemovalRange(document, declaration.offset, end));
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+
+		const insertion = getInsertionEdit(document, shorthand, [declaration.getText()], false);
+		const moveAction = CodeAction.create(l10n.t("Move after '{0}'", shorthandName), { documentChanges: [TextDocumentEdit.create(documentIdentifier, [removal, insertion])] }, CodeActionKind.QuickFix);
+		moveAction.diagnostics = [marker];
+		moveAction.isPreferred = true;
+		result.push(moveAction);
+
+		const longhands = getLonghandNames(shorthandName);
+		const index = longhands ? longhands.indexOf(propertyName) : -1;
+		const values = index !== -1 && isRewritable(declaration) && isRewritable(shorthand) ? expandShorthand(shorthandName, shorthand.getValue()!.getText()) : undefined;
+		if (!values) {
+			return;
+		}
+		values[index] = declaration.getValue()!.getText();
+		const value = collapseShorthand(shorthandName, values);
+		if (value === undefined) {
+			return;
+		}
+		const shorthandValue = shorthand.getValue()!;
+		const replacement = TextEdit.replace(Range.create(document.positionAt(shorthandValue.offset), document.positionAt(shorthandValue.end)), value);
+		const mergeAction = CodeAction.create(l10n.t("Merge into '{0}'", shorthandName), { documentChanges: [TextDocumentEdit.create(documentIdentifier, [removal, replacement])] }, CodeActionKind.QuickFix);
+		mergeAction.diagnostics = [marker];
+		result.push(mergeAction);
+	}
+
+	/**
+	 * Adds the missing standard or vendor specific declarations with the value of the marked declaration, or removes an obsolete
+	 * vendor specific declaration. If the rule has no standard declaration, the obsolete declaration is renamed instead.
+	 * The copied value has the `fixedEdits` within it applied.
+	 */
+	private getFixesForVendorPrefix(document: TextDocument, nodepath: nodes.Node[], marker: Diagnostic, result: CodeAction[], fixedEdits: TextEdit[]): void {
+		let declaration: nodes.Declaration | undefined;
+		for (let i = nodepath.length - 1; i >= 0 && !declaration; i--) {
+			if (nodepath[i] instanceof nodes.Declaration) {
+				declaration = <nodes.Declaration>nodepath[i];
+			}
+		}
+		const property = declaration && declaration.getProperty();
+		const block = declaration && declaration.getParent();
+		if (!declaration || !property || !block) {
+			return;
+		}
+		const standardName = declaration.getNonPrefixedPropertyName();
+		const family = <nodes.Declaration[]>block.getChildren().filter(child => child instanceof nodes.Declaration && child.getNonPrefixedPropertyName() === standardName);
+		const standard = family.find(child => child.getFullPropertyName() === standardName);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+
+		let title: string;
+		let edit: TextEdit;
+		if (marker.code === Rules.ObsoleteVendorPrefix.id) {
+			if (standard) {
+				const end = declaration.semicolonPosition !== undefined ? declaration.semicolonPosition + 1 : declaration.end;
+				title = l10n.t("Remove '{0}'", declaration.getFullPropertyName());
+				edit = TextEdit.del(getRemovalRange(document, declaration.offset, end));
+			} else {
+				title = l10n.t("Replace with '{0}'", standardName);
+				edit = TextEdit.replace(Range.create(document.positionAt(property.offset), document.positionAt(property.end)), standardName);
+			}
+		} else {
+			// the value, and the `!important` of the declaration
+			const value = getFixedText(document, property.end, declaration.end, fixedEdits);
+			if (marker.code === Rules.IncludeStandardPropertyWhenUsingVendorPrefix.id) {
+				// the standard property is declared last
+				title = l10n.t("Add standard property '{0}'", standardName);
+				edit = getInsertionEdit(document, family[family.length - 1], [standardName + value], false);
+			} else {
+				const names = family.map(child => child.getFullPropertyName());
+				const missing = LintVisitor.prefixes.map(prefix => prefix + standardName).filter(name => !names.includes(name) && this.cssDataManager.isStandardProperty(name));
+				if (!missing.length) {
+					return;
+				}
+				title = l10n.t("Add missing vendor specific properties");
+				edit = standard
+					? getInsertionEdit(document, standard, missing.map(name => name + value), true)
+					: getInsertionEdit(document, family[family.length - 1], missing.map(name => name + value), false);
+			}
+		}
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		const codeAction = CodeAction.create(title, workspaceEdit, CodeActionKind.QuickFix);
+		codeAction.diagnostics = [marker];
+		codeAction.isPreferred = true;
+		result.push(codeAction);
+	}
+
+	private appendShorthandRefactorings(document: TextDocument, range: Range, stylesheet: nodes.Stylesheet, result: CodeAction[]): void {
+		const nodepath = nodes.getNodePath(stylesheet, document.offsetAt(range.start));
+		for (let i = nodepath.length - 1; i >= 0; i--) {
+			const node = nodepath[i];
+			if (node instanceof nodes.Declaration) {
+				if (isRewritable(node)) {
+					const name = node.getFullPropertyName().toLowerCase();
+					this.getExpandShorthandAction(document, node, name, result);
+					for (const shorthand of getShorthandNames(name)) {
+						this.getCollapseShorthandAction(document, node, shorthand, result);
+					}
+				}
+				return;
+			}
+		}
+	}
+
+	private getExpandShorthandAction(document: TextDocument, declaration: nodes.Declaration, shorthand: string, result: CodeAction[]): void {
+		const longhands = getLonghandNames(shorthand);
+		const values = longhands && expandShorthand(shorthand, declaration.getValue()!.getText());
+		if (!longhands || !values) {
+			return;
+		}
+		const text = document.getText();
+		const indent = /(^|\n)([ \t]*)$/.exec(text.substring(0, declaration.offset));
+		const separator = indent ? `;\n${indent[2]}` : '; ';
+		const hasSemicolon = declaration.semicolonPosition !== undefined;
+		const newText = longhands.map((longhand, i) => `${longhand}: ${values[i]}`).join(separator) + (hasSemicolon ? ';' : '');
+		const end = hasSemicolon ? declaration.semicolonPosition! + 1 : declaration.end;
+
+		const title = l10n.t("Expand '{0}' into longhand properties", shorthand);
+		const edit = TextEdit.replace(Range.create(document.positionAt(declaration.offset), document.positionAt(end)), newText);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, [edit])] };
+		result.push(CodeAction.create(title, workspaceEdit, CodeActionKind.RefactorRewrite));
+	}
+
+	/**
+	 * Collapses the longhands of the shorthand in the declarations block of `declaration`. The last declaration of each longhand
+	 * is replaced, and no other declaration of the same property family may be between them.
+	 */
+	private getCollapseShorthandAction(document: TextDocument, declaration: nodes.Declaration, shorthand: string, result: CodeAction[]): void {
+		const block = declaration.getParent();
+		const longhands = getLonghandNames(shorthand);
+		if (!(block instanceof nodes.Declarations) || !longhands) {
+			return;
+		}
+		const children = block.getChildren();
+		const longhandDeclarations: nodes.Declaration[] = [];
+		for (const longhand of longhands) {
+			const longhandDeclaration = findLastDeclaration(children, longhand);
+			if (!longhandDeclaration || !isRewritable(longhandDeclaration)) {
+				return;
+			}
+			longhandDeclarations.push(longhandDeclaration);
+		}
+		if (!longhandDeclarations.includes(declaration)) {
+			return;
+		}
+		const value = collapseShorthand(shorthand, longhandDeclarations.map(longhandDeclaration => longhandDeclaration.getValue()!.getText()));
+		if (value === undefined) {
+			return;
+		}
+
+		const sorted = [...longhandDeclarations].sort((a, b) => a.offset - b.offset);
+		const first = sorted[0];
+		const last = sorted[sorted.length - 1];
+		const families = new Set([shorthand, ...longhands].map(getPropertyFamily));
+		for (const child of children) {
+			if (child.offset > first.offset && child.offset < last.offset && !sorted.includes(<nodes.Declaration>child)) {
+				if (!(child instanceof nodes.Declaration) || families.has(getPropertyFamily(child.getFullPropertyName().toLowerCase()))) {
+					return; // a mixin or a declaration that could override one of the longhands
+				}
+			}
+		}
+
+		const edits: TextEdit[] = [];
+		const hasSemicolon = first.semicolonPosition !== undefined;
+		const end = hasSemicolon ? first.semicolonPosition! + 1 : first.end;
+		edits.push(TextEdit.replace(Range.create(document.positionAt(first.offset), document.positionAt(end)), `${shorthand}: ${value}` + (hasSemicolon ? ';' : '')));
+		for (const other of sorted.slice(1)) {
+			const end = other.semicolonPosition !== undefined ? other.semicolonPosition + 1 : other.end;
+			edits.push(TextEdit.del(getRemovalRange(document, other.offset, end)));
+		}
+
+		const title = l10n.t("Collapse into '{0}' shorthand", shorthand);
+		const documentIdentifier = VersionedTextDocumentIdentifier.create(document.uri, document.version);
+		const workspaceEdit: WorkspaceEdit = { documentChanges: [TextDocumentEdit.create(documentIdentifier, edits)] };
+		result.push(CodeAction.create(title, workspaceEdit, CodeActionKind.RefactorRewrite));
+	}
+
+	private appendFixesForMarker(document: TextDocument, stylesheet: nodes.Stylesheet, marker: Diagnostic, result: CodeAction[], fixedEdits: TextEdit[] = []): void {
+
+		const isUnusedDeclaration = unusedDeclarationRules.some(rule => rule.id === marker.code);
+		const isVendorPrefix = marker.code === Rules.IncludeStandardPropertyWhenUsingVendorPrefix.id || marker.code === Rules.AllVendorPrefixes.id || marker.code === Rules.ObsoleteVendorPrefix.id;
+		if (marker.code === Rules.ZeroWithUnit.id) {
+			this.getFixesForZeroWithUnit(document, marker, result);
+			return;
+		}
+		if (marker.code !== Rules.UnknownProperty.id && marker.code !== Rules.BrowserCompatibility.id && marker.code !== Rules.OverriddenByShorthand.id && marker.code !== Rules.PropertyOrder.id
+			&& !isUnusedDeclaration && !isVendorPrefix) {
 			return;
 		}
 		const offset = document.offsetAt(marker.range.start);
 		const end = document.offsetAt(marker.range.end);
 		const nodepath = nodes.getNodePath(stylesheet, offset);
 
+		if (marker.code === Rules.BrowserCompatibility.id) {
+			this.getFixesForUnsupportedFeature(document, nodepath, marker, result);
+			return;
+		}
+		if (isUnusedDeclaration) {
+			this.getFixesForUnusedDeclaration(document, nodepath, marker, result);
+			return;
+		}
+		if (marker.code === Rules.OverriddenByShorthand.id) {
+			this.getFixesForOverriddenProperty(document, nodepath, marker, result);
+			return;
+		}
+		if (isVendorPrefix) {
+			this.getFixesForVendorPrefix(document, nodepath, marker, result, fixedEdits);
+			return;
+		}
+		if (marker.code === Rules.PropertyOrder.id) {
+			this.getFixesForPropertyOrder(document, nodepath, marker, result);
+			return;
+		}
+
 		for (let i = nodepath.length - 1; i >= 0; i--) {
 			const node = nodepath[i];
 			if (node instanceof nodes.Declaration) {
@@ -96,3 +549,97 @@ export class CSSCodeActions {
 	}
 
 }
+
+/**
+ * Edits overlap if their ranges intersect, or if both insert at the same position. An insertion at the start or the end
+ * of a replaced range does not overlap with the replacement.
+ */
+function isOverlapping(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+	return a.start < b.end && b.start < a.end || a.start === a.end && b.start === b.end && a.start === b.start;
+}
+
+/**
+ * The text between the offsets, with the edits that replace or remove text between them applied
+ */
+function getFixedText(document: TextDocument, start: number, end: number, edits: TextEdit[]): string {
+	const text = document.getText();
+	const inner = edits
+		.map(edit => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), newText: edit.newText }))
+		.filter(edit => start <= edit.start && edit.start < edit.end && edit.end <= end)
+		.sort((a, b) => a.start - b.start);
+	let result = '';
+	for (const edit of inner) {
+		result += text.substring(start, edit.start) + edit.newText;
+		start = edit.end;
+	}
+	return result + text.substring(start, end);
+}
+
+/**
+ * Extends the range of a removed node to its line if the node is the only content of the line, otherwise to the following whitespace.
+ */
+function getRemovalRange(document: TextDocument, start: number, end: number): Range {
+	const text = document.getText();
+	const indent = /[ \t]*$/.exec(text.substring(0, start))![0];
+	const lineEnd = /^[ \t]*(\r?\n|$)/.exec(text.substring(end));
+	const lineStart = start - indent.length;
+	if (lineEnd && (lineStart === 0 || text.charAt(lineStart - 1) === '\n')) {
+		start = lineStart;
+		end += lineEnd[0].length;
+	} else if (indent) {
+		end += /^[ \t]*/.exec(text.substring(end))![0].length;
+	}
+	return Range.create(document.positionAt(start), document.positionAt(end));
+}
+
+/**
+ * Inserts declarations before or after a declaration, on separate lines if the declaration is on a line of its own.
+ */
+function getInsertionEdit(document: TextDocument, declaration: nodes.Declaration, declarations: string[], before: boolean): TextEdit {
+	const indent = /(^|\n)([ \t]*)$/.exec(document.getText().substring(0, declaration.offset));
+	const separator = indent ? `\n${indent[2]}` : ' ';
+	if (before) {
+		return TextEdit.insert(document.positionAt(declaration.offset), declarations.map(text => text + ';' + separator).join(''));
+	}
+	if (declaration.semicolonPosition !== undefined) {
+		return TextEdit.insert(document.positionAt(declaration.semicolonPosition + 1), declarations.map(text => separator + text + ';').join(''));
+	}
+	return TextEdit.insert(document.positionAt(declaration.end), declarations.map(text => ';' + separator + text).join(''));
+}
+
+/**
+ * Declarations with `!important`, `var()` or preprocessor variables are not rewritten: the components of their values are not known.
+ * Neither are Sass nested properties.
+ */
+function isRewritable(declaration: nodes.Declaration): boolean {
+	const value = declaration.getValue();
+	if (!value || declaration instanceof nodes.CustomPropertyDeclaration || declaration.getNestedProperties() || declaration.getParent()?.getParent() instanceof nodes.NestedProperties
+		|| declaration.getChildren().some(child => child.type === nodes.NodeType.Prio)) {
+		return false;
+	}
+	let result = true;
+	value.accept(node => {
+		if (node instanceof nodes.Variable || node.type === nodes.NodeType.Interpolation || node instanceof nodes.Function && node.getName().toLowerCase() === 'var') {
+			result = false;
+		}
+		return result;
+	});
+	return result;
+}
+
+function findLastDeclaration(children: nodes.Node[], propertyName: string): nodes.Declaration | undefined {
+	for (let i = children.length - 1; i >= 0; i--) {
+		const child = children[i];
+		if (child instanceof nodes.Declaration && child.getFullPropertyName().toLowerCase() === propertyName) {
+			return child;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * The first segment of a property name: `margin` for `margin-inline-start`
+ */
+function getPropertyFamily(propertyName: string): string {
+	return propertyName.split('-')[0];
+}
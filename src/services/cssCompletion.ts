@@ -5,7 +5,7 @@
 'use strict';
 
 import * as nodes from '../parser/cssNodes.js';
-import { Symbols, Symbol } from '../parser/cssSymbolScope.js';
+import { Symbols, Symbol, isViewTransitionPseudoElement } from '../parser/cssSymbolScope.js';
 import * as languageFacts from '../languageFacts/facts.js';
 import * as strings from '../utils/strings.js';
 import {
@@ -18,6 +18,7 @@ import * as l10n from '@vscode/l10n';
 import { isDefined } from '../utils/objects.js';
 import { CSSDataManager } from '../languageFacts/dataManager.js';
 import { PathCompletionParticipant } from './pathCompletion.js';
+import { containerSizeFeatures, fontFeatureValueSyntaxes, scrollStateFeatures } from '../languageFacts/builtinData.js';
 
 const SnippetFormat = InsertTextFormat.Snippet;
 
@@ -26,6 +27,8 @@ const retriggerCommand: Command = {
 	command: 'editor.action.triggerSuggest'
 };
 
+const descriptorAtRuleTypes = [nodes.NodeType.CounterStyle, nodes.NodeType.FontFeatureValues, nodes.NodeType.FontFeatureValueBlock, nodes.NodeType.FontPaletteValues, nodes.NodeType.PositionTry, nodes.NodeType.ViewTransition];
+
 enum SortTexts {
 	// char code 32, comes before everything
 	Enums = ' ',
@@ -151,6 +154,8 @@ export class CSSCompletion {
 					this.getCompletionsForFunctionDeclaration(<nodes.FunctionDeclaration>node, result);
 				} else if (node instanceof nodes.MixinReference) {
 					this.getCompletionsForMixinReference(<nodes.MixinReference>node, result);
+				} else if (node instanceof nodes.AtApplyRule) {
+					this.getCompletionsForApply(node, result);
 				} else if (node instanceof nodes.Function) {
 					this.getCompletionsForFunctionArgument(null, <nodes.Function>node, result);
 				} else if (node instanceof nodes.Supports) {
@@ -159,6 +164,8 @@ export class CSSCompletion {
 					this.getCompletionsForSupportsCondition(<nodes.SupportsCondition>node, result);
 				} else if (node instanceof nodes.MediaCondition) {
 					this.getCompletionsForMediaCondition(node, result);
+				} else if (node instanceof nodes.Container) {
+					this.getCompletionsForContainer(node, result);
 				} else if (node instanceof nodes.ExtendsReference) {
 					this.getCompletionsForExtendsReference(<nodes.ExtendsReference>node, null, result);
 				} else if (node.type === nodes.NodeType.URILiteral) {
@@ -215,13 +222,38 @@ export class CSSCompletion {
 	}
 
 	public getCompletionsForDeclarationProperty(declaration: nodes.Declaration | null, result: CompletionList): CompletionList {
+		if (this.findInNodePath(...descriptorAtRuleTypes)?.type === nodes.NodeType.FontFeatureValues) {
+			for (const name in fontFeatureValueSyntaxes) {
+				result.items.push({
+					label: name,
+					textEdit: TextEdit.replace(this.getCompletionRange(declaration && declaration.getProperty()), name),
+					kind: CompletionItemKind.Keyword
+				});
+			}
+		}
 		return this.getPropertyProposals(declaration, result);
 	}
 
+	/**
+	 * The descriptors of the at-rule that contains the completion position, or `undefined` if it is not in an at-rule with descriptors.
+	 * Descriptors without description, such as the properties of `@position-try`, use the data of the property.
+	 */
+	private getDescriptors(): IPropertyData[] | undefined {
+		const atRule = this.findInNodePath(...descriptorAtRuleTypes);
+		if (!(atRule instanceof nodes.DescriptorAtRule)) {
+			return undefined;
+		}
+		const descriptors = this.cssDataManager.getAtRuleDescriptors(atRule.getAtRuleName()) || [];
+		return descriptors.map(descriptor => {
+			const property = this.cssDataManager.getProperty(descriptor.name);
+			return property && !descriptor.description ? { ...property, ...descriptor } : descriptor;
+		});
+	}
+
 	private getPropertyProposals(declaration: nodes.Declaration | null, result: CompletionList): CompletionList {
 		const triggerPropertyValueCompletion = this.isTriggerPropertyValueCompletionEnabled;
 		const completePropertyWithSemicolon = this.isCompletePropertyWithSemicolonEnabled;
-		const properties = this.cssDataManager.getProperties();
+		const properties = this.getDescriptors() || this.cssDataManager.getProperties();
 
 		properties.forEach(entry => {
 			let range: Range;
@@ -290,7 +322,8 @@ export class CSSCompletion {
 
 	public getCompletionsForDeclarationValue(node: nodes.Declaration, result: CompletionList): CompletionList {
 		const propertyName = node.getFullPropertyName();
-		const entry = this.cssDataManager.getProperty(propertyName);
+		const descriptors = this.getDescriptors();
+		const entry = descriptors ? descriptors.find(descriptor => descriptor.name === propertyName.toLowerCase()) : this.cssDataManager.getProperty(propertyName);
 		let existingNode: nodes.Node | null = node.getValue() || null;
 
 		while (existingNode && existingNode.hasChildren()) {
@@ -345,7 +378,9 @@ export class CSSCompletion {
 				}
 			}
 			this.getValueEnumProposals(entry, existingNode, result);
-			this.getCSSWideKeywordProposals(entry, existingNode, result);
+			if (!descriptors) {
+				this.getCSSWideKeywordProposals(entry, existingNode, result);
+			}
 			this.getUnitProposals(entry, existingNode, result);
 		} else {
 			const existingValues = collectValues(this.styleSheet, node);
@@ -357,6 +392,16 @@ export class CSSCompletion {
 				});
 			}
 		}
+		switch (propertyName.toLowerCase()) {
+			case 'position-anchor':
+			case 'anchor-scope':
+				this.getAnchorProposals(nodes.ReferenceType.Anchor, existingNode, result);
+				break;
+			case 'position-try-fallbacks':
+			case 'position-try':
+				this.getAnchorProposals(nodes.ReferenceType.PositionTry, existingNode, result);
+				break;
+		}
 		this.getVariableProposals(existingNode, result);
 		this.getTermProposals(entry, existingNode, result);
 		return result;
@@ -728,6 +773,13 @@ export class CSSCompletion {
 	}
 
 	public getCompletionsForSelector(ruleSet: nodes.RuleSet | null, isNested: boolean, result: CompletionList): CompletionList {
+		const pseudoElement = this.findInNodePath(nodes.NodeType.PseudoSelector);
+		if (pseudoElement && isViewTransitionPseudoElement(pseudoElement)) {
+			const openParen = pseudoElement.getText().indexOf('(');
+			if (openParen !== -1 && this.offset > pseudoElement.offset + openParen) {
+				return this.getViewTransitionNameProposals(this.findInNodePath(nodes.NodeType.ElementNameSelector, nodes.NodeType.Term), result);
+			}
+		}
 		const existingNode = this.findInNodePath(nodes.NodeType.PseudoSelector, nodes.NodeType.IdentifierSelector, nodes.NodeType.ClassSelector, nodes.NodeType.ElementNameSelector);
 		if (!existingNode && this.hasCharacterAtPosition(this.offset - this.currentWord.length - 1, ':')) {
 			// after the ':' of a pseudo selector, no node generated for just ':'
@@ -848,6 +900,8 @@ export class CSSCompletion {
 			}
 		} else if (node instanceof nodes.ExtendsReference) {
 			this.getCompletionsForExtendsReference(node, null, result);
+		} else if (node instanceof nodes.UnknownAtRule && node.getChild(0)?.getText() === '@apply' && !this.currentWord) {
+			this.getCompletionsForApply(node, result);
 		} else if (this.currentWord && this.currentWord[0] === '@') {
 			this.getCompletionsForDeclarationProperty(null, result);
 		} else if (node instanceof nodes.RuleSet) {
@@ -893,6 +947,36 @@ export class CSSCompletion {
 			if (!func.getArguments().hasChildren() || func.getArguments().getChild(0) === arg) {
 				this.getVariableProposalsForCSSVarFunction(result);
 			}
+		} else if (identifier && (identifier.matches('anchor') || identifier.matches('anchor-size'))) {
+			this.getAnchorProposals(nodes.ReferenceType.Anchor, null, result);
+		}
+		return result;
+	}
+
+	/**
+	 * Proposes the anchor names declared with `anchor-name`, or the names of the `@position-try` rules
+	 */
+	public getAnchorProposals(referenceType: nodes.ReferenceType.Anchor | nodes.ReferenceType.PositionTry, existingNode: nodes.Node | null, result: CompletionList): CompletionList {
+		for (const symbol of this.getSymbolContext().findSymbolsAtOffset(this.offset, referenceType)) {
+			result.items.push({
+				label: symbol.name,
+				textEdit: TextEdit.replace(this.getCompletionRange(existingNode), symbol.name),
+				kind: CompletionItemKind.Reference
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * Proposes the view transition names declared with `view-transition-name`
+	 */
+	public getViewTransitionNameProposals(existingNode: nodes.Node | null, result: CompletionList): CompletionList {
+		for (const symbol of this.getSymbolContext().findSymbolsAtOffset(this.offset, nodes.ReferenceType.ViewTransition)) {
+			result.items.push({
+				label: symbol.name,
+				textEdit: TextEdit.replace(this.getCompletionRange(existingNode), symbol.name),
+				kind: CompletionItemKind.Reference
+			});
 		}
 		return result;
 	}
@@ -927,6 +1011,22 @@ export class CSSCompletion {
 		return result;
 	}
 
+	/**
+	 * Proposes the custom mixins declared with `@mixin --name`
+	 */
+	public getCompletionsForApply(node: nodes.AtApplyRule | nodes.UnknownAtRule, result: CompletionList): CompletionList {
+		const identifier = node instanceof nodes.AtApplyRule && node.getIdentifier() || null;
+		if (identifier ? this.offset > identifier.end : this.offset <= node.offset + '@apply'.length) {
+			return result;
+		}
+		for (const mixinSymbol of this.getSymbolContext().findSymbolsAtOffset(this.offset, nodes.ReferenceType.Mixin)) {
+			if (mixinSymbol.node instanceof nodes.MixinDeclaration && strings.startsWith(mixinSymbol.name, '--')) {
+				result.items.push(this.makeTermProposal(mixinSymbol, mixinSymbol.node.getParameters(), identifier));
+			}
+		}
+		return result;
+	}
+
 	public getTermProposals(entry: IPropertyData | undefined, existingNode: nodes.Node | null, result: CompletionList): CompletionList {
 		const allFunctions = this.getSymbolContext().findSymbolsAtOffset(this.offset, nodes.ReferenceType.Function);
 		for (const functionSymbol of allFunctions) {
@@ -1026,6 +1126,83 @@ export class CSSCompletion {
 		return result;
 	}
 
+	/**
+	 * Proposes the declared container names and the `style()` and `scroll-state()` queries, or the features of a query and their values
+	 */
+	public getCompletionsForContainer(container: nodes.Container, result: CompletionList): CompletionList {
+		const declarations = container.getDeclarations();
+		const prelude = this.textDocument.getText().substring(container.offset + '@container'.length, this.offset);
+		if (declarations && this.offset > declarations.offset || !/^\s/.test(prelude)) {
+			return result;
+		}
+		const functions: string[] = []; // the names of the functions and parentheses around the position
+		let start = 0; // the start of the current query, feature or container name
+		for (let i = 0; i < prelude.length; i++) {
+			const ch = prelude.charAt(i);
+			if (ch === '(') {
+				functions.push(/[\w-]*$/.exec(prelude.substring(0, i))![0].toLowerCase());
+				start = i + 1;
+			} else if (ch === ')') {
+				functions.pop();
+				start = i + 1;
+			} else if (ch === ',' && !functions.length) {
+				start = i + 1;
+			}
+		}
+		const text = prelude.substring(start);
+
+		if (!functions.length) {
+			const isNamePosition = /^\s*[\w-]*$/.test(text) && (start === 0 || prelude.charAt(start - 1) === ',');
+			if (isNamePosition) {
+				for (const symbol of this.getSymbolContext().findSymbolsAtOffset(this.offset, nodes.ReferenceType.Container)) {
+					result.items.push({
+						label: symbol.name,
+						textEdit: TextEdit.replace(this.getCompletionRange(null), symbol.name),
+						kind: CompletionItemKind.Reference
+					});
+				}
+			}
+			if (isNamePosition || /\s[\w-]*$/.test(text)) {
+				for (const query of ['style()', 'scroll-state()']) {
+					result.items.push({
+						label: query,
+						textEdit: TextEdit.replace(this.getCompletionRange(null), moveCursorInsideParenthesis(query)),
+						insertTextFormat: SnippetFormat,
+						kind: CompletionItemKind.Function
+					});
+				}
+			}
+			return result;
+		}
+		if (functions.indexOf('style') !== -1) {
+			return result; // style queries contain declarations
+		}
+
+		const features = functions.indexOf('scroll-state') !== -1 ? scrollStateFeatures : containerSizeFeatures;
+		if (/^\s*(not\s+)?[\w-]*$/.test(text)) {
+			for (const feature of features) {
+				const hasValues = feature.type === 'discrete' && !!feature.values;
+				result.items.push({
+					label: feature.name,
+					textEdit: TextEdit.replace(this.getCompletionRange(null), feature.type === 'discrete' ? `${feature.name}: ` : feature.name),
+					documentation: languageFacts.getEntryDescription(feature, this.doesSupportMarkdown()),
+					kind: CompletionItemKind.Keyword,
+					command: hasValues ? retriggerCommand : undefined
+				});
+			}
+			return result;
+		}
+		const match = /^\s*([\w-]+)\s*(?::|[<>]=?|=)\s*[\w.-]*$/.exec(text);
+		const feature = match && features.find(feature => feature.name === match[1].toLowerCase());
+		if (feature && feature.values) {
+			return this.getValueEnumProposals(feature, null, result);
+		}
+		if (feature && feature.syntax === '<length>') {
+			return this.getUnitProposals({ name: feature.name, restrictions: ['length'] }, this.findInNodePath(nodes.NodeType.NumericValue), result);
+		}
+		return result;
+	}
+
 	public getCompletionsForExtendsReference(extendsRef: nodes.ExtendsReference, existingNode: nodes.Node | null, result: CompletionList): CompletionList {
 		return result;
 	}
@@ -8,9 +8,12 @@ import * as nodes from '../parser/cssNodes.js';
 import * as languageFacts from '../languageFacts/facts.js';
 import { SelectorPrinting } from './selectorPrinting.js';
 import { startsWith } from '../utils/strings.js';
-import { TextDocument, Range, Position, Hover, MarkedString, MarkupContent, MarkupKind, ClientCapabilities, HoverSettings } from '../cssLanguageTypes.js';
+import { TextDocument, Range, Position, Hover, MarkedString, MarkupContent, MarkupKind, ClientCapabilities, HoverSettings, IDescriptorData, IPropertyData } from '../cssLanguageTypes.js';
 import { isDefined } from '../utils/objects.js';
 import { CSSDataManager } from '../languageFacts/dataManager.js';
+import { contrastThresholds, getContrastPair } from './colorContrast.js';
+import { Symbols } from '../parser/cssSymbolScope.js';
+import * as l10n from '@vscode/l10n';
 
 export class CSSHover {
 	private supportsMarkdown: boolean | undefined;
@@ -86,7 +89,8 @@ export class CSSHover {
 
 			if (node instanceof nodes.Declaration) {
 				const propertyName = node.getFullPropertyName();
-				const entry = this.cssDataManager.getProperty(propertyName);
+				const atRule = node.getParent()?.getParent();
+				const entry = atRule instanceof nodes.DescriptorAtRule ? this.getDescriptor(atRule, propertyName) : this.cssDataManager.getProperty(propertyName);
 				if (entry) {
 					const contents = languageFacts.getEntryDescription(entry, this.doesSupportMarkdown(), settings);
 					if (contents) {
@@ -98,10 +102,19 @@ export class CSSHover {
 						hover = null;
 					}
 				}
+				const contrast = getContrastDescription(node);
+				if (contrast) {
+					const value: string = hover && MarkupContent.is(hover.contents) ? `${hover.contents.value}\n\n${contrast}` : contrast;
+					hover = {
+						contents: { kind: this.doesSupportMarkdown() ? MarkupKind.Markdown : MarkupKind.PlainText, value },
+						range: getRange(node),
+					};
+				}
 				continue;
 			}
 
-			if (node instanceof nodes.UnknownAtRule) {
+			const isDescriptorAtRuleKeyword = node.parent instanceof nodes.DescriptorAtRule && node === node.parent.getKeyword();
+			if (node instanceof nodes.UnknownAtRule || isDescriptorAtRuleKeyword) {
 				const atRuleName = node.getText();
 				const entry = this.cssDataManager.getAtDirective(atRuleName);
 				if (entry) {
@@ -134,6 +147,17 @@ export class CSSHover {
 				}
 				continue;
 			}
+
+			if (node instanceof nodes.Identifier && (node.parent instanceof nodes.Function || node.parent instanceof nodes.AtApplyRule) && startsWith(node.getText(), '--')) {
+				const signature = getCustomFunctionSignature(stylesheet, node);
+				if (signature) {
+					hover = {
+						contents: [{ language: 'css', value: signature }],
+						range: getRange(node),
+					};
+				}
+				break;
+			}
 		}
 
 		if (hover) {
@@ -143,6 +167,14 @@ export class CSSHover {
 		return hover;
 	}
 
+	/**
+	 * The descriptor of the at-rule, or the property for descriptors without description, such as the properties of `@position-try`
+	 */
+	private getDescriptor(atRule: nodes.DescriptorAtRule, name: string): IDescriptorData | IPropertyData | undefined {
+		const descriptor = this.cssDataManager.getAtRuleDescriptors(atRule.getAtRuleName())?.find(descriptor => descriptor.name === name.toLowerCase());
+		return descriptor && !descriptor.description ? this.cssDataManager.getProperty(descriptor.name) || descriptor : descriptor;
+	}
+
 	private convertContents(contents: MarkupContent | MarkedString | MarkedString[]): MarkupContent | MarkedString | MarkedString[] {
 		if (!this.doesSupportMarkdown()) {
 			if (typeof contents === 'string') {
@@ -183,3 +215,39 @@ export class CSSHover {
 		return <boolean>this.supportsMarkdown;
 	}
 }
+
+/**
+ * The signature of the custom function or mixin that is invoked, e.g. `@function --fluid(--min <length>, --max <length>) returns <length>`
+ */
+function getCustomFunctionSignature(stylesheet: nodes.Stylesheet, node: nodes.Identifier): string | undefined {
+	const symbol = new Symbols(stylesheet).findSymbolFromNode(node);
+	const declaration = symbol && symbol.node;
+	if (!(declaration instanceof nodes.FunctionDeclaration) && !(declaration instanceof nodes.MixinDeclaration)) {
+		return undefined;
+	}
+	const body = declaration.getDeclarations();
+	const text = body ? declaration.getText().substring(0, body.offset - declaration.offset) : declaration.getText();
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The WCAG 2 contrast ratio of the text and background colors of the block, for the declarations of these colors
+ */
+function getContrastDescription(declaration: nodes.Declaration): string | undefined {
+	const pair = declaration.getParent() && getContrastPair(declaration.getParent()!);
+	if (!pair || (pair.foreground !== declaration && pair.background !== declaration)) {
+		return undefined;
+	}
+	const ratio = languageFacts.getContrastRatio(pair.foregroundColor, pair.backgroundColor);
+	let level: string;
+	if (ratio >= contrastThresholds['AAA'].ratio) {
+		level = 'AAA';
+	} else if (ratio >= contrastThresholds['AA'].ratio) {
+		level = 'AA';
+	} else if (ratio >= 3) {
+		level = l10n.t('AA for large text');
+	} else {
+		level = l10n.t('below AA');
+	}
+	return l10n.t("Contrast ratio: {0}:1 ({1})", ratio.toFixed(2), level);
+}
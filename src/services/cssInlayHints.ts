@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { Symbol, Symbols } from '../parser/cssSymbolScope.js';
+import { SelectorPrinting } from './selectorPrinting.js';
+import { TextDocument, Range, InlayHint, InlayHintSettings } from '../cssLanguageTypes.js';
+import { CSSDataManager } from '../languageFacts/dataManager.js';
+import * as l10n from '@vscode/l10n';
+
+const maxValueLength = 30;
+
+export class CSSInlayHints {
+	private readonly selectorPrinting: SelectorPrinting;
+	private defaultSettings?: InlayHintSettings;
+
+	constructor(cssDataManager: CSSDataManager) {
+		this.selectorPrinting = new SelectorPrinting(cssDataManager);
+	}
+
+	public configure(settings: InlayHintSettings | undefined) {
+		this.defaultSettings = settings;
+	}
+
+	public getInlayHints(document: TextDocument, range: Range, stylesheet: nodes.Stylesheet, settings = this.defaultSettings): InlayHint[] {
+		const start = document.offsetAt(range.start);
+		const end = document.offsetAt(range.end);
+		const showVariableValues = settings?.variableValues !== false;
+		const showSelectorSpecificity = settings?.selectorSpecificity !== false;
+		const showPixelConversions = settings?.pixelConversions !== false;
+		const baseFontSize = settings?.baseFontSize || 16;
+
+		const symbols = new Symbols(stylesheet);
+		const result: InlayHint[] = [];
+		const addHint = (offset: number, label: string, tooltip: string) => {
+			result.push({ position: document.positionAt(offset), label, tooltip, paddingLeft: true });
+		};
+
+		stylesheet.accept(node => {
+			if (node.offset > end || node.end < start) {
+				return false;
+			}
+			switch (node.type) {
+				case nodes.NodeType.Selector:
+					if (showSelectorSpecificity && node.end >= start && node.end <= end) {
+						const specificity = this.selectorPrinting.selectorToSpecificity(node);
+						addHint(node.end, `(${specificity.id}, ${specificity.attr}, ${specificity.tag})`, l10n.t('Selector Specificity'));
+					}
+					return false;
+				case nodes.NodeType.VariableName:
+				case nodes.NodeType.Identifier:
+					if (showVariableValues && isVariableReference(node)) {
+						// the value of a custom property is shown after the `var()` function
+						const varFunction = node instanceof nodes.Identifier ? node.findAParent(nodes.NodeType.Function) : null;
+						const offset = varFunction ? varFunction.end : node.end;
+						const value = offset >= start && offset <= end ? this.getVariableValue(symbols, node) : undefined;
+						if (value) {
+							addHint(offset, '= ' + (value.length > maxValueLength ? value.substring(0, maxValueLength) + '…' : value), value);
+						}
+					}
+					break;
+				case nodes.NodeType.NumericValue:
+					if (showPixelConversions && node.end >= start && node.end <= end) {
+						const match = /^([+-]?(?:\d+\.?\d*|\.\d+))(r?em)$/i.exec(node.getText());
+						if (match) {
+							const pixels = Math.round(parseFloat(match[1]) * baseFontSize * 100) / 100;
+							const tooltip = match[2].toLowerCase() === 'rem'
+								? l10n.t('Based on a root font size of {0}px', baseFontSize)
+								: l10n.t('Based on a font size of {0}px', baseFontSize);
+							addHint(node.end, `= ${pixels}px`, tooltip);
+						}
+					}
+					break;
+			}
+			return true;
+		});
+		return result;
+	}
+
+	/**
+	 * Returns the value of the variable, following variables that are defined as another variable.
+	 */
+	private getVariableValue(symbols: Symbols, node: nodes.Node): string | undefined {
+		let symbol: Symbol | null = symbols.findSymbolFromNode(node);
+		const visited = new Set<Symbol>();
+		while (symbol && symbol.value !== undefined && !visited.has(symbol)) {
+			if (symbol.node instanceof nodes.FunctionParameter) {
+				return undefined; // the default value of a parameter is not necessarily the value
+			}
+			visited.add(symbol);
+			const value = symbol.value.trim().replace(/\s+/g, ' ');
+			const reference = /^(?:[$@][\w-]+|var\(\s*(--[\w-]+)\s*\))$/.exec(value);
+			if (!reference) {
+				return value;
+			}
+			const next = symbols.findSymbol(reference[1] || value, nodes.ReferenceType.Variable, symbol.node.offset);
+			if (!next || next.value === undefined) {
+				return value;
+			}
+			symbol = next;
+		}
+		return undefined;
+	}
+}
+
+function isVariableReference(node: nodes.Node): boolean {
+	if (node instanceof nodes.Variable) {
+		const parent = node.parent;
+		return !(parent instanceof nodes.VariableDeclaration && parent.getVariable() === node)
+			&& !(parent instanceof nodes.FunctionParameter)
+			&& !(parent instanceof nodes.ForStatement)
+			&& !(parent?.parent instanceof nodes.EachStatement)
+			&& !(node.parent instanceof nodes.Module);
+	}
+	if (node instanceof nodes.Identifier && node.isCustomProperty) {
+		const varFunction = node.findAParent(nodes.NodeType.Function);
+		return varFunction instanceof nodes.Function && varFunction.getName().toLowerCase() === 'var';
+	}
+	return false;
+}
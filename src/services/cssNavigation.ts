@@ -6,15 +6,24 @@
 
 import {
 	AliasSettings, Color, ColorInformation, ColorPresentation, DocumentHighlight, DocumentHighlightKind, DocumentLink, Location,
-	Position, Range, SymbolInformation, SymbolKind, TextEdit, WorkspaceEdit, TextDocument, DocumentContext, FileSystemProvider, FileType, DocumentSymbol
+	Position, Range, SymbolInformation, SymbolKind, TextEdit, WorkspaceEdit, TextDocument, DocumentContext, FileSystemProvider, FileType, DocumentSymbol,
+	DocumentUri, WorkspaceContext
 } from '../cssLanguageTypes.js';
 import * as l10n from '@vscode/l10n';
 import * as nodes from '../parser/cssNodes.js';
-import { Symbols } from '../parser/cssSymbolScope.js';
+import { Parser } from '../parser/cssParser.js';
+import { SCSSParser } from '../parser/scssParser.js';
+import { LESSParser } from '../parser/lessParser.js';
+import { Symbols, isAnchorNameDeclaration, isContainerNameDeclaration, isViewTransitionNameDeclaration } from '../parser/cssSymbolScope.js';
+import { ModuleGraph, getSigil, isMemberReferenceNode } from './moduleGraph.js';
+import { isExtendedPlaceholder, isKeyframeReference } from './unusedDeclarations.js';
+import { getReferencedColor } from './colorReferences.js';
 import {
+	colorSpaceFromColor,
 	getColorValue,
 	hslFromColor,
 	hwbFromColor,
+	isColorInGamut,
 	labFromColor,
 	lchFromColor,
 	oklabFromColor,
@@ -26,15 +35,19 @@ import { dirname, joinPath } from '../utils/resources.js';
 
 type UnresolvedLinkData = { link: DocumentLink, isRawLink: boolean };
 
+type MemberLocation = { location: Location, prefix: string };
+
 type DocumentSymbolCollector = (name: string, kind: SymbolKind, symbolNodeOrRange: nodes.Node | Range, nameNodeOrRange: nodes.Node | Range | undefined, bodyNode: nodes.Node | undefined) => void;
 
+const stylesheetLanguageIds = ['css', 'scss', 'less'];
+
 const startsWithSchemeRegex = /^\w+:\/\//;
 const startsWithData = /^data:/;
 
 export class CSSNavigation {
 	protected defaultSettings?: AliasSettings;
 
-	constructor(protected fileSystemProvider: FileSystemProvider | undefined, private readonly resolveModuleReferences: boolean) {
+	constructor(protected fileSystemProvider: FileSystemProvider | undefined, private readonly resolveModuleReferences: boolean, protected readonly parser: Parser = new Parser()) {
 	}
 
 	public configure(settings: AliasSettings | undefined) {
@@ -62,6 +75,22 @@ export class CSSNavigation {
 		};
 	}
 
+	public async findDefinition2(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet, documentContext: DocumentContext): Promise<Location | null> {
+		const node = nodes.getNodeAtOffset(stylesheet, document.offsetAt(position));
+		if (!node || !isMemberReferenceNode(node)) {
+			return this.findDefinition(document, position, stylesheet);
+		}
+		const graph = this.createModuleGraph(documentContext);
+		const member = await graph.resolveMember(graph.addDocument(document, stylesheet), node);
+		if (!member) {
+			return null;
+		}
+		return {
+			uri: member.module.document.uri,
+			range: getRange(member.symbol.node, member.module.document)
+		};
+	}
+
 	public findReferences(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet): Location[] {
 		const highlights = this.findDocumentHighlights(document, position, stylesheet);
 		return highlights.map(h => {
@@ -72,6 +101,230 @@ export class CSSNavigation {
 		});
 	}
 
+	public async findReferences2(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext): Promise<Location[]> {
+		const references = await this.findMemberReferences(document, position, stylesheet, documentContext, workspace);
+		if (!references) {
+			return this.findReferences(document, position, stylesheet);
+		}
+		return references.map(r => r.location);
+	}
+
+	private async findMemberReferences(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet, documentContext: DocumentContext, workspace: WorkspaceContext = {}): Promise<MemberLocation[] | null> {
+		const node = this.getHighlightNode(document, position, stylesheet);
+		if (!node || !isMemberReferenceNode(node)) {
+			return null;
+		}
+
+		const graph = this.createModuleGraph(documentContext);
+		const uris = new Set<DocumentUri>([document.uri]);
+		for (const uri of await this.addWorkspace(graph, document, workspace)) {
+			uris.add(uri);
+		}
+
+		const target = await graph.resolveMember(graph.addDocument(document, stylesheet), node);
+		if (!target) {
+			return null;
+		}
+		uris.add(target.module.document.uri);
+
+		const name = target.symbol.name;
+		const bareName = name.substring(getSigil(name).length);
+		const result: MemberLocation[] = [];
+		for (const uri of uris) {
+			const module = await graph.getModule(uri, document.languageId);
+			if (!module) {
+				continue;
+			}
+			const candidates: nodes.Node[] = [];
+			module.stylesheet.accept(candidate => {
+				if (isMemberReferenceNode(candidate) && candidate.endsWith(bareName)) {
+					candidates.push(candidate);
+				}
+				return true;
+			});
+			for (const candidate of candidates) {
+				const member = await graph.resolveMember(module, candidate);
+				if (member && member.symbol === target.symbol) {
+					result.push({
+						location: { uri, range: getRange(candidate, module.document) },
+						prefix: member.prefix
+					});
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the declarations among `declarations` that are referenced from the other stylesheets of the workspace: variables, mixins
+	 * and functions through the links to the document, keyframes and placeholder selectors by name. Keyframes are also looked up
+	 * in the stylesheets of the other languages.
+	 */
+	public async findReferencedDeclarations(document: TextDocument, stylesheet: nodes.Stylesheet, declarations: nodes.Node[], documentContext: DocumentContext, workspace: WorkspaceContext = {}): Promise<Set<nodes.Node>> {
+		const graph = this.createModuleGraph(documentContext);
+		const documentModule = graph.addDocument(document, stylesheet);
+		const uris = await this.addWorkspace(graph, document, workspace);
+
+		const pending = new Set(declarations);
+		const result = new Set<nodes.Node>();
+		const markReferenced = (declaration: nodes.Node) => {
+			pending.delete(declaration);
+			result.add(declaration);
+		};
+		const findByName = (name: string, type: nodes.NodeType) => {
+			for (const declaration of pending) {
+				const declarationName = declaration instanceof nodes.Keyframe ? declaration.getName() : declaration.getText();
+				if (declaration.type === type && declarationName === name) {
+					markReferenced(declaration);
+				}
+			}
+		};
+
+		for (const uri of uris) {
+			const module = pending.size ? await graph.getModule(uri, document.languageId) : null;
+			if (!module) {
+				continue;
+			}
+			const candidates: nodes.Node[] = [];
+			module.stylesheet.accept(candidate => {
+				if (isKeyframeReference(candidate)) {
+					findByName(candidate.getText(), nodes.NodeType.Keyframe);
+				} else if (isExtendedPlaceholder(candidate)) {
+					findByName(candidate.getText(), nodes.NodeType.Selector);
+				} else if (isMemberReferenceNode(candidate)) {
+					candidates.push(candidate);
+				}
+				return true;
+			});
+			for (const candidate of candidates) {
+				const member = pending.size ? await graph.resolveMember(module, candidate) : null;
+				if (member && member.module === documentModule && pending.has(member.symbol.node)) {
+					markReferenced(member.symbol.node);
+				}
+			}
+		}
+
+		// keyframes are shared with the stylesheets of the other languages
+		const otherLanguageIds = stylesheetLanguageIds.filter(languageId => languageId !== document.languageId);
+		const hasPendingKeyframes = () => Array.from(pending).some(declaration => declaration.type === nodes.NodeType.Keyframe);
+		if (hasPendingKeyframes()) {
+			await this.visitWorkspaceStylesheets(document, workspace, otherLanguageIds, stylesheet => {
+				stylesheet.accept(candidate => {
+					if (isKeyframeReference(candidate)) {
+						findByName(candidate.getText(), nodes.NodeType.Keyframe);
+					}
+					return true;
+				});
+				return hasPendingKeyframes();
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the names among `names` that a `container-name` or `container` declaration of the other stylesheets of the workspace declares.
+	 * The stylesheets of all languages are searched: a Sass or Less stylesheet can query a container that a CSS stylesheet declares.
+	 */
+	public async findDeclaredContainerNames(document: TextDocument, names: string[], workspace: WorkspaceContext = {}): Promise<Set<string>> {
+		const pending = new Set(names);
+		const result = new Set<string>();
+		await this.visitWorkspaceStylesheets(document, workspace, stylesheetLanguageIds, stylesheet => {
+			stylesheet.accept(candidate => {
+				if (isContainerNameDeclaration(candidate) && pending.has(candidate.getText())) {
+					pending.delete(candidate.getText());
+					result.add(candidate.getText());
+				}
+				return true;
+			});
+			return pending.size > 0;
+		});
+		return result;
+	}
+
+	/**
+	 * Parses the stylesheets of the workspace in the given languages, other than the document, each with the parser of its own language,
+	 * and passes them to `visit` until it returns false.
+	 */
+	private async visitWorkspaceStylesheets(document: TextDocument, workspace: WorkspaceContext, languageIds: string[], visit: (stylesheet: nodes.Stylesheet) => boolean): Promise<void> {
+		const documents = (workspace.documents || []).filter(workspaceDocument => workspaceDocument.uri !== document.uri && languageIds.indexOf(workspaceDocument.languageId) !== -1);
+		const uris = new Set<DocumentUri>();
+		for (const folder of workspace.folders || []) {
+			for (const languageId of languageIds) {
+				for (const uri of await this.findStylesheets(folder, `.${languageId}`)) {
+					if (uri !== document.uri && !(workspace.documents || []).some(workspaceDocument => workspaceDocument.uri === uri)) {
+						uris.add(uri);
+					}
+				}
+			}
+		}
+
+		const parse = (stylesheetDocument: TextDocument) => {
+			const parser = stylesheetDocument.languageId === document.languageId ? this.parser : createParser(stylesheetDocument.languageId);
+			return parser.parseStylesheet(stylesheetDocument);
+		};
+		for (const workspaceDocument of documents) {
+			if (!visit(parse(workspaceDocument))) {
+				return;
+			}
+		}
+		for (const uri of uris) {
+			const content = await this.getContent(uri);
+			if (content !== null && !visit(parse(TextDocument.create(uri, uri.substring(uri.lastIndexOf('.') + 1), 0, content)))) {
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Adds the workspace documents to the graph and returns the URIs of the workspace stylesheets in the language of the document, other than the document.
+	 */
+	public async addWorkspace(graph: ModuleGraph, document: TextDocument, workspace: WorkspaceContext): Promise<Set<DocumentUri>> {
+		const uris = new Set<DocumentUri>();
+		for (const workspaceDocument of workspace.documents || []) {
+			if (workspaceDocument.uri !== document.uri && workspaceDocument.languageId === document.languageId) {
+				graph.addDocument(workspaceDocument);
+				uris.add(workspaceDocument.uri);
+			}
+		}
+		for (const folder of workspace.folders || []) {
+			for (const uri of await this.findStylesheets(folder, `.${document.languageId}`)) {
+				if (uri !== document.uri) {
+					uris.add(uri);
+				}
+			}
+		}
+		return uris;
+	}
+
+	private async findStylesheets(folderUri: DocumentUri, extension: string): Promise<DocumentUri[]> {
+		if (!this.fileSystemProvider || !this.fileSystemProvider.readDirectory) {
+			return [];
+		}
+		let entries: [string, FileType][];
+		try {
+			entries = await this.fileSystemProvider.readDirectory(folderUri);
+		} catch (e) {
+			return [];
+		}
+		const result: DocumentUri[] = [];
+		for (const [name, type] of entries) {
+			if (type === FileType.Directory && name !== 'node_modules' && !startsWith(name, '.')) {
+				result.push(...await this.findStylesheets(joinPath(folderUri, name), extension));
+			} else if (type === FileType.File && name.endsWith(extension)) {
+				result.push(joinPath(folderUri, name));
+			}
+		}
+		return result;
+	}
+
+	public createModuleGraph(documentContext: DocumentContext): ModuleGraph {
+		return new ModuleGraph(
+			this.parser,
+			(target, documentUri) => this.resolveReference(target, documentUri, documentContext, true),
+			uri => this.getContent(uri)
+		);
+	}
+
 	private getHighlightNode(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet): nodes.Node | undefined {
 		const offset = document.offsetAt(position);
 		let node = nodes.getNodeAtOffset(stylesheet, offset);
@@ -293,6 +546,10 @@ export class CSSNavigation {
 			} else if (node instanceof nodes.FontFace) {
 				const name = l10n.t("@font-face");
 				collect(name, SymbolKind.Class, node, undefined, node.getDeclarations());
+			} else if (node instanceof nodes.DescriptorAtRule && node.getIdentifier()) {
+				// @counter-style, @font-feature-values, @font-palette-values and @position-try
+				const name = node.getAtRuleName() + ' ' + node.getName();
+				collect(name, SymbolKind.Class, node, node.getIdentifier(), node.getDeclarations());
 			} else if (node instanceof nodes.Media) {
 				const mediaList = node.getChild(0);
 				if (mediaList instanceof nodes.Medialist) {
@@ -321,10 +578,16 @@ export class CSSNavigation {
 
 	public findDocumentColors(document: TextDocument, stylesheet: nodes.Stylesheet): ColorInformation[] {
 		const result: ColorInformation[] = [];
+		const symbols = new Symbols(stylesheet);
 		stylesheet.accept((node) => {
 			const colorInfo = getColorInformation(node, document);
 			if (colorInfo) {
 				result.push(colorInfo);
+			} else {
+				const referencedColor = getReferencedColor(node, symbols);
+				if (referencedColor) {
+					result.push({ color: referencedColor.color, range: getRange(node, document) });
+				}
 			}
 			return true;
 		});
@@ -333,6 +596,13 @@ export class CSSNavigation {
 
 	public getColorPresentations(document: TextDocument, stylesheet: nodes.Stylesheet, color: Color, range: Range): ColorPresentation[] {
 		const result: ColorPresentation[] = [];
+		let colorNode = this.getColorNodeAtRange(document, stylesheet, range);
+		const referencedColor = colorNode && getReferencedColor(colorNode, new Symbols(stylesheet));
+		if (referencedColor) {
+			// the color of a variable is edited where it is defined
+			colorNode = referencedColor.definition;
+			range = getRange(colorNode, document);
+		}
 		const red256 = Math.round(color.red * 255), green256 = Math.round(color.green * 255), blue256 = Math.round(color.blue * 255);
 
 		let label;
@@ -390,9 +660,24 @@ export class CSSNavigation {
 		label = (oklch.alpha === 1) ? `oklch(${oklch.l}% ${oklch.c} ${oklch.h})` : `oklch(${oklch.l}% ${oklch.c} ${oklch.h} / ${oklch.alpha})`;
 		result.push({ label: label, textEdit: TextEdit.replace(range, label) });
 
+		const p3 = colorSpaceFromColor(color, 'display-p3').map(value => Number(value.toFixed(4))).join(' ');
+		label = (color.alpha === 1) ? `color(display-p3 ${p3})` : `color(display-p3 ${p3} / ${color.alpha})`;
+		result.push({ label: label, textEdit: TextEdit.replace(range, label) });
+
+		// the picked color is an sRGB color: mark the presentations if the color in the document is clipped
+		if (colorNode && !isColorInGamut(colorNode)) {
+			for (const presentation of result) {
+				presentation.label = l10n.t('{0} (out of sRGB gamut)', presentation.label);
+			}
+		}
 		return result;
 	}
 
+	private getColorNodeAtRange(document: TextDocument, stylesheet: nodes.Stylesheet, range: Range): nodes.Node | undefined {
+		const offset = document.offsetAt(range.start), end = document.offsetAt(range.end);
+		return nodes.getNodePath(stylesheet, offset).reverse().find(node => node.offset === offset && node.end === end);
+	}
+
 	public prepareRename(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet): Range | undefined {
 		const node = this.getHighlightNode(document, position, stylesheet);
 		if (node) {
@@ -408,6 +693,29 @@ export class CSSNavigation {
 		};
 	}
 
+	public async doRename2(document: TextDocument, position: Position, newName: string, stylesheet: nodes.Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext): Promise<WorkspaceEdit> {
+		const references = await this.findMemberReferences(document, position, stylesheet, documentContext, workspace);
+		if (!references || !references.length) {
+			return this.doRename(document, position, newName, stylesheet);
+		}
+
+		// The new name is given as seen from the renamed reference, which might carry the prefix of a `@forward ... as prefix-*`
+		const offset = document.offsetAt(position);
+		const origin = references.find(r => r.location.uri === document.uri && document.offsetAt(r.location.range.start) <= offset && document.offsetAt(r.location.range.end) >= offset);
+		const sigil = getSigil(newName);
+		let bareName = newName.substring(sigil.length);
+		if (origin && origin.prefix && startsWith(bareName, origin.prefix)) {
+			bareName = bareName.substring(origin.prefix.length);
+		}
+
+		const changes: { [uri: DocumentUri]: TextEdit[] } = {};
+		for (const reference of references) {
+			const edits = changes[reference.location.uri] || (changes[reference.location.uri] = []);
+			edits.push(TextEdit.replace(reference.location.range, sigil + reference.prefix + bareName));
+		}
+		return { changes };
+	}
+
 	protected async resolveModuleReference(ref: string, documentUri: string, documentContext: DocumentContext): Promise<string | undefined> {
 		if (startsWith(documentUri, 'file://')) {
 			const moduleName = getModuleNameFromPath(ref);
@@ -521,6 +829,17 @@ export class CSSNavigation {
 
 }
 
+function createParser(languageId: string): Parser {
+	switch (languageId) {
+		case 'scss':
+			return new SCSSParser();
+		case 'less':
+			return new LESSParser();
+		default:
+			return new Parser();
+	}
+}
+
 function getColorInformation(node: nodes.Node, document: TextDocument): ColorInformation | null {
 	const color = getColorValue(node);
 	if (color) {
@@ -569,6 +888,9 @@ function getHighlightKind(node: nodes.Node): DocumentHighlightKind {
 				return DocumentHighlightKind.Write;
 			}
 		}
+		if (isAnchorNameDeclaration(node) || isViewTransitionNameDeclaration(node) || isContainerNameDeclaration(node)) {
+			return DocumentHighlightKind.Write;
+		}
 	}
 
 	if (node.parent) {
@@ -576,6 +898,7 @@ function getHighlightKind(node: nodes.Node): DocumentHighlightKind {
 			case nodes.NodeType.FunctionDeclaration:
 			case nodes.NodeType.MixinDeclaration:
 			case nodes.NodeType.Keyframe:
+			case nodes.NodeType.PositionTry:
 			case nodes.NodeType.VariableDeclaration:
 			case nodes.NodeType.FunctionParameter:
 				return DocumentHighlightKind.Write;
@@ -0,0 +1,202 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { TextDocument, Range, SemanticTokens, SemanticTokensLegend, EntryStatus } from '../cssLanguageTypes.js';
+import { CSSDataManager } from '../languageFacts/dataManager.js';
+
+const tokenTypes = ['property', 'customProperty', 'variable', 'mixin', 'function', 'classSelector', 'idSelector', 'elementSelector', 'pseudoSelector', 'atRule', 'unit'];
+const tokenModifiers = ['declaration', 'deprecated', 'obsolete', 'unknown'];
+
+type TokenType = 'property' | 'customProperty' | 'variable' | 'mixin' | 'function' | 'classSelector' | 'idSelector' | 'elementSelector' | 'pseudoSelector' | 'atRule' | 'unit';
+type TokenModifier = 'declaration' | 'deprecated' | 'obsolete' | 'unknown';
+
+interface SemanticToken {
+	offset: number;
+	length: number;
+	type: TokenType;
+	modifiers: TokenModifier[];
+}
+
+export class CSSSemanticTokens {
+
+	constructor(private readonly cssDataManager: CSSDataManager) {
+	}
+
+	public getSemanticTokenLegend(): SemanticTokensLegend {
+		return { tokenTypes, tokenModifiers };
+	}
+
+	public getSemanticTokens(document: TextDocument, stylesheet: nodes.Stylesheet, range?: Range): SemanticTokens {
+		const start = range ? document.offsetAt(range.start) : 0;
+		const end = range ? document.offsetAt(range.end) : document.getText().length;
+		const text = document.getText();
+
+		const tokens: SemanticToken[] = [];
+		stylesheet.accept(node => {
+			if (node.offset > end || node.end < start) {
+				return false;
+			}
+			this.collectTokens(node, text, tokens);
+			return true;
+		});
+
+		tokens.sort((t1, t2) => t1.offset - t2.offset);
+		return { data: this.encodeTokens(document, tokens.filter(t => t.offset < end && t.offset + t.length > start)) };
+	}
+
+	private collectTokens(node: nodes.Node, text: string, tokens: SemanticToken[]): void {
+		const add = (offset: number, length: number, type: TokenType, modifiers: TokenModifier[] = []) => {
+			if (length > 0 && text.substring(offset, offset + length).indexOf('\n') === -1) {
+				tokens.push({ offset, length, type, modifiers });
+			}
+		};
+
+		switch (node.type) {
+			case nodes.NodeType.Property: {
+				const property = <nodes.Property>node;
+				const identifier = property.getIdentifier();
+				if (!identifier || identifier.hasChildren()) {
+					break; // interpolated property names
+				}
+				if (property.isCustomProperty()) {
+					add(identifier.offset, identifier.length, 'customProperty', property.parent instanceof nodes.CustomPropertyDeclaration ? ['declaration'] : []);
+				} else {
+					const name = getPropertyName(property);
+					const entry = this.cssDataManager.getProperty(name.toLowerCase());
+					add(identifier.offset, identifier.length, 'property', getStatusModifiers(name, entry));
+				}
+				break;
+			}
+			case nodes.NodeType.Identifier: {
+				const identifier = <nodes.Identifier>node;
+				if (identifier.isCustomProperty && !(identifier.parent instanceof nodes.Property)) {
+					add(identifier.offset, identifier.length, 'customProperty', identifier.parent instanceof nodes.PropertyAtRule ? ['declaration'] : []);
+				}
+				break;
+			}
+			case nodes.NodeType.VariableName: {
+				const parent = node.parent;
+				const isDeclaration = parent instanceof nodes.VariableDeclaration && parent.getVariable() === node
+					|| parent instanceof nodes.FunctionParameter
+					|| parent instanceof nodes.ForStatement
+					|| parent?.parent instanceof nodes.EachStatement && parent === (<nodes.EachStatement>parent.parent).getVariables();
+				add(node.offset, node.length, 'variable', isDeclaration ? ['declaration'] : []);
+				break;
+			}
+			case nodes.NodeType.MixinDeclaration:
+			case nodes.NodeType.MixinReference: {
+				const identifier = (<nodes.MixinDeclaration | nodes.MixinReference>node).getIdentifier();
+				if (identifier) {
+					add(identifier.offset, identifier.length, 'mixin', node.type === nodes.NodeType.MixinDeclaration ? ['declaration'] : []);
+				}
+				break;
+			}
+			case nodes.NodeType.FunctionDeclaration:
+			case nodes.NodeType.Function: {
+				const identifier = (<nodes.FunctionDeclaration | nodes.Function>node).getIdentifier();
+				if (identifier && !identifier.hasChildren()) {
+					add(identifier.offset, identifier.length, 'function', node.type === nodes.NodeType.FunctionDeclaration ? ['declaration'] : []);
+				}
+				break;
+			}
+			case nodes.NodeType.ClassSelector:
+			case nodes.NodeType.IdentifierSelector:
+			case nodes.NodeType.ElementNameSelector:
+				if (node.getText().indexOf('{') === -1) { // interpolated selectors
+					add(node.offset, node.length, node.type === nodes.NodeType.ClassSelector ? 'classSelector' : node.type === nodes.NodeType.IdentifierSelector ? 'idSelector' : 'elementSelector');
+				}
+				break;
+			case nodes.NodeType.PseudoSelector: {
+				const name = /^::?[\w-]+/.exec(node.getText());
+				if (name) {
+					const entry = name[0].startsWith('::') ? this.cssDataManager.getPseudoElement(name[0]) : this.cssDataManager.getPseudoClass(name[0]) || this.cssDataManager.getPseudoElement(':' + name[0]);
+					add(node.offset, name[0].length, 'pseudoSelector', getStatusModifiers(name[0].replace(/^::?/, ''), entry));
+				}
+				break;
+			}
+			case nodes.NodeType.NumericValue: {
+				if (node.findAParent(nodes.NodeType.Selector)) {
+					break; // `2n + 1` in `:nth-child`
+				}
+				const number = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(node.getText());
+				if (number) {
+					add(node.offset + number[0].length, node.length - number[0].length, 'unit');
+				}
+				break;
+			}
+		}
+
+		if ((node.parent instanceof nodes.Stylesheet || node.parent instanceof nodes.Declarations) && text.charAt(node.offset) === '@'
+			&& !(node instanceof nodes.VariableDeclaration) && !(node instanceof nodes.MixinReference && !node.getIdentifier())) {
+			const keyword = /^@[\w-]+/.exec(node.getText());
+			if (keyword) {
+				const entry = this.cssDataManager.getAtDirective(keyword[0]);
+				const modifiers = getStatusModifiers(keyword[0], entry);
+				add(node.offset, keyword[0].length, 'atRule', node.type === nodes.NodeType.UnknownAtRule ? modifiers : modifiers.filter(m => m !== 'unknown'));
+			}
+		} else if (node.type === nodes.NodeType.Else || node.type === nodes.NodeType.If && node.parent?.type === nodes.NodeType.If) {
+			// the `@else` keyword is not part of the else statement or the nested if statement
+			const elseKeyword = /@else\s*$/.exec(text.substring(Math.max(0, node.offset - 20), node.offset));
+			if (elseKeyword) {
+				add(node.offset - elseKeyword[0].length, '@else'.length, 'atRule');
+			}
+		}
+	}
+
+	private encodeTokens(document: TextDocument, tokens: SemanticToken[]): number[] {
+		const data: number[] = [];
+		let prevLine = 0;
+		let prevCharacter = 0;
+		let prevEnd = -1;
+		for (const token of tokens) {
+			if (token.offset < prevEnd) {
+				continue; // tokens must not overlap
+			}
+			const position = document.positionAt(token.offset);
+			const deltaLine = position.line - prevLine;
+			const deltaCharacter = deltaLine === 0 ? position.character - prevCharacter : position.character;
+			let modifierSet = 0;
+			for (const modifier of token.modifiers) {
+				modifierSet |= 1 << tokenModifiers.indexOf(modifier);
+			}
+			data.push(deltaLine, deltaCharacter, token.length, tokenTypes.indexOf(token.type), modifierSet);
+			prevLine = position.line;
+			prevCharacter = position.character;
+			prevEnd = token.offset + token.length;
+		}
+		return data;
+	}
+}
+
+/**
+ * The name of the property, taking Sass nested properties like `font: { family: x }` into account.
+ */
+function getPropertyName(property: nodes.Property): string {
+	const declaration = property.parent;
+	const nestedProperties = declaration?.parent?.parent;
+	if (nestedProperties instanceof nodes.NestedProperties && nestedProperties.parent instanceof nodes.Declaration) {
+		const parentProperty = nestedProperties.parent.getProperty();
+		if (parentProperty) {
+			return getPropertyName(parentProperty) + '-' + property.getName();
+		}
+	}
+	return property.getName();
+}
+
+function getStatusModifiers(name: string, entry: { status?: EntryStatus } | undefined): TokenModifier[] {
+	if (!entry) {
+		// vendor specific names are only partially covered by the data
+		return name.charAt(0) === '-' || name.charAt(1) === '-' ? [] : ['unknown'];
+	}
+	switch (entry.status) {
+		case 'nonstandard':
+			return ['deprecated'];
+		case 'obsolete':
+			return ['deprecated', 'obsolete'];
+	}
+	return [];
+}
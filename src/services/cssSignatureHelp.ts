@@ -0,0 +1,230 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import * as languageFacts from '../languageFacts/facts.js';
+import { Symbols } from '../parser/cssSymbolScope.js';
+import { TextDocument, Position, SignatureHelp, SignatureInformation, ParameterInformation } from '../cssLanguageTypes.js';
+
+export class CSSSignatureHelp {
+
+	public doSignatureHelp(document: TextDocument, position: Position, stylesheet: nodes.Stylesheet): SignatureHelp | null {
+		const offset = document.offsetAt(position);
+		const text = document.getText();
+		// an unclosed call ends with its last argument, before the whitespace that precedes the offset
+		let start = offset;
+		while (start > 0 && /\s/.test(text.charAt(start - 1))) {
+			start--;
+		}
+		const nodepath = nodes.getNodePath(stylesheet, start);
+
+		for (let i = nodepath.length - 1; i >= 0; i--) {
+			const node = nodepath[i];
+			if (!(node instanceof nodes.Function) && !(node instanceof nodes.MixinReference) && !(node instanceof nodes.AtApplyRule)) {
+				continue;
+			}
+			const identifier = node.getIdentifier();
+			const openParen = identifier ? text.indexOf('(', identifier.end) : -1;
+			if (openParen === -1 || text.substring(identifier!.end, openParen).trim() || offset <= openParen) {
+				continue;
+			}
+			const args = node.getArguments().getChildren();
+			const lastArg = args[args.length - 1];
+			if (text.charAt(node.end - 1) === ')' && (!lastArg || lastArg.end < node.end) && offset >= node.end) {
+				continue; // closed, unless the parenthesis closes the last argument, like in `rgb(calc(1 + 2) |`
+			}
+
+			const argIndex = getArgumentIndex(args, offset, text);
+			const userSignature = this.getUserDefinedSignature(stylesheet, node, identifier!);
+			if (userSignature) {
+				const argument = args.find(arg => arg.offset <= offset && offset <= arg.end);
+				const argumentName = argument instanceof nodes.FunctionArgument ? argument.getName() : getEmptyArgumentName(args, offset, openParen, text);
+				const namedIndex = argumentName ? userSignature.names.indexOf(argumentName) : -1;
+				return {
+					signatures: [userSignature.signature],
+					activeSignature: 0,
+					activeParameter: namedIndex !== -1 ? namedIndex : getParameterIndex(userSignature.signature, argIndex)
+				};
+			}
+			if (node instanceof nodes.Function) {
+				const valueIndex = argIndex === 0 && args.length <= 1 ? getValueIndex(args, offset, text) : -1;
+				return this.getBuiltinSignatureHelp(node.getName().toLowerCase(), argIndex, valueIndex);
+			}
+			return null;
+		}
+		return null;
+	}
+
+	private getUserDefinedSignature(stylesheet: nodes.Stylesheet, node: nodes.Function | nodes.MixinReference | nodes.AtApplyRule, identifier: nodes.Identifier): { signature: SignatureInformation; names: string[] } | null {
+		if (node.parent instanceof nodes.Module || node.getChildren().some(child => child instanceof nodes.Module)) {
+			return null; // members of other modules
+		}
+		const symbol = new Symbols(stylesheet).findSymbolFromNode(identifier);
+		const declaration = symbol && symbol.node;
+		if (!(declaration instanceof nodes.MixinDeclaration) && !(declaration instanceof nodes.FunctionDeclaration)) {
+			return null;
+		}
+		const parameterNodes = <nodes.FunctionParameter[]>declaration.getParameters().getChildren();
+		const separator = parameterNodes.length > 1 && declaration.getText().substring(parameterNodes[0].end, parameterNodes[1].offset).indexOf(';') !== -1 ? '; ' : ', ';
+
+		let label = declaration.getName() + '(';
+		const parameters: ParameterInformation[] = [];
+		for (const parameter of parameterNodes) {
+			if (parameters.length) {
+				label += separator;
+			}
+			const parameterLabel = parameter.getText().replace(/\s+/g, ' ');
+			parameters.push({ label: [label.length, label.length + parameterLabel.length] });
+			label += parameterLabel;
+		}
+		label += ')';
+		return {
+			signature: { label, parameters },
+			names: parameterNodes.map(parameter => parameter.getName())
+		};
+	}
+
+	/**
+	 * `valueIndex` is the index of the space-separated value at the offset when the call has no comma, -1 otherwise.
+	 */
+	private getBuiltinSignatureHelp(name: string, argIndex: number, valueIndex: number): SignatureHelp | null {
+		const labels = languageFacts.functionSignatures[name];
+		if (!labels) {
+			return null;
+		}
+		const documentation = getBuiltinDescription(name);
+		const signatures = labels.map(label => {
+			const signature: SignatureInformation = { label, parameters: getParameters(label) };
+			if (documentation) {
+				signature.documentation = documentation;
+			}
+			return signature;
+		});
+		const spaceSeparated = valueIndex !== -1 ? signatures.findIndex(signature => isSpaceSeparated(signature.label)) : -1;
+		if (spaceSeparated !== -1) {
+			return {
+				signatures,
+				activeSignature: spaceSeparated,
+				activeParameter: getParameterIndex(signatures[spaceSeparated], valueIndex)
+			};
+		}
+		let activeSignature = signatures.findIndex(signature => argIndex < signature.parameters!.length || isRestParameter(signature, signature.parameters!.length - 1));
+		if (activeSignature === -1) {
+			activeSignature = signatures.length - 1;
+		}
+		return {
+			signatures,
+			activeSignature,
+			activeParameter: getParameterIndex(signatures[activeSignature], argIndex)
+		};
+	}
+}
+
+/**
+ * The index of the argument at the offset: the number of arguments that are followed by a separator before the offset.
+ */
+function getArgumentIndex(args: nodes.Node[], offset: number, text: string): number {
+	let index = 0;
+	for (const arg of args) {
+		if (arg.end <= offset && /^\s*[,;]/.test(text.substring(arg.end, offset))) {
+			index++;
+		}
+	}
+	return index;
+}
+
+/**
+ * The index of the value at the offset in an argument of space-separated values, like `rgb(1 2 3 / 0.5)`:
+ * the number of values that are followed by a space or `/` before the offset.
+ */
+function getValueIndex(args: nodes.Node[], offset: number, text: string): number {
+	const expression = args.length && args[0] instanceof nodes.FunctionArgument ? args[0].getValue() : args[0];
+	const values: nodes.Node[] = [];
+	for (const child of expression ? expression.getChildren() : []) {
+		const left = child instanceof nodes.BinaryExpression && child.getOperator()?.matches('/') ? child.getLeft() : undefined;
+		const right = child instanceof nodes.BinaryExpression ? child.getRight() : undefined;
+		if (left && right) {
+			values.push(left, right);
+		} else {
+			values.push(child);
+		}
+	}
+	let index = 0;
+	for (const value of values) {
+		if (value.end <= offset && /^[\s/]/.test(text.substring(value.end, offset))) {
+			index++;
+		}
+	}
+	return index;
+}
+
+/**
+ * The name of the named argument without value at the offset, like `$max` in `bp($max: |)`
+ */
+function getEmptyArgumentName(args: nodes.Node[], offset: number, openParen: number, text: string): string {
+	let start = openParen + 1;
+	for (const arg of args) {
+		if (arg.end <= offset) {
+			start = Math.max(start, arg.end);
+		}
+	}
+	const match = /^\s*[,;]?\s*([$@][\w-]+)\s*:\s*$/.exec(text.substring(start, offset));
+	return match ? match[1] : '';
+}
+
+function getParameterIndex(signature: SignatureInformation, argIndex: number): number {
+	const lastIndex = signature.parameters!.length - 1;
+	if (argIndex > lastIndex && isRestParameter(signature, lastIndex)) {
+		return lastIndex;
+	}
+	return argIndex;
+}
+
+function isRestParameter(signature: SignatureInformation, index: number): boolean {
+	const parameter = signature.parameters![index];
+	return !!parameter && signature.label.substring(<number>parameter.label[0], <number>parameter.label[1]).endsWith('...');
+}
+
+/**
+ * Whether the parameters of the signature are separated by spaces and `/`, like in `rgb(<red> <green> <blue> / <alpha>)`
+ */
+function isSpaceSeparated(label: string): boolean {
+	return label.indexOf(',') === -1 && label.indexOf(' / ') !== -1;
+}
+
+function getParameters(label: string): ParameterInformation[] {
+	const parameters: ParameterInformation[] = [];
+	if (isSpaceSeparated(label)) {
+		const parameterPattern = /<[^>]+>/g;
+		let match: RegExpExecArray | null;
+		while ((match = parameterPattern.exec(label)) !== null) {
+			parameters.push({ label: [match.index, match.index + match[0].length] });
+		}
+		return parameters;
+	}
+	let start = label.indexOf('(') + 1;
+	const end = label.lastIndexOf(')');
+	while (start < end) {
+		let separator = label.indexOf(', ', start);
+		if (separator === -1 || separator > end) {
+			separator = end;
+		}
+		parameters.push({ label: [start, separator] });
+		start = separator + 2;
+	}
+	return parameters;
+}
+
+function getBuiltinDescription(name: string): string | undefined {
+	const functionName = name + '()';
+	const description = languageFacts.cssWideFunctions[functionName] || languageFacts.imageFunctions[functionName]
+		|| languageFacts.transitionTimingFunctions[functionName] || languageFacts.basicShapeFunctions[functionName];
+	if (description) {
+		return description;
+	}
+	const colorFunction = languageFacts.colorFunctions.find(colorFunction => colorFunction.label === name);
+	return colorFunction && colorFunction.desc;
+}
@@ -5,16 +5,23 @@
 'use strict';
 
 import * as nodes from '../parser/cssNodes.js';
+import * as l10n from '@vscode/l10n';
 import { LintConfigurationSettings, Rules } from './lintRules.js';
 import { LintVisitor } from './lint.js';
-import { TextDocument, Range, Diagnostic, DiagnosticSeverity, LanguageSettings } from '../cssLanguageTypes.js';
+import { Symbols } from '../parser/cssSymbolScope.js';
+import { CSSNavigation } from './cssNavigation.js';
+import { findUnusedDeclarations, unusedDeclarationRules } from './unusedDeclarations.js';
+import { applySuppressions, findSuppressions } from './lintSuppressions.js';
+import { LintConfigurationCache, getLintSettings, getLintSettingsWithConfiguration } from './lintConfiguration.js';
+import { TextDocument, Range, Diagnostic, DiagnosticSeverity, DiagnosticTag, LanguageSettings, DocumentContext, WorkspaceContext, FileSystemProvider } from '../cssLanguageTypes.js';
 import { CSSDataManager } from '../languageFacts/dataManager.js';
 
 export class CSSValidation {
 
 	private settings?: LanguageSettings;
+	private lintConfigurations: LintConfigurationCache = new Map();
 
-	constructor(private cssDataManager: CSSDataManager) {
+	constructor(private cssDataManager: CSSDataManager, private navigation: CSSNavigation, private fileSystemProvider?: FileSystemProvider) {
 	}
 
 	public configure(settings?: LanguageSettings) {
@@ -25,29 +32,139 @@ export class CSSValidation {
 		if (settings && settings.validate === false) {
 			return [];
 		}
+		const lintSettings = new LintConfigurationSettings(getLintSettings(settings, document.uri));
+		return this.suppressDiagnostics(document, this.collectDiagnostics(document, stylesheet, lintSettings), lintSettings, false);
+	}
+
+	/**
+	 * Like `doValidation`, but also reports the variables, mixins, placeholders and keyframes that other documents could reference,
+	 * and that are neither referenced in the document nor in the workspace stylesheets, and the `@container` names that neither the document
+	 * nor the workspace stylesheets declare. The lint settings are merged with the closest lint configuration file of the document.
+	 * Without workspace documents or folders, these problems are not reported, as in `doValidation`.
+	 */
+	public async doValidation2(document: TextDocument, stylesheet: nodes.Stylesheet, documentContext: DocumentContext, workspace?: WorkspaceContext, settings: LanguageSettings | undefined = this.settings): Promise<Diagnostic[]> {
+		if (settings && settings.validate === false) {
+			return [];
+		}
+
+		const lintSettings = new LintConfigurationSettings(await getLintSettingsWithConfiguration(settings, document.uri, this.fileSystemProvider, this.lintConfigurations));
+		const diagnostics = this.collectDiagnostics(document, stylesheet, lintSettings);
+		const hasWorkspace = isWorkspace(workspace);
+		const candidates = !hasWorkspace ? [] : findUnusedDeclarations(document, stylesheet).filter(declaration => !declaration.isLocal && lintSettings.getRule(declaration.rule) !== nodes.Level.Ignore);
+		if (candidates.length) {
+			const referenced = await this.navigation.findReferencedDeclarations(document, stylesheet, candidates.map(declaration => declaration.node), documentContext, workspace);
+			for (const declaration of candidates) {
+				if (!referenced.has(declaration.node)) {
+					const message = l10n.t("'{0}' is declared but never used in the workspace.", declaration.name);
+					diagnostics.push(toDiagnostic(document, new nodes.Marker(declaration.nameNode, declaration.rule, lintSettings.getRule(declaration.rule), message)));
+				}
+			}
+		}
+		const containerLevel = lintSettings.getRule(Rules.UndeclaredContainer);
+		const containerReferences = hasWorkspace && containerLevel !== nodes.Level.Ignore ? findUndeclaredContainerReferences(stylesheet) : [];
+		if (containerReferences.length) {
+			const declared = await this.navigation.findDeclaredContainerNames(document, containerReferences.map(reference => reference.getText()), workspace);
+			for (const reference of containerReferences) {
+				if (!declared.has(reference.getText())) {
+					const message = l10n.t("Container '{0}' is not declared by a 'container-name' or 'container' in the workspace.", reference.getText());
+					diagnostics.push(toDiagnostic(document, new nodes.Marker(reference, Rules.UndeclaredContainer, containerLevel, message)));
+				}
+			}
+		}
+		return this.suppressDiagnostics(document, diagnostics, lintSettings, hasWorkspace);
+	}
 
+	private collectDiagnostics(document: TextDocument, stylesheet: nodes.Stylesheet, lintSettings: LintConfigurationSettings): Diagnostic[] {
 		const entries: nodes.IMarker[] = [];
 		entries.push.apply(entries, nodes.ParseErrorCollector.entries(stylesheet));
-		entries.push.apply(entries, LintVisitor.entries(stylesheet, document, new LintConfigurationSettings(settings && settings.lint), this.cssDataManager));
+		entries.push.apply(entries, LintVisitor.entries(stylesheet, document, lintSettings, this.cssDataManager));
 
-		const ruleIds: string[] = [];
-		for (const r in Rules) {
-			ruleIds.push(Rules[r as keyof typeof Rules].id);
+		return entries.filter(entry => entry.getLevel() !== nodes.Level.Ignore).map(entry => {
+			const diagnostic = toDiagnostic(document, entry);
+			if (unusedDeclarationRules.some(rule => rule.id === entry.getRule().id)) {
+				diagnostic.tags = [DiagnosticTag.Unnecessary];
+			}
+			return diagnostic;
+		});
+	}
+
+	/**
+	 * Removes the lint problems suppressed by comments, and reports the suppression comments that suppress nothing.
+	 * Without the workspace, the suppressions of the rules that are checked against the workspace are not reported.
+	 */
+	private suppressDiagnostics(document: TextDocument, diagnostics: Diagnostic[], lintSettings: LintConfigurationSettings, hasWorkspace: boolean): Diagnostic[] {
+		const suppressions = findSuppressions(document);
+		if (!suppressions.length) {
+			return diagnostics;
+		}
+		const result = applySuppressions(diagnostics, suppressions, isSuppressibleRule);
+		const level = lintSettings.getRule(Rules.UnusedSuppressions);
+		if (level !== nodes.Level.Ignore) {
+			for (const unused of result.unused) {
+				const { suppression } = unused;
+				const rules = hasWorkspace ? unused.rules : unused.rules.filter(rule => !workspaceRules.has(rule));
+				if (unused.rules.length && !rules.length) {
+					continue;
+				}
+				result.diagnostics.push({
+					code: Rules.UnusedSuppressions.id,
+					source: document.languageId,
+					message: rules.length ? l10n.t("Unused lint suppression for {0}.", rules.map(rule => `'${rule}'`).join(', ')) : Rules.UnusedSuppressions.message,
+					severity: level === nodes.Level.Warning ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+					range: suppression.range,
+					tags: [DiagnosticTag.Unnecessary]
+				});
+			}
 		}
+		return result.diagnostics;
+	}
+}
 
-		function toDiagnostic(marker: nodes.IMarker): Diagnostic {
-			const range = Range.create(document.positionAt(marker.getOffset()), document.positionAt(marker.getOffset() + marker.getLength()));
-			const source = document.languageId;
-
-			return <Diagnostic>{
-				code: marker.getRule().id,
-				source: source,
-				message: marker.getMessage(),
-				severity: marker.getLevel() === nodes.Level.Warning ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
-				range: range
-			};
+/**
+ * The container names of the `@container` rules that are not declared in the document
+ */
+function findUndeclaredContainerReferences(stylesheet: nodes.Stylesheet): nodes.Node[] {
+	const symbols = new Symbols(stylesheet);
+	const result: nodes.Node[] = [];
+	stylesheet.accept(node => {
+		if (node instanceof nodes.Identifier && node.parent instanceof nodes.Container && !symbols.findSymbolFromNode(node)) {
+			result.push(node);
 		}
+		return true;
+	});
+	return result;
+}
 
-		return entries.filter(entry => entry.getLevel() !== nodes.Level.Ignore).map(toDiagnostic);
-	}
+/**
+ * Whether the workspace has documents or folders to look for declarations and references in
+ */
+function isWorkspace(workspace: WorkspaceContext | undefined): workspace is WorkspaceContext {
+	return !!workspace && !!((workspace.documents && workspace.documents.length) || (workspace.folders && workspace.folders.length));
+}
+
+/**
+ * The rules whose problems `doValidation` can not report, as they depend on the other stylesheets of the workspace
+ */
+const workspaceRules = new Set([...unusedDeclarationRules, Rules.UndeclaredContainer].map(rule => rule.id));
+
+const suppressibleRules = new Set(Object.values(Rules).filter(rule => rule !== Rules.UnusedSuppressions).map(rule => rule.id));
+
+/**
+ * Returns true if problems of the rule can be suppressed by comments: the lint rules, but not syntax errors.
+ */
+export function isSuppressibleRule(code: string): boolean {
+	return suppressibleRules.has(code);
+}
+
+export function toDiagnostic(document: TextDocument, marker: nodes.IMarker): Diagnostic {
+	const range = Range.create(document.positionAt(marker.getOffset()), document.positionAt(marker.getOffset() + marker.getLength()));
+	const source = document.languageId;
+
+	return <Diagnostic>{
+		code: marker.getRule().id,
+		source: source,
+		message: marker.getMessage(),
+		severity: marker.getLevel() === nodes.Level.Warning ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+		range: range
+	};
 }
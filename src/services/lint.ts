@@ -5,13 +5,20 @@
 'use strict';
 
 import * as l10n from '@vscode/l10n';
-import { TextDocument } from '../cssLanguageTypes.js';
+import { BaselineStatus, IPropertyData, TextDocument } from '../cssLanguageTypes.js';
 import { CSSDataManager } from '../languageFacts/dataManager.js';
 import * as languageFacts from '../languageFacts/facts.js';
+import { isMathFunction, matchesValueSyntax } from '../languageFacts/valueSyntax.js';
+import { fontFeatureValueSyntaxes } from '../languageFacts/builtinData.js';
+import { BrowserTarget, getUnsupportedTargets, parseBrowserTargets } from '../languageFacts/browserTargets.js';
 import * as nodes from '../parser/cssNodes.js';
+import { getAnchorReferenceType, isAnchorNameDeclaration } from '../parser/cssSymbolScope.js';
 import { union } from '../utils/arrays.js';
-import { LintConfigurationSettings, Rule, Rules, Settings } from './lintRules.js';
-import calculateBoxModel, { Element } from './lintUtil.js';
+import { LintConfigurationSettings, Rule, Rules, Setting, Settings } from './lintRules.js';
+import calculateBoxModel, { Element, findOverridingShorthand } from './lintUtil.js';
+import { findUnusedDeclarations } from './unusedDeclarations.js';
+import { contrastThresholds, getContrastPair } from './colorContrast.js';
+import { findMisplacedDeclaration, getPropertyOrder } from './propertyOrder.js';
 
 
 
@@ -36,7 +43,7 @@ export class LintVisitor implements nodes.IVisitor {
 	static entries(node: nodes.Node, document: TextDocument, settings: LintConfigurationSettings, cssDataManager: CSSDataManager, entryFilter?: number): nodes.IMarker[] {
 		const visitor = new LintVisitor(document, settings, cssDataManager);
 		node.acceptVisitor(visitor);
-		visitor.completeValidations();
+		visitor.completeValidations(node);
 		return visitor.getEntries(entryFilter);
 	}
 
@@ -48,15 +55,21 @@ export class LintVisitor implements nodes.IVisitor {
 	private warnings: nodes.IMarker[] = [];
 	private settings: LintConfigurationSettings;
 	private keyframes: NodesByRootMap;
+	private document: TextDocument;
 	private documentText: string;
+	private isPreprocessor: boolean;
 
 	private validProperties: { [name: string]: boolean };
+	private browserTargets: BrowserTarget[];
 
 	private constructor(document: TextDocument, settings: LintConfigurationSettings, private cssDataManager: CSSDataManager) {
 		this.settings = settings;
+		this.document = document;
 		this.documentText = document.getText();
+		this.isPreprocessor = document.languageId !== 'css';
 		this.keyframes = new NodesByRootMap();
 		this.validProperties = {};
+		this.browserTargets = parseBrowserTargets(settings.getSetting(Settings.BrowserTargets) || []);
 
 		const properties = settings.getSetting(Settings.ValidProperties);
 		if (Array.isArray(properties)) {
@@ -148,6 +161,9 @@ export class LintVisitor implements nodes.IVisitor {
 	}
 
 	public visitNode(node: nodes.Node): boolean {
+		if (this.browserTargets.length) {
+			this.checkCompatibility(node);
+		}
 		switch (node.type) {
 			case nodes.NodeType.UnknownAtRule:
 				return this.visitUnknownAtRule(<nodes.UnknownAtRule>node);
@@ -171,12 +187,16 @@ export class LintVisitor implements nodes.IVisitor {
 				return this.visitPrio(node);
 			case nodes.NodeType.IdentifierSelector:
 				return this.visitIdentifierSelector(node);
+			case nodes.NodeType.Declaration:
+				return this.visitDeclaration(<nodes.Declaration>node);
 		}
 		return true;
 	}
 
-	private completeValidations() {
+	private completeValidations(node: nodes.Node) {
 		this.validateKeyframes();
+		this.validateUnusedDeclarations(node);
+		this.validateAnchorReferences(node);
 	}
 
 	private visitUnknownAtRule(node: nodes.UnknownAtRule): boolean {
@@ -235,6 +255,40 @@ export class LintVisitor implements nodes.IVisitor {
 		return true;
 	}
 
+	private validateUnusedDeclarations(node: nodes.Node): void {
+		// declarations that are visible to other documents are validated against the workspace, see CSSValidation.doValidation2
+		for (const declaration of findUnusedDeclarations(this.document, node)) {
+			if (declaration.isLocal) {
+				this.addEntry(declaration.nameNode, declaration.rule, l10n.t("'{0}' is declared but never used.", declaration.name));
+			}
+		}
+	}
+
+	private validateAnchorReferences(node: nodes.Node): void {
+		const declaredNames = new Set<string>();
+		const references: nodes.Identifier[] = [];
+		let hasInterpolatedNames = false;
+		node.accept(candidate => {
+			if (candidate instanceof nodes.Identifier && getAnchorReferenceType(candidate) === nodes.ReferenceType.Anchor) {
+				if (isAnchorNameDeclaration(candidate)) {
+					declaredNames.add(candidate.getText());
+					hasInterpolatedNames = hasInterpolatedNames || candidate.containsInterpolation();
+				} else if (!candidate.containsInterpolation()) {
+					references.push(candidate);
+				}
+			}
+			return true;
+		});
+		if (hasInterpolatedNames) {
+			return; // the declared names are not known
+		}
+		for (const reference of references) {
+			if (!declaredNames.has(reference.getText())) {
+				this.addEntry(reference, Rules.UndeclaredAnchor, l10n.t("Anchor '{0}' is not declared by an 'anchor-name' in this document.", reference.getText()));
+			}
+		}
+	}
+
 	private visitSimpleSelector(node: nodes.SimpleSelector): boolean {
 		/////////////////////////////////////////////////////////////
 		//	Lint - The universal selector (*) is known to be slow.
@@ -279,6 +333,14 @@ export class LintVisitor implements nodes.IVisitor {
 			this.addEntry(node.getSelectors(), Rules.EmptyRuleSet);
 		}
 
+		this.validateContrast(declarations);
+
+		// the order is only checked when the rule is enabled
+		const misplaced = this.settings.getRule(Rules.PropertyOrder) !== nodes.Level.Ignore && findMisplacedDeclaration(declarations, getPropertyOrder(this.settings.getSetting(Settings.PropertyOrder)));
+		if (misplaced) {
+			this.addEntry(misplaced.declaration.getProperty() || misplaced.declaration, Rules.PropertyOrder, l10n.t("'{0}' should come before '{1}'.", misplaced.declaration.getFullPropertyName(), misplaced.before.getFullPropertyName()));
+		}
+
 		const propertyTable: Element[] = [];
 		for (const element of declarations.getChildren()) {
 			if (element instanceof nodes.Declaration) {
@@ -384,6 +446,16 @@ export class LintVisitor implements nodes.IVisitor {
 			}
 		}
 
+		/////////////////////////////////////////////////////////////
+		//	Don't reset a property with a later shorthand.
+		/////////////////////////////////////////////////////////////
+		for (const element of propertyTable) {
+			const shorthand = findOverridingShorthand(element.node);
+			if (shorthand) {
+				this.addEntry(element.node, Rules.OverriddenByShorthand, l10n.t("'{0}' is overridden by the later shorthand '{1}'.", element.fullPropertyName, shorthand.getFullPropertyName()));
+			}
+		}
+
 		/////////////////////////////////////////////////////////////
 		//	Unknown propery & When using a vendor-prefixed gradient, make sure to use them all.
 		/////////////////////////////////////////////////////////////
@@ -406,7 +478,11 @@ export class LintVisitor implements nodes.IVisitor {
 								this.addEntry(decl.getProperty()!, Rules.UnknownVendorSpecificProperty);
 							}
 							const nonPrefixedName = decl.getNonPrefixedPropertyName();
-							propertiesBySuffix.add(nonPrefixedName, name, decl.getProperty());
+							if (this.isObsoleteVendorPrefix(nonPrefixedName)) {
+								this.addEntry(decl.getProperty()!, Rules.ObsoleteVendorPrefix, l10n.t("All target browsers support the standard property '{0}'", nonPrefixedName));
+							} else {
+								propertiesBySuffix.add(nonPrefixedName, name, decl.getProperty());
+							}
 						}
 					} else {
 						const fullName = name;
@@ -486,6 +562,31 @@ export class LintVisitor implements nodes.IVisitor {
 		return true;
 	}
 
+	private validateContrast(declarations: nodes.Declarations): void {
+		const pair = getContrastPair(declarations);
+		if (!pair) {
+			return;
+		}
+		const level = this.getSettingValue(Settings.ColorContrastLevel, Object.keys(contrastThresholds));
+		const threshold = contrastThresholds[level];
+		if (this.getSettingValue(Settings.ColorContrastAlgorithm, ['wcag2', 'apca']) === 'apca') {
+			const lc = Math.abs(languageFacts.getAPCAContrast(pair.foregroundColor, pair.backgroundColor));
+			if (lc < threshold.lc) {
+				this.addEntry(pair.foreground, Rules.ColorContrast, l10n.t("APCA lightness contrast Lc {0} is below the {1} minimum of Lc {2}.", lc.toFixed(1), level, threshold.lc));
+			}
+		} else {
+			const ratio = languageFacts.getContrastRatio(pair.foregroundColor, pair.backgroundColor);
+			if (ratio < threshold.ratio) {
+				this.addEntry(pair.foreground, Rules.ColorContrast, l10n.t("Contrast ratio {0}:1 is below the {1} minimum of {2}:1.", ratio.toFixed(2), level, threshold.ratio));
+			}
+		}
+	}
+
+	private getSettingValue(setting: Setting, values: string[]): string {
+		const value = this.settings.getSetting(setting);
+		return values.indexOf(value) !== -1 ? value : setting.defaultValue;
+	}
+
 	/**
 	 * Walks up the syntax tree (starting from given `node`) and captures vendor
 	 * specific pseudo-element selectors.
@@ -525,13 +626,145 @@ export class LintVisitor implements nodes.IVisitor {
 		return true;
 	}
 
+	private visitDeclaration(node: nodes.Declaration): boolean {
+		/////////////////////////////////////////////////////////////
+		//	Property values must match the syntax of the property
+		/////////////////////////////////////////////////////////////
+		const value = node.getValue();
+		if (!value || !this.isCSSDeclaration(node) || node.findAParent(nodes.NodeType.FontFace, nodes.NodeType.UnknownAtRule)) {
+			return true;
+		}
+		const name = node.getFullPropertyName().toLowerCase();
+		const atRule = node.getParent()?.getParent();
+		if (atRule instanceof nodes.DescriptorAtRule && !(node instanceof nodes.CustomPropertyDeclaration)) {
+			/////////////////////////////////////////////////////////////
+			//	Descriptors must be known by the at-rule and match their syntax
+			/////////////////////////////////////////////////////////////
+			const getPropertySyntax = (propertyName: string) => this.cssDataManager.getProperty(propertyName)?.syntax;
+			if (atRule instanceof nodes.FontFeatureValueBlock) {
+				const syntax = fontFeatureValueSyntaxes[atRule.getAtRuleName()];
+				if (syntax && matchesValueSyntax(value, syntax, getPropertySyntax, this.isPreprocessor) === false) {
+					this.addEntry(value, Rules.InvalidPropertyValue, l10n.t("Invalid value for feature value '{0}'. Expected {1}", node.getFullPropertyName(), syntax));
+				}
+				return true;
+			}
+			const descriptors = this.cssDataManager.getAtRuleDescriptors(atRule.getAtRuleName());
+			if (!descriptors) {
+				return true;
+			}
+			const descriptor = descriptors.find(descriptor => descriptor.name === name);
+			if (!descriptor) {
+				this.addEntry(node.getProperty()!, Rules.UnknownDescriptor, l10n.t("Unknown descriptor '{0}' in {1}", node.getFullPropertyName(), atRule.getAtRuleName()));
+				return true;
+			}
+			if (descriptor.syntax) {
+				if (matchesValueSyntax(value, descriptor.syntax, getPropertySyntax, this.isPreprocessor) === false) {
+					this.addEntry(value, Rules.InvalidPropertyValue, l10n.t("Invalid value for descriptor '{0}'. Expected {1}", node.getFullPropertyName(), descriptor.syntax));
+				}
+				return true;
+			}
+			// descriptors without syntax, such as the properties of `@position-try`, are validated as properties
+		}
+		const property = this.cssDataManager.getProperty(name);
+		if (!property || !property.syntax || this.validProperties[name]) {
+			return true;
+		}
+		const isValid = matchesValueSyntax(value, property.syntax, propertyName => this.cssDataManager.getProperty(propertyName)?.syntax, this.isPreprocessor);
+		if (isValid === false && !this.isKnownValue(property, value)) {
+			this.addEntry(value, Rules.InvalidPropertyValue, l10n.t("Invalid value for property '{0}'. Expected {1}", node.getFullPropertyName(), property.syntax));
+		}
+		return true;
+	}
+
+	/**
+	 * Values listed in the property data are accepted even if the syntax of the property doesn't mention them.
+	 */
+	private isKnownValue(property: IPropertyData, value: nodes.Expression): boolean {
+		const text = value.getText().toLowerCase();
+		return !!property.values && property.values.some(v => v.name.toLowerCase() === text);
+	}
+
+	private checkCompatibility(node: nodes.Node): void {
+		/////////////////////////////////////////////////////////////
+		//	Properties, values, at-rules and selectors must be supported by the target browsers
+		/////////////////////////////////////////////////////////////
+		if (node instanceof nodes.Declaration) {
+			const property = node.getProperty();
+			const value = node.getValue();
+			if (!property || !value || !this.isCSSDeclaration(node)) {
+				return;
+			}
+			const entry = this.cssDataManager.getProperty(node.getFullPropertyName().toLowerCase());
+			if (!entry) {
+				return;
+			}
+			this.addCompatibilityEntry(property, property.getName(), entry);
+			if (entry.values) {
+				value.accept(candidate => {
+					const name = candidate instanceof nodes.Function ? candidate.getName() + '()' : candidate.type === nodes.NodeType.Identifier ? candidate.getText() : undefined;
+					const valueEntry = name && entry.values!.find(v => v.name.toLowerCase() === name.toLowerCase());
+					if (valueEntry) {
+						this.addCompatibilityEntry(candidate, name!, valueEntry);
+					}
+					return !(candidate instanceof nodes.Function);
+				});
+			}
+		} else if (node.type === nodes.NodeType.PseudoSelector) {
+			const name = node.getText().replace(/\(.*$/s, '');
+			const entry = name.startsWith('::') ? this.cssDataManager.getPseudoElement(name) : this.cssDataManager.getPseudoClass(name);
+			if (entry) {
+				this.addCompatibilityEntry(node, name, entry);
+			}
+		} else if ((node.parent instanceof nodes.Stylesheet || node.parent instanceof nodes.Declarations) && this.documentText.charAt(node.offset) === '@') {
+			const keyword = /^@[\w-]+/.exec(node.getText());
+			const entry = keyword && this.cssDataManager.getAtDirective(keyword[0]);
+			if (entry) {
+				const message = this.getCompatibilityMessage(entry.name, entry);
+				if (message) {
+					this.warnings.push(new nodes.Marker(node, Rules.BrowserCompatibility, this.settings.getRule(Rules.BrowserCompatibility), message, node.offset, entry.name.length));
+				}
+			}
+		}
+	}
+
+	/**
+	 * A vendor specific property is obsolete if the browser data of the standard property shows support by all browser targets.
+	 */
+	private isObsoleteVendorPrefix(standardName: string): boolean {
+		const entry = this.browserTargets.length ? this.cssDataManager.getProperty(standardName.toLowerCase()) : undefined;
+		return !!entry && !!entry.browsers && this.cssDataManager.isStandardProperty(standardName) && !getUnsupportedTargets(entry, this.browserTargets).length;
+	}
+
+	private addCompatibilityEntry(node: nodes.Node, name: string, entry: { browsers?: string[]; baseline?: BaselineStatus }): void {
+		const message = this.getCompatibilityMessage(name, entry);
+		if (message) {
+			this.addEntry(node, Rules.BrowserCompatibility, message);
+		}
+	}
+
+	private getCompatibilityMessage(name: string, entry: { browsers?: string[]; baseline?: BaselineStatus }): string | undefined {
+		const unsupported = getUnsupportedTargets(entry, this.browserTargets);
+		const browsers = unsupported.filter(u => u.target.kind === 'browser').map(u => u.description);
+		const baseline = unsupported.find(u => u.target.kind === 'baseline');
+		if (browsers.length && baseline) {
+			return l10n.t("'{0}' is not {1} and not supported by {2}", name, baseline.description, browsers.join(', '));
+		} else if (browsers.length) {
+			return l10n.t("'{0}' is not supported by {1}", name, browsers.join(', '));
+		} else if (baseline) {
+			return l10n.t("'{0}' is not {1}", name, baseline.description);
+		}
+		return undefined;
+	}
+
 	private visitNumericValue(node: nodes.NumericValue): boolean {
 		/////////////////////////////////////////////////////////////
 		//	0 has no following unit
 		/////////////////////////////////////////////////////////////
-		const funcDecl = (node.findParent(nodes.NodeType.Function) as nodes.Function);
-		if (funcDecl && funcDecl.getName() === 'calc') {
-			return true;
+		// in math functions, 0 is a <number>, not a <length>
+		for (let func = node.findParent(nodes.NodeType.Function); func; func = func.getParent()?.findParent(nodes.NodeType.Function) ?? null) {
+			if (isMathFunction((<nodes.Function>func).getName())) {
+				return true;
+			}
 		}
 
 		const decl = <nodes.Declaration>node.findParent(nodes.NodeType.Declaration);
@@ -0,0 +1,96 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { URI } from 'vscode-uri';
+import { DocumentUri, FileSystemProvider, FileType, LanguageSettings, LintConfiguration, LintOverride, LintSettings } from '../cssLanguageTypes.js';
+import { matchesGlob } from '../utils/glob.js';
+import { dirname, joinPath } from '../utils/resources.js';
+
+export const lintConfigurationFileName = '.csslintrc.json';
+
+/**
+ * The parsed lint configuration files by URI, with the modification time they were read at
+ */
+export type LintConfigurationCache = Map<DocumentUri, { mtime: number; content: LintConfiguration | undefined }>;
+
+/**
+ * Returns the lint settings of the document: `settings.lint`, merged with the overrides whose patterns match the document URI.
+ */
+export function getLintSettings(settings: LanguageSettings | undefined, uri: DocumentUri): LintSettings {
+	return applyOverrides(settings && settings.lint || {}, settings && settings.overrides, URI.parse(uri).path);
+}
+
+/**
+ * Returns the lint settings of the document, merged with the settings of the closest lint configuration file
+ * in the folder of the document or one of its parent folders. The configuration file takes precedence.
+ * Configuration files are only read again when their modification time changes.
+ */
+export async function getLintSettingsWithConfiguration(settings: LanguageSettings | undefined, uri: DocumentUri, fileSystemProvider: FileSystemProvider | undefined, cache: LintConfigurationCache): Promise<LintSettings> {
+	const lint = getLintSettings(settings, uri);
+	const configuration = await findLintConfiguration(uri, fileSystemProvider, cache);
+	if (!configuration) {
+		return lint;
+	}
+	const relativePath = URI.parse(uri).path.substring(URI.parse(configuration.folder).path.replace(/\/$/, '').length);
+	return applyOverrides({ ...lint, ...configuration.content.lint }, configuration.content.overrides, relativePath);
+}
+
+async function findLintConfiguration(uri: DocumentUri, fileSystemProvider: FileSystemProvider | undefined, cache: LintConfigurationCache): Promise<{ folder: DocumentUri; content: LintConfiguration } | undefined> {
+	if (!fileSystemProvider || !fileSystemProvider.getContent) {
+		return undefined;
+	}
+	let folder = dirname(uri);
+	while (true) {
+		const content = await readLintConfiguration(joinPath(folder, lintConfigurationFileName), fileSystemProvider, cache);
+		if (content) {
+			return { folder, content };
+		}
+		const parent = dirname(folder);
+		if (parent === folder) {
+			return undefined;
+		}
+		folder = parent;
+	}
+}
+
+async function readLintConfiguration(uri: DocumentUri, fileSystemProvider: FileSystemProvider, cache: LintConfigurationCache): Promise<LintConfiguration | undefined> {
+	let mtime: number;
+	try {
+		const stat = await fileSystemProvider.stat(uri);
+		if (!(stat.type & FileType.File)) {
+			return undefined;
+		}
+		mtime = stat.mtime;
+	} catch (e) {
+		return undefined; // missing
+	}
+	const cached = cache.get(uri);
+	if (cached && cached.mtime === mtime) {
+		return cached.content;
+	}
+	let content: LintConfiguration | undefined;
+	try {
+		const parsed = JSON.parse(await fileSystemProvider.getContent!(uri));
+		content = parsed && typeof parsed === 'object' ? parsed : undefined;
+	} catch (e) {
+		content = undefined; // unreadable or malformed
+	}
+	cache.set(uri, { mtime, content });
+	return content;
+}
+
+function applyOverrides(lint: LintSettings, overrides: LintOverride[] | undefined, path: string): LintSettings {
+	if (!Array.isArray(overrides)) {
+		return lint;
+	}
+	let result = lint;
+	for (const override of overrides) {
+		if (override && Array.isArray(override.files) && override.files.some(pattern => matchesGlob(pattern, path))) {
+			result = { ...result, ...override.lint };
+		}
+	}
+	return result;
+}
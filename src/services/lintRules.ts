@@ -41,16 +41,34 @@ export const Rules = {
 	ArgsInColorFunction: new Rule('argumentsInColorFunction', l10n.t("Invalid number of parameters"), Error),
 	UnknownProperty: new Rule('unknownProperties', l10n.t("Unknown property."), Warning),
 	UnknownAtRules: new Rule('unknownAtRules', l10n.t("Unknown at-rule."), Warning),
+	UnknownDescriptor: new Rule('unknownDescriptors', l10n.t("Unknown descriptor."), Warning),
+	UndeclaredAnchor: new Rule('undeclaredAnchors', l10n.t("Anchor name is not declared in the document."), Warning),
+	UndeclaredContainer: new Rule('undeclaredContainers', l10n.t("Container name is not declared in the workspace."), Warning),
 	IEStarHack: new Rule('ieHack', l10n.t("IE hacks are only necessary when supporting IE7 and older"), Ignore),
 	UnknownVendorSpecificProperty: new Rule('unknownVendorSpecificProperties', l10n.t("Unknown vendor specific property."), Ignore),
 	PropertyIgnoredDueToDisplay: new Rule('propertyIgnoredDueToDisplay', l10n.t("Property is ignored due to the display."), Warning),
 	AvoidImportant: new Rule('important', l10n.t("Avoid using !important. It is an indication that the specificity of the entire CSS has gotten out of control and needs to be refactored."), Ignore),
 	AvoidFloat: new Rule('float', l10n.t("Avoid using 'float'. Floats lead to fragile CSS that is easy to break if one aspect of the layout changes."), Ignore),
 	AvoidIdSelector: new Rule('idSelector', l10n.t("Selectors should not contain IDs because these rules are too tightly coupled with the HTML."), Ignore),
+	InvalidPropertyValue: new Rule('invalidPropertyValue', l10n.t("Invalid property value."), Warning),
+	BrowserCompatibility: new Rule('browserCompatibility', l10n.t("Not supported by all target browsers."), Warning),
+	ObsoleteVendorPrefix: new Rule('obsoleteVendorPrefix', l10n.t("The vendor specific property is not needed for the target browsers."), Warning),
+	UnusedVariables: new Rule('unusedVariables', l10n.t("Unused variable declaration."), Warning),
+	UnusedMixins: new Rule('unusedMixins', l10n.t("Unused mixin declaration."), Warning),
+	UnusedPlaceholders: new Rule('unusedPlaceholders', l10n.t("Unused placeholder selector."), Warning),
+	UnusedKeyframes: new Rule('unusedKeyframes', l10n.t("Unused keyframes declaration."), Warning),
+	OverriddenByShorthand: new Rule('overriddenByShorthand', l10n.t("Property is overridden by a later shorthand property."), Warning),
+	UnusedSuppressions: new Rule('unusedSuppressions', l10n.t("Unused lint suppression."), Warning),
+	PropertyOrder: new Rule('order', l10n.t("Properties are not in the configured order."), Ignore),
+	ColorContrast: new Rule('colorContrast', l10n.t("Insufficient contrast between the text color and the background color."), Ignore),
 };
 
 export const Settings = {
-	ValidProperties: new Setting('validProperties', l10n.t("A list of properties that are not validated against the `unknownProperties` rule."), [])
+	ValidProperties: new Setting('validProperties', l10n.t("A list of properties that are not validated against the `unknownProperties` rule."), []),
+	BrowserTargets: new Setting('browserTargets', l10n.t("The browsers to check the `browserCompatibility` rule against, as a browserslist-style query like `chrome >= 100, safari >= 15` or `baseline widely available`."), undefined),
+	ColorContrastLevel: new Setting('colorContrastLevel', l10n.t("The WCAG conformance level of the `colorContrast` rule: `AA` (contrast ratio 4.5:1) or `AAA` (7:1)."), 'AA'),
+	ColorContrastAlgorithm: new Setting('colorContrastAlgorithm', l10n.t("The contrast algorithm of the `colorContrast` rule: `wcag2`, or `apca` for the APCA lightness contrast (Lc 60 for `AA`, Lc 75 for `AAA`)."), 'wcag2'),
+	PropertyOrder: new Setting('propertyOrder', l10n.t("The property order of the `order` rule and of sorting properties: `alphabetical`, `grouped` (positioning, box model, typography, visual, other properties), or a list of property names."), 'alphabetical')
 };
 
 export class LintConfigurationSettings {
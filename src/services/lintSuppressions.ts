@@ -0,0 +1,148 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { TokenType, Scanner } from '../parser/cssScanner.js';
+import { SCSSScanner } from '../parser/scssScanner.js';
+import { LESSScanner } from '../parser/lessScanner.js';
+import { TextDocument, Range, Diagnostic, TextEdit } from '../cssLanguageTypes.js';
+
+export type Suppression = {
+	kind: 'disable' | 'enable' | 'disable-line' | 'disable-next-line';
+	/** The ids of the rules, or an empty list for all rules */
+	rules: string[];
+	/** The range of the comment */
+	range: Range;
+};
+
+export type UnusedSuppression = {
+	suppression: Suppression;
+	/** The rules of the suppression that suppressed no problem, or an empty list if the suppression is for all rules */
+	rules: string[];
+};
+
+const directivePattern = /^(?:\/\*|\/\/)\s*css-lint-(disable-next-line|disable-line|disable|enable)\b\s*([\w\s,-]*?)\s*(?:\*\/)?$/;
+
+/**
+ * Returns the lint suppression comments of the document: `css-lint-disable` and `css-lint-enable` for the rest of the document,
+ * `css-lint-disable-line` and `css-lint-disable-next-line`, each followed by the rules, or by nothing for all rules.
+ * In Sass and Less, the directives can also be line comments.
+ */
+export function findSuppressions(document: TextDocument): Suppression[] {
+	const scanner = getScanner(document.languageId);
+	scanner.ignoreComment = false;
+	scanner.setSource(document.getText());
+
+	const result: Suppression[] = [];
+	for (let token = scanner.scan(); token.type !== TokenType.EOF; token = scanner.scan()) {
+		if (token.type === TokenType.Comment || token.type === TokenType.SingleLineComment) {
+			const match = directivePattern.exec(token.text.trim());
+			if (match) {
+				result.push({
+					kind: <Suppression['kind']>match[1],
+					rules: match[2].split(/[\s,]+/).filter(rule => rule.length),
+					range: Range.create(document.positionAt(token.offset), document.positionAt(token.offset + token.len))
+				});
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Removes the diagnostics of the lint rules that are suppressed by a comment, and returns the suppressions that suppressed no problem.
+ */
+export function applySuppressions(diagnostics: Diagnostic[], suppressions: Suppression[], isLintRule: (code: string) => boolean): { diagnostics: Diagnostic[]; unused: UnusedSuppression[] } {
+	const usedRules = new Map<Suppression, Set<string>>();
+	const regions = suppressions.filter(suppression => suppression.kind === 'disable' || suppression.kind === 'enable');
+
+	const result = diagnostics.filter(diagnostic => {
+		const code = String(diagnostic.code);
+		if (!isLintRule(code)) {
+			return true;
+		}
+		const line = diagnostic.range.start.line;
+		const matching = suppressions.filter(suppression => appliesTo(suppression, code) && (
+			suppression.kind === 'disable-line' && suppression.range.start.line === line ||
+			suppression.kind === 'disable-next-line' && suppression.range.end.line + 1 === line
+		));
+		// the last region directive before the problem decides whether the rule is disabled
+		let region: Suppression | undefined;
+		for (const suppression of regions) {
+			if (comparePositions(suppression.range.end, diagnostic.range.start) > 0) {
+				break;
+			}
+			if (appliesTo(suppression, code)) {
+				region = suppression;
+			}
+		}
+		if (region && region.kind === 'disable') {
+			matching.push(region);
+		}
+		for (const suppression of matching) {
+			let rules = usedRules.get(suppression);
+			if (!rules) {
+				rules = new Set();
+				usedRules.set(suppression, rules);
+			}
+			rules.add(code);
+		}
+		return matching.length === 0;
+	});
+
+	const unused: UnusedSuppression[] = [];
+	for (const suppression of suppressions) {
+		if (suppression.kind === 'enable') {
+			continue;
+		}
+		const used = usedRules.get(suppression);
+		if (!suppression.rules.length) {
+			if (!used) {
+				unused.push({ suppression, rules: [] });
+			}
+		} else {
+			const rules = suppression.rules.filter(rule => !used || !used.has(rule));
+			if (rules.length) {
+				unused.push({ suppression, rules });
+			}
+		}
+	}
+	return { diagnostics: result, unused };
+}
+
+/**
+ * Returns the edit suppressing the rule on the given line: a `css-lint-disable-next-line` comment on the line before, or the rule
+ * added to such a comment if it already exists.
+ */
+export function getSuppressionEdit(document: TextDocument, line: number, rule: string): TextEdit {
+	if (line > 0) {
+		const previousLine = document.getText(Range.create(line - 1, 0, line, 0)).replace(/\r?\n$/, '');
+		const match = /^(\s*\/\*\s*css-lint-disable-next-line\s+[\w\s,-]*?[\w-])\s*\*\/\s*$/.exec(previousLine);
+		if (match) {
+			return TextEdit.insert({ line: line - 1, character: match[1].length }, `, ${rule}`);
+		}
+	}
+	const indent = /^[ \t]*/.exec(document.getText(Range.create(line, 0, line + 1, 0)))![0];
+	return TextEdit.insert({ line, character: 0 }, `${indent}/* css-lint-disable-next-line ${rule} */\n`);
+}
+
+function appliesTo(suppression: Suppression, rule: string): boolean {
+	return !suppression.rules.length || suppression.rules.includes(rule);
+}
+
+function comparePositions(a: { line: number; character: number }, b: { line: number; character: number }): number {
+	return a.line - b.line || a.character - b.character;
+}
+
+function getScanner(languageId: string): Scanner {
+	switch (languageId) {
+		case 'scss':
+			return new SCSSScanner();
+		case 'less':
+			return new LESSScanner();
+		default:
+			return new Scanner();
+	}
+}
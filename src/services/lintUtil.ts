@@ -6,6 +6,7 @@
 
 import * as nodes from '../parser/cssNodes.js';
 import { includes } from '../utils/arrays.js';
+import { isColorFunctionName, isColorString } from '../languageFacts/facts.js';
 
 export class Element {
 
@@ -77,29 +78,45 @@ function updateModelWithValue(
 }
 
 function updateModelWithList(model: BoxModel, values: boolean[], property: Element): void {
+	const edgeValues = getBoxEdgeValues(values);
+	if (edgeValues) {
+		boxEdges.forEach((side, i) => updateModelWithValue(model, side, edgeValues[i], property));
+	}
+}
+
+const boxEdges = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Returns the values of the top, right, bottom and left edges of a box model shorthand with one to four values.
+ */
+export function getBoxEdgeValues<T>(values: T[]): [T, T, T, T] | undefined {
 	switch (values.length) {
 		case 1:
-			updateModelWithValue(model, undefined, values[0], property);
-			break;
+			return [values[0], values[0], values[0], values[0]];
 		case 2:
-			updateModelWithValue(model, 'top', values[0], property);
-			updateModelWithValue(model, 'bottom', values[0], property);
-			updateModelWithValue(model, 'right', values[1], property);
-			updateModelWithValue(model, 'left', values[1], property);
-			break;
+			return [values[0], values[1], values[0], values[1]];
 		case 3:
-			updateModelWithValue(model, 'top', values[0], property);
-			updateModelWithValue(model, 'right', values[1], property);
-			updateModelWithValue(model, 'left', values[1], property);
-			updateModelWithValue(model, 'bottom', values[2], property);
-			break;
+			return [values[0], values[1], values[2], values[1]];
 		case 4:
-			updateModelWithValue(model, 'top', values[0], property);
-			updateModelWithValue(model, 'right', values[1], property);
-			updateModelWithValue(model, 'bottom', values[2], property);
-			updateModelWithValue(model, 'left', values[3], property);
-			break;
+			return [values[0], values[1], values[2], values[3]];
 	}
+	return undefined;
+}
+
+/**
+ * The inverse of `getBoxEdgeValues`: the shortest list of values for the values of the top, right, bottom and left edges.
+ */
+function getBoxEdgeShorthandValues([top, right, bottom, left]: string[]): string[] {
+	if (left !== right) {
+		return [top, right, bottom, left];
+	}
+	if (bottom !== top) {
+		return [top, right, bottom];
+	}
+	if (right !== top) {
+		return [top, right];
+	}
+	return [top];
 }
 
 function matches(value: nodes.Node, candidates: string[]) {
@@ -250,3 +267,474 @@ export default function calculateBoxModel(propertyTable: Element[]): BoxModel {
 
 	return model;
 }
+
+/**
+ * A shorthand property that can be expanded into its longhand properties, and collapsed from them.
+ * Sub-properties that a shorthand only resets, like `font-kerning` or `border-image`, are not part of the longhands.
+ */
+interface Shorthand {
+	longhands: string[];
+	/** Returns the values of the longhands, in the order of `longhands`, or `undefined` if the value is not understood */
+	expand(components: ValueComponent[], text: string): string[] | undefined;
+	/** Returns the shortest value of the shorthand, or `undefined` if the shorthand can not express the values of the longhands */
+	collapse(values: string[]): string | undefined;
+}
+
+/**
+ * A component of a property value, or one of the separators `/` and `,`
+ */
+interface ValueComponent {
+	text: string;
+	offset: number;
+	end: number;
+}
+
+const globalKeywords = ['initial', 'inherit', 'unset', 'revert', 'revert-layer'];
+const lineWidths = ['thin', 'medium', 'thick'];
+const lineStyles = ['none', 'hidden', 'dotted', 'dashed', 'solid', 'double', 'groove', 'ridge', 'inset', 'outset'];
+const lineInitialValues = ['medium', 'none', 'currentcolor'];
+const fontStretches = ['ultra-condensed', 'extra-condensed', 'condensed', 'semi-condensed', 'semi-expanded', 'expanded', 'extra-expanded', 'ultra-expanded'];
+const fontSizes = ['xx-small', 'x-small', 'small', 'medium', 'large', 'x-large', 'xx-large', 'xxx-large', 'larger', 'smaller'];
+const backgroundInitialValues = ['none', '0% 0%', 'auto', 'repeat', 'scroll', 'padding-box', 'border-box', 'transparent'];
+
+function getValueComponents(text: string): ValueComponent[] | undefined {
+	if (text.includes('/*')) {
+		return undefined;
+	}
+	const components: ValueComponent[] = [];
+	let start = -1;
+	let depth = 0;
+	const endComponent = (end: number) => {
+		if (start !== -1) {
+			components.push({ text: text.substring(start, end), offset: start, end });
+			start = -1;
+		}
+	};
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charAt(i);
+		if (depth === 0 && /[\s/,]/.test(ch)) {
+			endComponent(i);
+			if (ch === '/' || ch === ',') {
+				components.push({ text: ch, offset: i, end: i + 1 });
+			}
+			continue;
+		}
+		if (start === -1) {
+			start = i;
+		}
+		if (ch === '"' || ch === '\'') {
+			for (i++; i < text.length && text.charAt(i) !== ch; i++) {
+				if (text.charAt(i) === '\\') {
+					i++;
+				}
+			}
+		} else if (ch === '(') {
+			depth++;
+		} else if (ch === ')') {
+			depth--;
+		}
+	}
+	endComponent(text.length);
+	return components;
+}
+
+function isSeparator(component: ValueComponent): boolean {
+	return component.text === '/' || component.text === ',';
+}
+
+function isSingleValue(value: string): boolean {
+	const components = getValueComponents(value);
+	return !!components && components.length === 1 && !isSeparator(components[0]);
+}
+
+function isNumeric(value: string): boolean {
+	return /^[-+]?\.?\d/.test(value) || /^(calc|min|max|clamp)\(/i.test(value);
+}
+
+function isColor(value: string): boolean {
+	const match = /^([\w-]+)\(/.exec(value);
+	return match ? isColorFunctionName(match[1]) : isColorString(value);
+}
+
+function isCustomIdent(value: string): boolean {
+	return /^-?[a-z_][\w-]*$/i.test(value) && value.toLowerCase() !== 'auto' && value.toLowerCase() !== 'span';
+}
+
+function getEdgeProperties(prefix: string, suffix: string): string[] {
+	return boxEdges.map(side => prefix + side + suffix);
+}
+
+/**
+ * `margin`, `padding`, `inset`, `border-width` and the other shorthands with one to four values for the edges of the box.
+ */
+function boxEdgeShorthand(longhands: string[]): Shorthand {
+	return {
+		longhands,
+		expand: components => components.some(isSeparator) ? undefined : getBoxEdgeValues(components.map(component => component.text)),
+		collapse: values => values.every(isSingleValue) ? getBoxEdgeShorthandValues(values).join(' ') : undefined
+	};
+}
+
+/**
+ * `border`, `border-top` and `outline`: a width, a style and a color in any order.
+ */
+function lineShorthand(longhands: string[], styles: string[]): Shorthand {
+	return {
+		longhands,
+		expand: components => {
+			const values: string[] = [];
+			for (const { text } of components) {
+				const value = text.toLowerCase();
+				const index = isNumeric(value) || lineWidths.includes(value) ? 0 : styles.includes(value) ? 1 : isColor(value) ? 2 : -1;
+				if (index === -1 || values[index] !== undefined) {
+					return undefined;
+				}
+				values[index] = text;
+			}
+			return lineInitialValues.map((initialValue, i) => values[i] ?? initialValue);
+		},
+		collapse: values => {
+			if (!values.every(isSingleValue)) {
+				return undefined;
+			}
+			const result = values.filter((value, i) => value.toLowerCase() !== lineInitialValues[i]);
+			return result.length ? result.join(' ') : 'none';
+		}
+	};
+}
+
+/**
+ * `grid-area`, `grid-row` and `grid-column`: grid lines separated by `/`. An omitted line is the line at the index of `fallbacks`,
+ * if that is a custom identifier, and `auto` otherwise.
+ */
+function gridLineShorthand(longhands: string[], fallbacks: number[]): Shorthand {
+	const getFallback = (values: string[], index: number) => isCustomIdent(values[fallbacks[index]]) ? values[fallbacks[index]] : 'auto';
+	return {
+		longhands,
+		expand: (components, text) => {
+			const values: string[] = [];
+			let start = 0;
+			for (let i = 0; i <= components.length; i++) {
+				if (i === components.length || components[i].text === '/') {
+					if (i === start || values.length === longhands.length) {
+						return undefined;
+					}
+					values.push(text.substring(components[start].offset, components[i - 1].end));
+					start = i + 1;
+				} else if (components[i].text === ',') {
+					return undefined;
+				}
+			}
+			for (let i = values.length; i < longhands.length; i++) {
+				values.push(getFallback(values, i));
+			}
+			return values;
+		},
+		collapse: values => {
+			if (values.some(value => value.includes('/') || value.includes(','))) {
+				return undefined;
+			}
+			let count = values.length;
+			while (count > 1 && values[count - 1] === getFallback(values, count - 1)) {
+				count--;
+			}
+			return values.slice(0, count).join(' / ');
+		}
+	};
+}
+
+/**
+ * `font`: the optional style, variant, weight and stretch in any order, the size and line height, and the family.
+ * A value without a size is a system font and is not expanded.
+ */
+const fontShorthand: Shorthand = {
+	longhands: ['font-style', 'font-variant', 'font-weight', 'font-stretch', 'font-size', 'line-height', 'font-family'],
+	expand: (components, text) => {
+		const values: string[] = [];
+		for (let i = 0; i < components.length; i++) {
+			const value = components[i].text.toLowerCase();
+			if (value === 'normal') {
+				continue;
+			}
+			if (fontSizes.includes(value) || isNumeric(value) && !/^\d+$/.test(value)) {
+				values[4] = components[i].text;
+				if (components[i + 1]?.text === '/' && i + 2 < components.length) {
+					values[5] = components[i + 2].text;
+					i += 2;
+				}
+				const family = components.slice(i + 1);
+				if (!family.length || family.some(component => component.text === '/')) {
+					return undefined;
+				}
+				values[6] = text.substring(family[0].offset, family[family.length - 1].end);
+				return fontShorthand.longhands.map((_, i) => values[i] ?? 'normal');
+			}
+			const index = value === 'italic' || value === 'oblique' ? 0
+				: value === 'small-caps' ? 1
+					: value === 'bold' || value === 'bolder' || value === 'lighter' || /^\d+$/.test(value) ? 2
+						: fontStretches.includes(value) ? 3 : -1;
+			if (index === -1 || values[index] !== undefined) {
+				return undefined;
+			}
+			values[index] = components[i].text;
+			if (value === 'oblique' && /^[-+]?[\d.]+(deg|grad|rad|turn)$/i.test(components[i + 1]?.text ?? '')) {
+				values[index] += ' ' + components[++i].text;
+			}
+		}
+		return undefined;
+	},
+	collapse: values => {
+		const [style, variant, weight, stretch, size, lineHeight, family] = values;
+		if (variant.toLowerCase() !== 'normal' && variant.toLowerCase() !== 'small-caps' || stretch.toLowerCase() !== 'normal' && !fontStretches.includes(stretch.toLowerCase())) {
+			return undefined; // not expressible in the shorthand
+		}
+		const result = [style, variant, weight, stretch].filter(value => value.toLowerCase() !== 'normal');
+		result.push(lineHeight.toLowerCase() === 'normal' ? size : `${size}/${lineHeight}`, family);
+		return result.join(' ');
+	}
+};
+
+/**
+ * `background` with a single layer: the image, the position and size, the repeat style, the attachment, the origin and clip boxes and the color.
+ */
+const backgroundShorthand: Shorthand = {
+	longhands: ['background-image', 'background-position', 'background-size', 'background-repeat', 'background-attachment', 'background-origin', 'background-clip', 'background-color'],
+	expand: components => {
+		const values: string[] = [];
+		let previous = -1;
+		for (const { text } of components) {
+			const value = text.toLowerCase();
+			if (value === '/') {
+				if (previous !== 1) {
+					return undefined;
+				}
+				previous = 2;
+				continue;
+			}
+			let index: number;
+			if (previous === 2 && (isNumeric(value) || value === 'auto' || value === 'cover' || value === 'contain')) {
+				index = 2;
+			} else if (value === 'none' || /^(url|image|image-set|cross-fade|element|(repeating-)?(linear|radial|conic)-gradient)\(/.test(value)) {
+				index = 0;
+			} else if (isNumeric(value) || ['left', 'right', 'top', 'bottom', 'center'].includes(value)) {
+				index = 1;
+			} else if (['repeat', 'repeat-x', 'repeat-y', 'no-repeat', 'space', 'round'].includes(value)) {
+				index = 3;
+			} else if (['scroll', 'fixed', 'local'].includes(value)) {
+				index = 4;
+			} else if (['border-box', 'padding-box', 'content-box'].includes(value)) {
+				index = values[5] === undefined ? 5 : 6;
+			} else if (value === 'text') {
+				index = 6;
+			} else if (isColor(value)) {
+				index = 7;
+			} else {
+				return undefined; // also the separator of several layers
+			}
+			if (values[index] === undefined) {
+				values[index] = text;
+			} else if (previous === index && index >= 1 && index <= 3) {
+				values[index] += ' ' + text;
+			} else {
+				return undefined;
+			}
+			previous = index;
+		}
+		if (previous === 2 && values[2] === undefined) {
+			return undefined;
+		}
+		if (values[5] !== undefined && values[6] === undefined) {
+			values[6] = values[5]; // a single box sets both the origin and the clip
+		}
+		return backgroundInitialValues.map((initialValue, i) => values[i] ?? initialValue);
+	},
+	collapse: values => {
+		if (values.some(value => value.includes(','))) {
+			return undefined; // several layers
+		}
+		const [image, position, size, repeat, attachment, origin, clip, color] = values;
+		const isInitial = (index: number) => values[index].toLowerCase() === backgroundInitialValues[index];
+		const result: string[] = [];
+		if (!isInitial(0)) {
+			result.push(image);
+		}
+		if (!isInitial(2)) {
+			result.push(`${position} / ${size}`);
+		} else if (!isInitial(1)) {
+			result.push(position);
+		}
+		if (!isInitial(3)) {
+			result.push(repeat);
+		}
+		if (!isInitial(4)) {
+			result.push(attachment);
+		}
+		if (origin.toLowerCase() === clip.toLowerCase()) {
+			result.push(origin);
+		} else if (!isInitial(5) || !isInitial(6)) {
+			result.push(origin, clip);
+		}
+		if (!isInitial(7)) {
+			result.push(color);
+		}
+		return result.length ? result.join(' ') : 'none';
+	}
+};
+
+const shorthands = new Map<string, Shorthand>([
+	['margin', boxEdgeShorthand(getEdgeProperties('margin-', ''))],
+	['padding', boxEdgeShorthand(getEdgeProperties('padding-', ''))],
+	['inset', boxEdgeShorthand(getEdgeProperties('', ''))],
+	['scroll-margin', boxEdgeShorthand(getEdgeProperties('scroll-margin-', ''))],
+	['scroll-padding', boxEdgeShorthand(getEdgeProperties('scroll-padding-', ''))],
+	['border-width', boxEdgeShorthand(getEdgeProperties('border-', '-width'))],
+	['border-style', boxEdgeShorthand(getEdgeProperties('border-', '-style'))],
+	['border-color', boxEdgeShorthand(getEdgeProperties('border-', '-color'))],
+	['border-radius', boxEdgeShorthand(['border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius'])],
+	['border', lineShorthand(['border-width', 'border-style', 'border-color'], lineStyles)],
+	['border-top', lineShorthand(['border-top-width', 'border-top-style', 'border-top-color'], lineStyles)],
+	['border-right', lineShorthand(['border-right-width', 'border-right-style', 'border-right-color'], lineStyles)],
+	['border-bottom', lineShorthand(['border-bottom-width', 'border-bottom-style', 'border-bottom-color'], lineStyles)],
+	['border-left', lineShorthand(['border-left-width', 'border-left-style', 'border-left-color'], lineStyles)],
+	['outline', lineShorthand(['outline-width', 'outline-style', 'outline-color'], [...lineStyles, 'auto'])],
+	['grid-area', gridLineShorthand(['grid-row-start', 'grid-column-start', 'grid-row-end', 'grid-column-end'], [0, 0, 0, 1])],
+	['grid-row', gridLineShorthand(['grid-row-start', 'grid-row-end'], [0, 0])],
+	['grid-column', gridLineShorthand(['grid-column-start', 'grid-column-end'], [0, 0])],
+	['font', fontShorthand],
+	['background', backgroundShorthand]
+]);
+
+/**
+ * The longhands of the shorthands that can not be expanded, and the sub-properties that the expandable shorthands reset
+ */
+const resetLonghands = new Map<string, string[]>([
+	['font', ['font-size-adjust', 'font-kerning', 'font-optical-sizing', 'font-feature-settings', 'font-variation-settings', 'font-language-override', 'font-palette']],
+	['font-variant', ['font-variant-caps', 'font-variant-ligatures', 'font-variant-numeric', 'font-variant-east-asian', 'font-variant-alternates', 'font-variant-position', 'font-variant-emoji']],
+	['background-position', ['background-position-x', 'background-position-y']],
+	['border', ['border-image']],
+	['border-image', ['border-image-source', 'border-image-slice', 'border-image-width', 'border-image-outset', 'border-image-repeat']],
+	['margin-inline', ['margin-inline-start', 'margin-inline-end']],
+	['margin-block', ['margin-block-start', 'margin-block-end']],
+	['padding-inline', ['padding-inline-start', 'padding-inline-end']],
+	['padding-block', ['padding-block-start', 'padding-block-end']],
+	['inset-inline', ['inset-inline-start', 'inset-inline-end']],
+	['inset-block', ['inset-block-start', 'inset-block-end']],
+	['flex', ['flex-grow', 'flex-shrink', 'flex-basis']],
+	['flex-flow', ['flex-direction', 'flex-wrap']],
+	['gap', ['row-gap', 'column-gap']],
+	['place-content', ['align-content', 'justify-content']],
+	['place-items', ['align-items', 'justify-items']],
+	['place-self', ['align-self', 'justify-self']],
+	['grid', ['grid-template', 'grid-auto-rows', 'grid-auto-columns', 'grid-auto-flow']],
+	['grid-template', ['grid-template-rows', 'grid-template-columns', 'grid-template-areas']],
+	['columns', ['column-width', 'column-count']],
+	['column-rule', ['column-rule-width', 'column-rule-style', 'column-rule-color']],
+	['list-style', ['list-style-type', 'list-style-position', 'list-style-image']],
+	['overflow', ['overflow-x', 'overflow-y']],
+	['text-decoration', ['text-decoration-line', 'text-decoration-style', 'text-decoration-color', 'text-decoration-thickness']],
+	['transition', ['transition-property', 'transition-duration', 'transition-timing-function', 'transition-delay', 'transition-behavior']],
+	['animation', ['animation-name', 'animation-duration', 'animation-timing-function', 'animation-delay', 'animation-iteration-count', 'animation-direction', 'animation-fill-mode', 'animation-play-state']]
+]);
+
+/**
+ * Returns the longhand properties of a shorthand property, or `undefined` if the property is not a known shorthand.
+ */
+export function getLonghandNames(shorthand: string): string[] | undefined {
+	return shorthands.get(shorthand)?.longhands;
+}
+
+/**
+ * Returns the shorthand properties that set the longhand property.
+ */
+export function getShorthandNames(longhand: string): string[] {
+	const result: string[] = [];
+	for (const [name, shorthand] of shorthands) {
+		if (shorthand.longhands.includes(longhand)) {
+			result.push(name);
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the values of the longhands of a shorthand, in the order of `getLonghandNames`, or `undefined` if the value
+ * can not be expanded, for example a `background` with several layers.
+ */
+export function expandShorthand(shorthand: string, value: string): string[] | undefined {
+	const definition = shorthands.get(shorthand);
+	const components = getValueComponents(value);
+	if (!definition || !components || !components.length) {
+		return undefined;
+	}
+	if (components.length === 1 && globalKeywords.includes(value.toLowerCase())) {
+		return definition.longhands.map(() => value);
+	}
+	return definition.expand(components, value);
+}
+
+/**
+ * Returns the shortest value of a shorthand that is equivalent to the values of its longhands, in the order of `getLonghandNames`,
+ * or `undefined` if the shorthand can not express them.
+ */
+export function collapseShorthand(shorthand: string, values: string[]): string | undefined {
+	const definition = shorthands.get(shorthand);
+	if (!definition || values.length !== definition.longhands.length) {
+		return undefined;
+	}
+	if (values.some(value => globalKeywords.includes(value.toLowerCase()))) {
+		return values.every(value => value === values[0]) ? values[0] : undefined;
+	}
+	return definition.collapse(values);
+}
+
+/**
+ * Returns true if the shorthand sets the property, directly or through one of its longhands.
+ */
+export function isSetByShorthand(propertyName: string, shorthand: string): boolean {
+	const longhands = [...shorthands.get(shorthand)?.longhands ?? [], ...resetLonghands.get(shorthand) ?? []];
+	return longhands.some(longhand => longhand === propertyName || isSetByShorthand(propertyName, longhand));
+}
+
+/**
+ * Returns true if both properties set a common property: the same property, a shorthand and one of its longhands,
+ * or two shorthands that share a longhand, like `border-left` and `border-color`.
+ */
+export function setsSameProperty(propertyName: string, otherPropertyName: string): boolean {
+	const otherNames = getSetPropertyNames(otherPropertyName);
+	return getSetPropertyNames(propertyName).some(name => otherNames.includes(name));
+}
+
+function getSetPropertyNames(propertyName: string): string[] {
+	const longhands = [...shorthands.get(propertyName)?.longhands ?? [], ...resetLonghands.get(propertyName) ?? []];
+	return [propertyName, ...longhands.flatMap(getSetPropertyNames)];
+}
+
+/**
+ * Returns the first later declaration of the block that resets the property of `declaration` with a shorthand,
+ * unless the property is declared again before, or only `declaration` is `!important`.
+ */
+export function findOverridingShorthand(declaration: nodes.Declaration): nodes.Declaration | undefined {
+	const block = declaration.getParent();
+	if (!block) {
+		return undefined;
+	}
+	const propertyName = declaration.getFullPropertyName().toLowerCase();
+	const children = block.getChildren();
+	for (let i = children.indexOf(declaration) + 1; i < children.length; i++) {
+		const child = children[i];
+		if (child instanceof nodes.Declaration) {
+			const name = child.getFullPropertyName().toLowerCase();
+			if (name === propertyName) {
+				return undefined;
+			}
+			if (isSetByShorthand(propertyName, name)) {
+				return isImportant(declaration) && !isImportant(child) ? undefined : child;
+			}
+		}
+	}
+	return undefined;
+}
+
+function isImportant(declaration: nodes.Declaration): boolean {
+	return declaration.getChildren().some(child => child.type === nodes.NodeType.Prio);
+}
@@ -0,0 +1,312 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { DocumentUri, TextDocument } from '../cssLanguageTypes.js';
+import * as nodes from '../parser/cssNodes.js';
+import { Parser } from '../parser/cssParser.js';
+import { Symbols, Symbol } from '../parser/cssSymbolScope.js';
+
+export type ModuleLink = {
+	type: nodes.NodeType.Use | nodes.NodeType.Forward | nodes.NodeType.Import;
+	node: nodes.Node;
+	target: string;
+	/** The namespace of a `@use`, `null` for `@use ... as *` */
+	namespace?: string | null;
+	/** The prefix of a `@forward ... as prefix-*` */
+	prefix?: string;
+	show?: string[];
+	hide?: string[];
+};
+
+export type ModuleDocument = {
+	document: TextDocument;
+	stylesheet: nodes.Stylesheet;
+	symbols: Symbols;
+};
+
+export type ResolvedMember = {
+	module: ModuleDocument;
+	symbol: Symbol;
+	/** The prefixes that `@forward ... as prefix-*` rules added between the reference and the declaration */
+	prefix: string;
+};
+
+type MemberReference = { name: string; types: nodes.ReferenceType[]; namespace: string | undefined };
+
+/**
+ * Resolves variables, mixins and functions across the stylesheets linked through
+ * `@use`, `@forward` and `@import`. Parsed stylesheets are kept for the lifetime of the graph,
+ * so a graph should only be used for a single request.
+ */
+export class ModuleGraph {
+
+	private readonly modules = new Map<DocumentUri, ModuleDocument | null>();
+
+	constructor(
+		private readonly parser: Parser,
+		private readonly resolveLink: (target: string, documentUri: DocumentUri) => Promise<DocumentUri | undefined>,
+		private readonly getContent: (uri: DocumentUri) => Promise<string | null>
+	) {
+	}
+
+	public addDocument(document: TextDocument, stylesheet: nodes.Stylesheet = this.parser.parseStylesheet(document)): ModuleDocument {
+		const module = { document, stylesheet, symbols: new Symbols(stylesheet) };
+		this.modules.set(document.uri, module);
+		return module;
+	}
+
+	public async getModule(uri: DocumentUri, languageId: string): Promise<ModuleDocument | null> {
+		let module = this.modules.get(uri);
+		if (module === undefined) {
+			const content = await this.getContent(uri);
+			module = content !== null ? this.addDocument(TextDocument.create(uri, languageId, 0, content)) : null;
+			this.modules.set(uri, module);
+		}
+		return module;
+	}
+
+	/**
+	 * Finds the declaration of the variable, mixin or function referenced by `node`, looking
+	 * into the linked modules if the symbol is not declared in the document itself.
+	 */
+	public async resolveMember(module: ModuleDocument, node: nodes.Node): Promise<ResolvedMember | null> {
+		const visibility = node.parent;
+		if (visibility instanceof nodes.ForwardVisibility && visibility.getIdentifier() !== node) {
+			return this.resolveForwardVisibilityEntry(module, visibility, node);
+		}
+
+		const reference = getMemberReference(node);
+		if (!reference) {
+			return null;
+		}
+		if (reference.namespace === undefined) {
+			const symbol = module.symbols.findSymbolFromNode(node);
+			if (symbol) {
+				return { module, symbol, prefix: '' };
+			}
+		}
+
+		const visited = new Set<DocumentUri>([module.document.uri]);
+		for (const link of getModuleLinks(module.stylesheet)) {
+			const isCandidate = reference.namespace === undefined
+				? link.type === nodes.NodeType.Import || (link.type === nodes.NodeType.Use && link.namespace === null)
+				: link.type === nodes.NodeType.Use && link.namespace === reference.namespace;
+			if (isCandidate) {
+				const member = await this.findMemberInLink(module, link, reference.name, reference.types, '', visited);
+				if (member) {
+					return member;
+				}
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the modules that are directly linked from the given module.
+	 */
+	public async getLinkedModules(module: ModuleDocument): Promise<ModuleDocument[]> {
+		const result: ModuleDocument[] = [];
+		for (const link of getModuleLinks(module.stylesheet)) {
+			const target = await this.resolveLink(link.target, module.document.uri);
+			const linked = target && await this.getModule(target, module.document.languageId);
+			if (linked) {
+				result.push(linked);
+			}
+		}
+		return result;
+	}
+
+	private async resolveForwardVisibilityEntry(module: ModuleDocument, visibility: nodes.ForwardVisibility, node: nodes.Node): Promise<ResolvedMember | null> {
+		const forward = visibility.getParent();
+		const link = forward instanceof nodes.Forward ? getForwardLink(forward) : undefined;
+		if (!link) {
+			return null;
+		}
+		const name = node.getText();
+		const types = name.startsWith('$') ? [nodes.ReferenceType.Variable] : [nodes.ReferenceType.Mixin, nodes.ReferenceType.Function];
+		const visited = new Set<DocumentUri>([module.document.uri]);
+		return this.findMemberInLink(module, { ...link, show: undefined, hide: undefined }, name, types, '', visited);
+	}
+
+	private async findMemberInLink(module: ModuleDocument, link: ModuleLink, name: string, types: nodes.ReferenceType[], prefix: string, visited: Set<DocumentUri>): Promise<ResolvedMember | null> {
+		if (link.type === nodes.NodeType.Forward) {
+			const forwardedName = getForwardedMemberName(link, name);
+			if (!forwardedName) {
+				return null;
+			}
+			name = forwardedName;
+			prefix = prefix + (link.prefix || '');
+		}
+		const target = await this.resolveLink(link.target, module.document.uri);
+		if (!target) {
+			return null;
+		}
+		return this.findMemberInModule(target, module.document.languageId, name, types, prefix, visited);
+	}
+
+	private async findMemberInModule(uri: DocumentUri, languageId: string, name: string, types: nodes.ReferenceType[], prefix: string, visited: Set<DocumentUri>): Promise<ResolvedMember | null> {
+		if (visited.has(uri) || isPrivateMember(name)) {
+			return null;
+		}
+		visited.add(uri);
+
+		const module = await this.getModule(uri, languageId);
+		if (!module) {
+			return null;
+		}
+		for (const type of types) {
+			const symbol = module.symbols.findSymbol(name, type, 0);
+			if (symbol) {
+				return { module, symbol, prefix };
+			}
+		}
+
+		// members of forwarded and imported modules are visible as well, members of used modules are not
+		for (const link of getModuleLinks(module.stylesheet)) {
+			if (link.type !== nodes.NodeType.Use) {
+				const member = await this.findMemberInLink(module, link, name, types, prefix, visited);
+				if (member) {
+					return member;
+				}
+			}
+		}
+		return null;
+	}
+}
+
+function getMemberReference(node: nodes.Node): MemberReference | undefined {
+	const parent = node.parent;
+	if (node instanceof nodes.Variable) {
+		const namespace = parent instanceof nodes.Module ? parent.getIdentifier()?.getText() : undefined;
+		return { name: node.getName(), types: [nodes.ReferenceType.Variable], namespace };
+	}
+	if (node instanceof nodes.Identifier) {
+		if ((parent instanceof nodes.MixinReference || parent instanceof nodes.MixinDeclaration) && parent.getIdentifier() === node) {
+			const module = parent.getChildren().find(child => child instanceof nodes.Module);
+			const namespace = module ? (<nodes.Module>module).getIdentifier()?.getText() : undefined;
+			return { name: node.getText(), types: [nodes.ReferenceType.Mixin], namespace };
+		}
+		if ((parent instanceof nodes.Function || parent instanceof nodes.FunctionDeclaration) && parent.getIdentifier() === node) {
+			const module = parent.parent;
+			const namespace = module instanceof nodes.Module ? module.getIdentifier()?.getText() : undefined;
+			return { name: node.getText(), types: [nodes.ReferenceType.Function], namespace };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns true if the node can reference a member of another module: a variable, a mixin or function name,
+ * or an entry of a `@forward` `show` or `hide` list.
+ */
+export function isMemberReferenceNode(node: nodes.Node): boolean {
+	const visibility = node.parent;
+	if (visibility instanceof nodes.ForwardVisibility) {
+		return visibility.getIdentifier() !== node;
+	}
+	return !!getMemberReference(node);
+}
+
+export function getModuleLinks(stylesheet: nodes.Stylesheet): ModuleLink[] {
+	const result: ModuleLink[] = [];
+	for (const node of stylesheet.getChildren()) {
+		if (node instanceof nodes.Import) {
+			for (const child of node.getChildren()) {
+				if (child.type === nodes.NodeType.StringLiteral) {
+					result.push({ type: nodes.NodeType.Import, node, target: unquote(child.getText()) });
+				}
+			}
+		} else if (node instanceof nodes.Use) {
+			const target = getModuleUrl(node);
+			if (target !== undefined) {
+				let namespace: string | null;
+				if (node.getIdentifier()) {
+					namespace = node.getIdentifier()!.getText();
+				} else if (/\sas\s+\*/.test(node.getText())) {
+					namespace = null;
+				} else {
+					namespace = getDefaultNamespace(target);
+				}
+				result.push({ type: nodes.NodeType.Use, node, target, namespace });
+			}
+		} else if (node instanceof nodes.Forward) {
+			const link = getForwardLink(node);
+			if (link) {
+				result.push(link);
+			}
+		}
+	}
+	return result;
+}
+
+function getForwardLink(node: nodes.Forward): ModuleLink | undefined {
+	const target = getModuleUrl(node);
+	if (target === undefined) {
+		return undefined;
+	}
+	const link: ModuleLink = { type: nodes.NodeType.Forward, node, target, prefix: node.getIdentifier()?.getText() };
+	const visibility = node.getChildren().find(child => child instanceof nodes.ForwardVisibility);
+	if (visibility instanceof nodes.ForwardVisibility) {
+		const names = visibility.getChildren().filter(child => child !== visibility.getIdentifier()).map(child => child.getText());
+		if (visibility.getIdentifier()?.getText() === 'show') {
+			link.show = names;
+		} else {
+			link.hide = names;
+		}
+	}
+	return link;
+}
+
+function getModuleUrl(node: nodes.Use | nodes.Forward): string | undefined {
+	const literal = node.getChildren().find(child => child.type === nodes.NodeType.StringLiteral);
+	return literal ? unquote(literal.getText()) : undefined;
+}
+
+function unquote(text: string): string {
+	return text.replace(/^['"]|['"]$/g, '');
+}
+
+/**
+ * The default namespace of a module is the last component of its URL, without extension.
+ * For example `@use 'sass:math'` and `@use 'src/corners.scss'` use `math` and `corners`.
+ */
+function getDefaultNamespace(url: string): string {
+	const lastSegment = url.substring(Math.max(url.lastIndexOf('/'), url.lastIndexOf(':')) + 1);
+	return lastSegment.replace(/^_/, '').split('.')[0];
+}
+
+/**
+ * Returns the name a member has in the forwarded module, or undefined if the `@forward`
+ * rule does not make it visible. `show` and `hide` refer to the prefixed names.
+ */
+function getForwardedMemberName(link: ModuleLink, name: string): string | undefined {
+	if (link.show && link.show.indexOf(name) === -1 || link.hide && link.hide.indexOf(name) !== -1) {
+		return undefined;
+	}
+	const sigil = getSigil(name);
+	const bareName = name.substring(sigil.length);
+	if (link.prefix) {
+		if (!bareName.startsWith(link.prefix)) {
+			return undefined;
+		}
+		return sigil + bareName.substring(link.prefix.length);
+	}
+	return name;
+}
+
+/**
+ * Returns the `$` of Sass and the `@` of Less variables.
+ */
+export function getSigil(name: string): string {
+	return /^[$@]/.test(name) ? name.charAt(0) : '';
+}
+
+/**
+ * Members starting with `-` or `_` are private to the module that declares them.
+ */
+export function isPrivateMember(name: string): boolean {
+	return /^\$[-_]|^[-_](?!-)/.test(name);
+}
@@ -0,0 +1,239 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { TextDocument, TextEdit, Range } from '../cssLanguageTypes.js';
+import { setsSameProperty } from './lintUtil.js';
+
+/**
+ * `alphabetical`, `grouped`, or a list of property names. Properties that are not in the list come last, in alphabetical order.
+ */
+export type PropertyOrder = 'alphabetical' | 'grouped' | string[];
+
+export type MisplacedDeclaration = {
+	declaration: nodes.Declaration;
+	/** The first declaration of the block that should come after `declaration` */
+	before: nodes.Declaration;
+};
+
+/**
+ * The property groups of the `grouped` order. Properties that are not listed, such as `content` or `pointer-events`, form the last group.
+ * Longhands follow their shorthand: `margin-top` is sorted with `margin`.
+ */
+const propertyGroups: string[][] = [
+	// positioning
+	['position', 'inset', 'top', 'right', 'bottom', 'left', 'z-index', 'float', 'clear'],
+	// box model
+	['display', 'flex', 'flex-direction', 'flex-wrap', 'flex-flow', 'flex-grow', 'flex-shrink', 'flex-basis', 'grid', 'grid-area', 'grid-template',
+		'grid-template-areas', 'grid-template-rows', 'grid-template-columns', 'grid-row', 'grid-column', 'grid-auto-flow', 'grid-auto-rows', 'grid-auto-columns',
+		'gap', 'row-gap', 'column-gap', 'place-content', 'place-items', 'place-self', 'align-content', 'align-items', 'align-self', 'justify-content',
+		'justify-items', 'justify-self', 'order', 'box-sizing', 'width', 'min-width', 'max-width', 'height', 'min-height', 'max-height', 'inline-size',
+		'min-inline-size', 'max-inline-size', 'block-size', 'min-block-size', 'max-block-size', 'aspect-ratio', 'margin', 'padding', 'border', 'overflow'],
+	// typography
+	['color', 'font', 'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant', 'line-height', 'letter-spacing', 'word-spacing',
+		'text-align', 'text-decoration', 'text-indent', 'text-overflow', 'text-transform', 'text-shadow', 'white-space', 'word-break', 'overflow-wrap',
+		'word-wrap', 'hyphens', 'vertical-align', 'list-style', 'quotes'],
+	// visual
+	['appearance', 'background', 'box-shadow', 'opacity', 'visibility', 'outline', 'filter', 'backdrop-filter', 'mix-blend-mode', 'clip-path', 'mask',
+		'object-fit', 'object-position', 'cursor', 'transform', 'transform-origin', 'transition', 'animation', 'will-change']
+];
+
+const groupedOrder = propertyGroups.flat();
+
+/**
+ * The property order of the `propertyOrder` setting: `grouped`, a list of property names, or `alphabetical` otherwise.
+ */
+export function getPropertyOrder(value: unknown): PropertyOrder {
+	if (Array.isArray(value)) {
+		return value.filter((name): name is string => typeof name === 'string').map(name => name.toLowerCase());
+	}
+	return value === 'grouped' ? 'grouped' : 'alphabetical';
+}
+
+/**
+ * Returns the first declaration of the block that is not in order, together with the declaration it should come before.
+ * Only consecutive declarations are compared: nested rules, `@include`, `@extend` and variable declarations are not moved.
+ */
+export function findMisplacedDeclaration(declarations: nodes.Node, order: PropertyOrder): MisplacedDeclaration | null {
+	const compare = getComparator(order);
+	for (const run of getDeclarationRuns(declarations)) {
+		const sorted = sortRun(run, compare);
+		const index = sorted.findIndex((declaration, i) => declaration !== run[i]);
+		if (index !== -1) {
+			return { declaration: sorted[index], before: run[index] };
+		}
+	}
+	return null;
+}
+
+/**
+ * Returns the edits sorting the declarations of the block. A declaration keeps the comments on the lines before it, and the comment
+ * following it on the same line.
+ */
+export function sortDeclarations(document: TextDocument, declarations: nodes.Node, order: PropertyOrder): TextEdit[] {
+	const compare = getComparator(order);
+	const text = document.getText();
+	const result: TextEdit[] = [];
+	for (const run of getDeclarationRuns(declarations)) {
+		const sorted = sortRun(run, compare);
+		if (sorted.every((declaration, i) => declaration === run[i])) {
+			continue;
+		}
+		const previous = declarations.getChildren()[declarations.getChildren().indexOf(run[0]) - 1];
+		const slots: { start: number; end: number; content: string }[] = [];
+		let offset = previous ? getEnd(text, previous, document.languageId) : declarations.offset + 1;
+		for (const declaration of run) {
+			const gap = text.substring(offset, declaration.offset);
+			const comment = /\/\*|\/\//.exec(gap);
+			const start = comment ? offset + comment.index : declaration.offset;
+			const end = getEnd(text, declaration, document.languageId);
+			const content = declaration.semicolonPosition === undefined
+				? text.substring(start, declaration.end) + ';' + text.substring(declaration.end, end)
+				: text.substring(start, end);
+			slots.push({ start, end, content });
+			offset = end;
+		}
+		let newText = '';
+		for (let i = 0; i < slots.length; i++) {
+			if (i > 0) {
+				newText += text.substring(slots[i - 1].end, slots[i].start);
+			}
+			newText += slots[run.indexOf(sorted[i])].content;
+		}
+		const range = Range.create(document.positionAt(slots[0].start), document.positionAt(slots[slots.length - 1].end));
+		result.push(TextEdit.replace(range, newText));
+	}
+	return result;
+}
+
+/**
+ * Sorts the declarations without changing the cascade: a declaration does not move before an earlier declaration that sets
+ * the same property, like a shorthand and one of its longhands, or a repeated property. The sort is stable.
+ */
+function sortRun(run: nodes.Declaration[], compare: (a: nodes.Declaration, b: nodes.Declaration) => number): nodes.Declaration[] {
+	const names = run.map(declaration => declaration.getFullPropertyName().toLowerCase());
+	const remaining = run.map((_, i) => i);
+	const result: nodes.Declaration[] = [];
+	while (remaining.length) {
+		let next = 0;
+		for (let j = 1; j < remaining.length; j++) {
+			const i = remaining[j];
+			if (compare(run[i], run[remaining[next]]) < 0 && !remaining.slice(0, j).some(k => setsSameProperty(names[k], names[i]))) {
+				next = j;
+			}
+		}
+		result.push(run[remaining[next]]);
+		remaining.splice(next, 1);
+	}
+	return result;
+}
+
+/**
+ * The sequences of consecutive declarations that can be moved
+ */
+function getDeclarationRuns(declarations: nodes.Node): nodes.Declaration[][] {
+	const result: nodes.Declaration[][] = [];
+	let run: nodes.Declaration[] = [];
+	for (const child of declarations.getChildren()) {
+		if (isSortable(child)) {
+			run.push(child);
+		} else if (run.length) {
+			result.push(run);
+			run = [];
+		}
+	}
+	if (run.length) {
+		result.push(run);
+	}
+	return result.filter(run => run.length > 1);
+}
+
+function isSortable(node: nodes.Node): node is nodes.Declaration {
+	if (!(node instanceof nodes.Declaration) || node.getNestedProperties() || !node.getValue()) {
+		return false;
+	}
+	let hasInterpolation = false;
+	node.getProperty()?.accept(child => {
+		hasInterpolation = hasInterpolation || child.type === nodes.NodeType.Interpolation;
+		return !hasInterpolation;
+	});
+	return !hasInterpolation;
+}
+
+/**
+ * The end of a statement, including its semicolon and a comment that follows on the same line
+ */
+function getEnd(text: string, node: nodes.Node, languageId: string): number {
+	let end = node instanceof nodes.AbstractDeclaration && node.semicolonPosition !== undefined ? node.semicolonPosition + 1 : node.end;
+	const semicolon = /^[ \t]*;/.exec(text.substring(end));
+	if (semicolon) {
+		end += semicolon[0].length;
+	}
+	const comment = (languageId === 'css' ? /^[ \t]*\/\*[\s\S]*?\*\// : /^[ \t]*(?:\/\*[\s\S]*?\*\/|\/\/[^\r\n]*)/).exec(text.substring(end));
+	return comment ? end + comment[0].length : end;
+}
+
+/**
+ * Custom properties come first and keep their order. Vendor specific properties are sorted by their standard name and come before it.
+ */
+function getComparator(order: PropertyOrder): (a: nodes.Declaration, b: nodes.Declaration) => number {
+	const keys = new Map<nodes.Declaration, SortKey>();
+	const getKey = (declaration: nodes.Declaration) => {
+		let key = keys.get(declaration);
+		if (!key) {
+			key = getSortKey(declaration, order);
+			keys.set(declaration, key);
+		}
+		return key;
+	};
+	return (a, b) => {
+		const keyA = getKey(a), keyB = getKey(b);
+		for (let i = 0; i < keyA.length; i++) {
+			if (keyA[i] !== keyB[i]) {
+				return keyA[i] < keyB[i] ? -1 : 1;
+			}
+		}
+		return 0;
+	};
+}
+
+/**
+ * The rank (custom properties, listed properties, other properties), the index in the list, the standard name, whether the property
+ * is the standard property, and the name
+ */
+type SortKey = [number, number, string, number, string];
+
+function getSortKey(declaration: nodes.Declaration, order: PropertyOrder): SortKey {
+	if (declaration instanceof nodes.CustomPropertyDeclaration) {
+		return [0, 0, '', 0, ''];
+	}
+	const name = declaration.getFullPropertyName().toLowerCase();
+	const standardName = declaration.getNonPrefixedPropertyName().toLowerCase();
+	const isStandard = name === standardName ? 1 : 0;
+	const list = order === 'grouped' ? groupedOrder : order;
+	const index = list === 'alphabetical' ? -1 : findIndex(list, standardName);
+	if (index === -1) {
+		return [2, 0, standardName, isStandard, name];
+	}
+	// longhands come after their shorthand
+	return [1, index, standardName === list[index] ? '' : standardName, isStandard, name];
+}
+
+/**
+ * The index of the property in the list, or the index of its closest shorthand in the list: `border-top-width` is sorted with `border-top`,
+ * or with `border`
+ */
+function findIndex(list: string[], name: string): number {
+	for (let candidate = name; candidate;) {
+		const index = list.indexOf(candidate);
+		if (index !== -1) {
+			return index;
+		}
+		const dash = candidate.lastIndexOf('-');
+		candidate = dash > 0 ? candidate.substring(0, dash) : '';
+	}
+	return -1;
+}
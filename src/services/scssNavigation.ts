@@ -7,13 +7,14 @@
 import { CSSNavigation, getModuleNameFromPath } from './cssNavigation.js';
 import { FileSystemProvider, DocumentContext, FileType, DocumentUri } from '../cssLanguageTypes.js';
 import * as nodes from '../parser/cssNodes.js';
+import { SCSSParser } from '../parser/scssParser.js';
 import { URI, Utils } from 'vscode-uri';
 import { convertSimple2RegExpPattern, startsWith } from '../utils/strings.js';
 import { dirname, joinPath } from '../utils/resources.js';
 
 export class SCSSNavigation extends CSSNavigation {
 	constructor(fileSystemProvider: FileSystemProvider | undefined) {
-		super(fileSystemProvider, true);
+		super(fileSystemProvider, true, new SCSSParser());
 	}
 
 	protected isRawStringDocumentLinkNode(node: nodes.Node): boolean {
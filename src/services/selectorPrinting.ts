@@ -211,7 +211,7 @@ namespace quotes {
 	}
 }
 
-class Specificity {
+export class Specificity {
 	/** Count of identifiers (e.g., `#app`) */
 	public id = 0;
 	/** Count of attributes (`[type="number"]`), classes (`.container-fluid`), and pseudo-classes (`:hover`) */
@@ -352,6 +352,11 @@ export class SelectorPrinting {
 	}
 
 	private selectorToSpecificityMarkedString(node: nodes.Node): MarkedString {
+		const specificity = this.selectorToSpecificity(node);
+		return `[${l10n.t('Selector Specificity')}](https://developer.mozilla.org/docs/Web/CSS/Specificity): (${specificity.id}, ${specificity.attr}, ${specificity.tag})`;
+	}
+
+	public selectorToSpecificity(node: nodes.Node): Specificity {
 		const calculateMostSpecificListItem = (childElements: Array<nodes.Node>): Specificity => {
 			const specificity = new Specificity();
 
@@ -525,8 +530,7 @@ export class SelectorPrinting {
 			return specificity;
 		};
 
-		const specificity = calculateScore(node);
-		return `[${l10n.t('Selector Specificity')}](https://developer.mozilla.org/docs/Web/CSS/Specificity): (${specificity.id}, ${specificity.attr}, ${specificity.tag})`;
+		return calculateScore(node);
 	}
 }
 
@@ -0,0 +1,160 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as nodes from '../parser/cssNodes.js';
+import { Symbol, Symbols } from '../parser/cssSymbolScope.js';
+import { TextDocument } from '../cssLanguageTypes.js';
+import { Rule, Rules } from './lintRules.js';
+import { isPrivateMember } from './moduleGraph.js';
+
+export type UnusedDeclaration = {
+	/** The node of the declared symbol: the variable, mixin or keyframes declaration, or the selector of a placeholder */
+	node: nodes.Node;
+	/** The name of the declaration, where the problem is reported */
+	nameNode: nodes.Node;
+	name: string;
+	rule: Rule;
+	/** Whether the declaration can only be referenced from its own document */
+	isLocal: boolean;
+};
+
+export const unusedDeclarationRules: Rule[] = [Rules.UnusedVariables, Rules.UnusedMixins, Rules.UnusedPlaceholders, Rules.UnusedKeyframes];
+
+/**
+ * Returns the variables, mixins, placeholder selectors and keyframes of the document that are not referenced in the document.
+ * References that can not be resolved to a declaration, like the calls of namespaced Less mixins, are matched by name.
+ */
+export function findUnusedDeclarations(document: TextDocument, stylesheet: nodes.Node): UnusedDeclaration[] {
+	const symbols = new Symbols(stylesheet);
+	const isSCSS = document.languageId === 'scss';
+	const declarations: UnusedDeclaration[] = [];
+	const usedSymbols = new Set<Symbol>();
+	const unresolvedNames = new Set<string>();
+	const usedKeyframes = new Set<string>();
+
+	stylesheet.accept(node => {
+		if (node instanceof nodes.VariableDeclaration) {
+			const variable = node.getVariable();
+			if (variable && !/!global\b/.test(node.getText()) && !isAssignment(symbols, node)) {
+				const isPrivate = isSCSS && isPrivateMember(variable.getName());
+				declarations.push({ node, nameNode: variable, name: variable.getName(), rule: Rules.UnusedVariables, isLocal: isPrivate || isNested(node) });
+			}
+		} else if (node instanceof nodes.MixinDeclaration) {
+			const identifier = node.getIdentifier();
+			if (identifier) {
+				const isPrivate = isSCSS && isPrivateMember(node.getName());
+				declarations.push({ node, nameNode: identifier, name: node.getName(), rule: Rules.UnusedMixins, isLocal: isPrivate || isNested(node) });
+			}
+		} else if (node instanceof nodes.Keyframe) {
+			const identifier = node.getIdentifier();
+			if (identifier && /^[\w-]+$/.test(identifier.getText())) {
+				declarations.push({ node, nameNode: identifier, name: node.getName(), rule: Rules.UnusedKeyframes, isLocal: false });
+			}
+		} else if (node instanceof nodes.Selector) {
+			const placeholder = getDeclaredPlaceholder(node);
+			if (placeholder) {
+				const name = placeholder.getText();
+				declarations.push({ node, nameNode: placeholder, name, rule: Rules.UnusedPlaceholders, isLocal: isSCSS && isPrivateMember(name.substring(1)) });
+			}
+		} else if (isKeyframeReference(node)) {
+			usedKeyframes.add(node.getText());
+		} else if (isLocalReference(node)) {
+			const symbol = symbols.findSymbolFromNode(node);
+			if (symbol) {
+				usedSymbols.add(symbol);
+			} else {
+				unresolvedNames.add(node.getText());
+			}
+		}
+		return true;
+	});
+
+	const text = document.getText();
+	return declarations.filter(declaration => {
+		if (declaration.rule === Rules.UnusedKeyframes) {
+			return !usedKeyframes.has(declaration.name);
+		}
+		// redeclarations and overloads share the symbol of the first declaration
+		const symbol = symbols.findSymbolFromNode(declaration.nameNode);
+		if (symbol && usedSymbols.has(symbol) || unresolvedNames.has(declaration.name)) {
+			return false;
+		}
+		return declaration.rule !== Rules.UnusedVariables || !isReferencedInInterpolation(text, declaration.name, isSCSS);
+	});
+}
+
+/**
+ * Returns true if the identifier is the keyframes name of an `animation` or `animation-name` declaration.
+ */
+export function isKeyframeReference(node: nodes.Node): boolean {
+	if (node.type !== nodes.NodeType.Identifier || (<nodes.Identifier>node).isCustomProperty) {
+		return false;
+	}
+	const declaration = nodes.getParentDeclaration(node);
+	if (!declaration) {
+		return false;
+	}
+	const propertyName = declaration.getNonPrefixedPropertyName().toLowerCase();
+	return (propertyName === 'animation' || propertyName === 'animation-name') && node.parent?.type === nodes.NodeType.Term;
+}
+
+/**
+ * Returns true if the node is the placeholder selector of an `@extend` rule.
+ */
+export function isExtendedPlaceholder(node: nodes.Node): boolean {
+	return node.type === nodes.NodeType.SelectorPlaceholder && !!node.findAParent(nodes.NodeType.ExtendsReference) && node.getText().startsWith('%');
+}
+
+function getDeclaredPlaceholder(selector: nodes.Selector): nodes.Node | undefined {
+	const simpleSelector = selector.getChildren().length === 1 ? selector.getChild(0) : null;
+	const placeholder = simpleSelector && simpleSelector.getChildren().length === 1 ? simpleSelector.getChild(0) : null;
+	if (placeholder && placeholder.type === nodes.NodeType.SelectorPlaceholder && placeholder.getText().startsWith('%') && selector.parent?.parent instanceof nodes.RuleSet) {
+		return placeholder;
+	}
+	return undefined;
+}
+
+function isLocalReference(node: nodes.Node): boolean {
+	const parent = node.parent;
+	if (node instanceof nodes.Variable) {
+		return !(parent instanceof nodes.VariableDeclaration && parent.getVariable() === node)
+			&& !(parent instanceof nodes.FunctionParameter)
+			&& !(parent instanceof nodes.ForStatement)
+			&& !(parent?.parent instanceof nodes.EachStatement)
+			&& !(parent instanceof nodes.ModuleConfiguration)
+			&& !(parent instanceof nodes.Module);
+	}
+	if (parent instanceof nodes.MixinReference && parent.getIdentifier() === node) {
+		return !parent.getChildren().some(child => child instanceof nodes.Module);
+	}
+	return isExtendedPlaceholder(node);
+}
+
+/**
+ * Declarations in a ruleset, mixin or function are not visible outside of the document.
+ */
+function isNested(node: nodes.Node): boolean {
+	return !!node.parent?.findAParent(nodes.NodeType.Ruleset, nodes.NodeType.MixinDeclaration, nodes.NodeType.FunctionDeclaration);
+}
+
+/**
+ * A variable declaration in a block that assigns a variable of an enclosing scope.
+ */
+function isAssignment(symbols: Symbols, node: nodes.VariableDeclaration): boolean {
+	const block = node.findAParent(nodes.NodeType.Declarations);
+	return !!block && block.offset > 0 && !!symbols.findSymbol(node.getName(), nodes.ReferenceType.Variable, block.offset - 1);
+}
+
+/**
+ * Interpolations in strings and Less variable variables (`@@name`) are not part of the parse tree.
+ */
+function isReferencedInInterpolation(text: string, name: string, isSCSS: boolean): boolean {
+	const escapedName = name.replace(/[$]/g, '\\$');
+	if (isSCSS) {
+		return new RegExp(`#\\{[^}]*${escapedName}(?![\\w-])`).test(text);
+	}
+	return new RegExp(`@\\{${escapedName.substring(1)}\\}|@${escapedName}(?![\\w-])`).test(text);
+}
@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { suite, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as path from 'path';
+import { fileURLToPath } from 'node:url';
+import { URI } from 'vscode-uri';
+import { getLESSLanguageService, getSCSSLanguageService, LanguageService, TextDocument, CallHierarchyItem, Range } from '../../cssLanguageService.js';
+import { getFsProvider } from '../testUtil/fsProvider.js';
+import { getDocumentContext } from '../testUtil/documentContext.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function toText(item: CallHierarchyItem, ranges: Range[]): string {
+	return `${path.basename(item.uri)} ${item.name} ${ranges.map(r => `${r.start.line}:${r.start.character}`).join(',')}`;
+}
+
+async function prepare(ls: LanguageService, document: TextDocument, token: string): Promise<CallHierarchyItem> {
+	const position = document.positionAt(document.getText().indexOf(token));
+	const items = await ls.prepareCallHierarchy(document, position, ls.parseStylesheet(document), getDocumentContext(document.uri));
+	assert.strictEqual(items.length, 1, `no item at ${token}`);
+	return items[0];
+}
+
+async function assertIncomingCalls(ls: LanguageService, document: TextDocument, token: string, expected: string[]) {
+	const item = await prepare(ls, document, token);
+	const calls = await ls.provideIncomingCalls(document, ls.parseStylesheet(document), item, getDocumentContext(document.uri));
+	assert.deepStrictEqual(calls.map(call => toText(call.from, call.fromRanges)), expected);
+}
+
+async function assertOutgoingCalls(ls: LanguageService, document: TextDocument, token: string, expected: string[]) {
+	const item = await prepare(ls, document, token);
+	const calls = await ls.provideOutgoingCalls(document, ls.parseStylesheet(document), item, getDocumentContext(document.uri));
+	assert.deepStrictEqual(calls.map(call => toText(call.to, call.fromRanges)), expected);
+}
+
+suite('SCSS - Call Hierarchy', () => {
+
+	const content = [
+		'@function double($n) { @return $n * 2; }',
+		'@mixin size($s) { width: double($s); height: double($s); }',
+		'@mixin box { @include size(2px); .inner { @include size(1px); } }',
+		'.a { @include box; .b { width: double(1px); } }',
+		'@include box;'
+	].join('\n');
+	const document = TextDocument.create('test://test/test.scss', 'scss', 0, content);
+
+	test('prepare', async () => {
+		const ls = getSCSSLanguageService();
+		const item = await prepare(ls, document, 'size(2px)');
+		assert.strictEqual(item.name, 'size');
+		assert.deepStrictEqual(item.selectionRange, Range.create(1, 7, 1, 11));
+		const items = await ls.prepareCallHierarchy(document, document.positionAt(content.indexOf('width')), ls.parseStylesheet(document), getDocumentContext(document.uri));
+		assert.deepStrictEqual(items, []);
+	});
+
+	test('incoming calls', async () => {
+		const ls = getSCSSLanguageService();
+		await assertIncomingCalls(ls, document, 'double($n)', ['test.scss size 1:25,1:45', 'test.scss .a 3:31']);
+		await assertIncomingCalls(ls, document, 'size($s)', ['test.scss box 2:22,2:51']);
+		await assertIncomingCalls(ls, document, 'box {', ['test.scss .a 3:14', 'test.scss test.scss 4:9']);
+	});
+
+	test('outgoing calls', async () => {
+		const ls = getSCSSLanguageService();
+		await assertOutgoingCalls(ls, document, 'box {', ['test.scss size 2:22,2:51']);
+		await assertOutgoingCalls(ls, document, 'size($s)', ['test.scss double 1:25,1:45']);
+		await assertOutgoingCalls(ls, document, 'double($n)', []);
+	});
+
+	test('calls across modules', async () => {
+		const ls = getSCSSLanguageService({ fileSystemProvider: getFsProvider() });
+		const fixtureRoot = path.resolve(__dirname, '../../../../src/test/scss/linkFixture/definition');
+		const getDocument = async (relativePath: string) => {
+			const uri = URI.file(path.resolve(fixtureRoot, relativePath)).toString(true);
+			return TextDocument.create(uri, 'scss', 0, await getFsProvider().getContent!(uri));
+		};
+
+		const theme = await getDocument('./_theme.scss');
+		const item = await prepare(ls, theme, 'button-base');
+		assert.strictEqual(path.basename(item.uri), '_buttons.scss');
+
+		const buttons = await getDocument('./_buttons.scss');
+		const workspace = { folders: [URI.file(fixtureRoot).toString(true)] };
+		const incomingCalls = await ls.provideIncomingCalls(buttons, ls.parseStylesheet(buttons), item, getDocumentContext(buttons.uri), workspace);
+		assert.deepStrictEqual(incomingCalls.map(call => toText(call.from, call.fromRanges)), ['_theme.scss .button 4:14']);
+
+		const outgoingCalls = await ls.provideOutgoingCalls(theme, ls.parseStylesheet(theme), incomingCalls[0].from, getDocumentContext(theme.uri));
+		assert.deepStrictEqual(outgoingCalls.map(call => toText(call.to, call.fromRanges)), ['_buttons.scss button-base 4:14']);
+	});
+});
+
+suite('LESS - Call Hierarchy', () => {
+
+	test('mixins', async () => {
+		const ls = getLESSLanguageService();
+		const document = TextDocument.create('test://test/test.less', 'less', 0, '.size(@s) { width: @s; }\n.box() { .size(2px); }\n.a { .box(); }');
+		await assertIncomingCalls(ls, document, 'size(@s)', ['test.less .box 1:9']);
+		await assertOutgoingCalls(ls, document, 'box()', ['test.less .size 1:9']);
+	});
+});
@@ -7,21 +7,21 @@
 import { suite, test } from 'node:test';
 import * as assert from 'node:assert';
 
-import { getCSSLanguageService, TextDocument, TextEdit, Range, Command, CodeAction, TextDocumentEdit } from '../../cssLanguageService.js';
+import { getCSSLanguageService, getSCSSLanguageService, TextDocument, TextEdit, Range, Command, CodeAction, TextDocumentEdit, LintSettings } from '../../cssLanguageService.js';
 
 suite('CSS - Code Actions', () => {
 
-	let testCodeActions = function (value: string, tokenBefore: string, expected: { title: string; content: string; }[]) {
-		let ls = getCSSLanguageService();
+	let testCodeActions = function (value: string, tokenBefore: string, expected: { title: string; content: string; }[], lint?: LintSettings, languageId = 'css') {
+		let ls = languageId === 'scss' ? getSCSSLanguageService() : getCSSLanguageService();
 
-		let document = TextDocument.create('test://test/test.css', 'css', 0, value);
+		let document = TextDocument.create(`test://test/test.${languageId}`, languageId, 0, value);
 		let styleSheet = ls.parseStylesheet(document);
 		let offset = value.indexOf(tokenBefore);
 		let startPosition = document.positionAt(offset);
 		let endPosition = document.positionAt(offset + tokenBefore.length);
 		let range = Range.create(startPosition, endPosition);
 
-		ls.configure({ validate: true });
+		ls.configure({ validate: true, lint });
 
 		let diagnostics = ls.doValidation(document, styleSheet);
 		let commands = ls.doCodeActions(document, range, { diagnostics }, styleSheet);
@@ -31,6 +31,17 @@ suite('CSS - Code Actions', () => {
 		assertCodeAction2(codeActions, document, expected);
 	};
 
+	let assertNoCodeAction = function (value: string, tokenBefore: string, title: string, languageId = 'css') {
+		let ls = languageId === 'scss' ? getSCSSLanguageService() : getCSSLanguageService();
+
+		let document = TextDocument.create(`test://test/test.${languageId}`, languageId, 0, value);
+		let styleSheet = ls.parseStylesheet(document);
+		let position = document.positionAt(value.indexOf(tokenBefore));
+
+		let codeActions = ls.doCodeActions2(document, Range.create(position, position), { diagnostics: [] }, styleSheet);
+		assert.deepStrictEqual(codeActions.map(codeAction => codeAction.title).filter(label => label === title), []);
+	};
+
 	let assertCodeAction = function (commands: Command[], document: TextDocument, expected: { title: string; content: string; }[]) {
 		let labels = commands.map(command => command.title);
 
@@ -73,4 +84,171 @@ suite('CSS - Code Actions', () => {
 			{ title: 'Rename to \'background-image\'', content: 'body { /*here*/background-image: red }' }
 		]);
 	});
+
+	test('Unsupported features', async function () {
+		const lint = { browserTargets: 'chrome >= 50' };
+		testCodeActions('body { /*here*/gap: 1px; color: red }', '/*here*/', [
+			{ title: 'Wrap in \'@supports (gap: 1px)\'', content: 'body { /*here*/@supports (gap: 1px) { gap: 1px; } color: red }' }
+		], lint);
+		testCodeActions('body { /*here*/gap: 1px !important; color: red }', '/*here*/', [
+			{ title: 'Wrap in \'@supports (gap: 1px)\'', content: 'body { /*here*/@supports (gap: 1px) { gap: 1px !important; } color: red }' }
+		], lint);
+		testCodeActions('@media screen {\n  a:has(b) {\n    color: red;\n  }\n}', ':has', [
+			{ title: 'Wrap in \'@supports selector(a:has(b))\'', content: '@media screen {\n  @supports selector(a:has(b)) {\n    a:has(b) {\n      color: red;\n    }\n  }\n}' }
+		], lint);
+	});
+
+	test('Unused declarations', async function () {
+		const title = 'Remove unused declaration';
+		testCodeActions('.a {\n\t$unused: 1px;\n\tcolor: red;\n}', '$unused', [
+			{ title, content: '.a {\n\tcolor: red;\n}' }
+		], undefined, 'scss');
+		testCodeActions('.a { @mixin unused { } color: red; }', 'unused', [
+			{ title, content: '.a { color: red; }' }
+		], undefined, 'scss');
+		testCodeActions('%-unused, %-used { color: red; }\n.a { @extend %-used; }', '%-unused', [
+			{ title, content: '%-used { color: red; }\n.a { @extend %-used; }' }
+		], undefined, 'scss');
+	});
+
+	test('Vendor prefixes', async function () {
+		testCodeActions('.a { -moz-box-sizing: border-box; }', '-moz-box-sizing', [
+			{ title: 'Add standard property \'box-sizing\'', content: '.a { -moz-box-sizing: border-box; box-sizing: border-box; }' }
+		]);
+		testCodeActions('.a {\n\t-webkit-transition: none;\n\ttransition: none !important;\n}', '-webkit-transition', [
+			{ title: 'Add missing vendor specific properties', content: '.a {\n\t-webkit-transition: none;\n\t-moz-transition: none;\n\t-o-transition: none;\n\ttransition: none !important;\n}' }
+		], { compatibleVendorPrefixes: 'warning' });
+		testCodeActions('.a { -moz-box-sizing: border-box; box-sizing: border-box }', '-moz-box-sizing', [
+			{ title: 'Remove \'-moz-box-sizing\'', content: '.a { box-sizing: border-box }' }
+		], { browserTargets: 'firefox >= 100' });
+		testCodeActions('.a { -moz-box-sizing: border-box }', '-moz-box-sizing', [
+			{ title: 'Replace with \'box-sizing\'', content: '.a { box-sizing: border-box }' }
+		], { browserTargets: 'firefox >= 100' });
+	});
+
+	test('Properties overridden by a shorthand', async function () {
+		testCodeActions('.a {\n\tbackground-color: red;\n\tbackground: url(x.png);\n}', 'background-color', [
+			{ title: 'Move after \'background\'', content: '.a {\n\tbackground: url(x.png);\n\tbackground-color: red;\n}' },
+			{ title: 'Merge into \'background\'', content: '.a {\n\tbackground: url(x.png) red;\n}' }
+		]);
+		testCodeActions('.a { margin-top: 1px; margin: 0 }', 'margin-top', [
+			{ title: 'Move after \'margin\'', content: '.a { margin: 0; margin-top: 1px }' },
+			{ title: 'Merge into \'margin\'', content: '.a { margin: 1px 0 0 }' }
+		]);
+		testCodeActions('.a { border-top-width: 1px; border: solid }', 'border-top-width', [
+			{ title: 'Move after \'border\'', content: '.a { border: solid; border-top-width: 1px }' }
+		]);
+	});
+
+	test('Shorthands', async function () {
+		testCodeActions('.a {\n\tmargin: 1px 2px;\n}', 'margin', [
+			{ title: 'Expand \'margin\' into longhand properties', content: '.a {\n\tmargin-top: 1px;\n\tmargin-right: 2px;\n\tmargin-bottom: 1px;\n\tmargin-left: 2px;\n}' }
+		]);
+		testCodeActions('.a { font: bold 12px/1.5 "Helvetica Neue", serif }', 'font', [
+			{ title: 'Expand \'font\' into longhand properties', content: '.a { font-style: normal; font-variant: normal; font-weight: bold; font-stretch: normal; font-size: 12px; line-height: 1.5; font-family: "Helvetica Neue", serif }' }
+		]);
+		testCodeActions('.a { background: url(a.png) center / cover no-repeat red; }', 'background', [
+			{ title: 'Expand \'background\' into longhand properties', content: '.a { background-image: url(a.png); background-position: center; background-size: cover; background-repeat: no-repeat; background-attachment: scroll; background-origin: padding-box; background-clip: border-box; background-color: red; }' }
+		]);
+		testCodeActions('.a { grid-area: main / 2; }', 'grid-area', [
+			{ title: 'Expand \'grid-area\' into longhand properties', content: '.a { grid-row-start: main; grid-column-start: 2; grid-row-end: main; grid-column-end: auto; }' }
+		]);
+		testCodeActions('.a { border: 1px solid; }', 'border', [
+			{ title: 'Expand \'border\' into longhand properties', content: '.a { border-width: 1px; border-style: solid; border-color: currentcolor; }' }
+		]);
+
+		testCodeActions('.a {\n\tmargin-top: 1px;\n\tcolor: red;\n\tmargin-right: 2px;\n\tmargin-bottom: 1px;\n\tmargin-left: 2px;\n}', 'margin-right', [
+			{ title: 'Collapse into \'margin\' shorthand', content: '.a {\n\tmargin: 1px 2px;\n\tcolor: red;\n}' }
+		]);
+		testCodeActions('.a { border-width: 1px; border-style: solid; border-color: currentcolor }', 'border-style', [
+			{ title: 'Collapse into \'border\' shorthand', content: '.a { border: 1px solid; }' }
+		]);
+		testCodeActions('.a { grid-row-start: a; grid-column-start: a; grid-row-end: a; grid-column-end: a; }', 'grid-row-end', [
+			{ title: 'Collapse into \'grid-area\' shorthand', content: '.a { grid-area: a; }' }
+		]);
+		testCodeActions('.a { font-style: normal; font-variant: normal; font-weight: 700; font-stretch: normal; font-size: 1rem; line-height: normal; font-family: serif; }', 'font-size', [
+			{ title: 'Collapse into \'font\' shorthand', content: '.a { font: 700 1rem serif; }' }
+		]);
+
+		const expandMargin = 'Expand \'margin\' into longhand properties';
+		const collapseMargin = 'Collapse into \'margin\' shorthand';
+		assertNoCodeAction('.a { margin: 1px !important; }', 'margin', expandMargin);
+		assertNoCodeAction('.a { margin: var(--gap) 0; }', 'margin', expandMargin);
+		assertNoCodeAction('.a { margin: $gap 0; }', 'margin', expandMargin, 'scss');
+		assertNoCodeAction('.a { margin-top: 0; margin-right: var(--gap); margin-bottom: 0; margin-left: 0; }', 'margin-top', collapseMargin);
+		assertNoCodeAction('.a { margin-top: 0; margin-right: 0 !important; margin-bottom: 0; margin-left: 0; }', 'margin-top', collapseMargin);
+		assertNoCodeAction('.a { margin-top: 0; margin-inline: 1px; margin-right: 0; margin-bottom: 0; margin-left: 0; }', 'margin-top', collapseMargin);
+		assertNoCodeAction('.a { margin-top: 0; margin-right: 0; margin-bottom: 0; }', 'margin-top', collapseMargin);
+		assertNoCodeAction('.a { background: url(a.png), red; }', 'background', 'Expand \'background\' into longhand properties');
+	});
+
+	test('Fix all', async function () {
+		const ls = getCSSLanguageService();
+		const document = TextDocument.create('test://test/test.css', 'css', 0, '.a { margin: 0px 0em; displai: block; -moz-box-sizing: border-box; }\n.b { -webkit-transform: none; }');
+		const stylesheet = ls.parseStylesheet(document);
+		const settings = { lint: { zeroUnits: 'warning' } };
+
+		assert.strictEqual(TextDocument.applyEdits(document, ls.fixAll(document, stylesheet, settings)),
+			'.a { margin: 0 0; display: block; -moz-box-sizing: border-box; box-sizing: border-box; }\n.b { -webkit-transform: none; transform: none; }');
+		assert.strictEqual(TextDocument.applyEdits(document, ls.fixAll(document, stylesheet, { ...settings, fixAll: { rules: ['zeroUnits'] } })),
+			'.a { margin: 0 0; displai: block; -moz-box-sizing: border-box; }\n.b { -webkit-transform: none; }');
+
+		ls.configure(settings);
+		const codeActions = ls.doCodeActions2(document, Range.create(0, 0, 0, 0), { diagnostics: [], only: ['source.fixAll'] }, stylesheet);
+		assert.deepStrictEqual(codeActions.map(codeAction => [codeAction.title, codeAction.kind]), [['Fix all auto-fixable problems', 'source.fixAll.css']]);
+		assertCodeAction2(codeActions, document, [{ title: 'Fix all auto-fixable problems', content: TextDocument.applyEdits(document, ls.fixAll(document, stylesheet)) }]);
+		assert.deepStrictEqual(ls.doCodeActions2(document, Range.create(0, 0, 0, 0), { diagnostics: [] }, stylesheet), []);
+
+		const mathDocument = TextDocument.create('test://test/test.css', 'css', 0, '.a { width: max(0px, 1em); height: calc(1px + min(0px, 2em)); margin: 0px; }');
+		assert.strictEqual(TextDocument.applyEdits(mathDocument, ls.fixAll(mathDocument, ls.parseStylesheet(mathDocument), settings)),
+			'.a { width: max(0px, 1em); height: calc(1px + min(0px, 2em)); margin: 0; }');
+
+		const prefixDocument = TextDocument.create('test://test/test.css', 'css', 0, '.a { -webkit-border-radius: 0px }');
+		assert.strictEqual(TextDocument.applyEdits(prefixDocument, ls.fixAll(prefixDocument, ls.parseStylesheet(prefixDocument), settings)),
+			'.a { -webkit-border-radius: 0; border-radius: 0 }');
+
+		const suppressedDocument = TextDocument.create('test://test/test.css', 'css', 0, '/* css-lint-disable-next-line zeroUnits */\n.a { margin: 0px }\n.b { margin: 0px }');
+		assert.strictEqual(TextDocument.applyEdits(suppressedDocument, ls.fixAll(suppressedDocument, ls.parseStylesheet(suppressedDocument), settings)),
+			'/* css-lint-disable-next-line zeroUnits */\n.a { margin: 0px }\n.b { margin: 0 }');
+	});
+
+	test('Suppress lint rules', async function () {
+		const lint: LintSettings = { idSelector: 'warning', important: 'warning' };
+		testCodeActions('.a {\n\t#b { color: red; }\n}', '#b', [
+			{ title: "Suppress 'idSelector' for this line", content: '.a {\n\t/* css-lint-disable-next-line idSelector */\n\t#b { color: red; }\n}' }
+		], lint);
+		testCodeActions('/* css-lint-disable-next-line idSelector */\n#b { color: red !important; }', '!important', [
+			{ title: "Suppress 'important' for this line", content: '/* css-lint-disable-next-line idSelector, important */\n#b { color: red !important; }' }
+		], { idSelector: 'warning', important: 'warning', unusedSuppressions: 'ignore' });
+		testCodeActions('.a { color: red !important; }', '!important', [
+			{ title: "Suppress 'important' for this line", content: '/* css-lint-disable-next-line important */\n.a { color: red !important; }' }
+		], lint);
+	});
+
+	test('Sort properties', async function () {
+		const assertSortProperties = (languageId: string, value: string, expected: string | undefined, lint?: LintSettings) => {
+			const ls = languageId === 'scss' ? getSCSSLanguageService() : getCSSLanguageService();
+			const document = TextDocument.create(`test://test/test.${languageId}`, languageId, 0, value);
+			ls.configure({ lint });
+			const codeActions = ls.doCodeActions2(document, Range.create(0, 0, 0, 0), { diagnostics: [], only: ['source.sortProperties'] }, ls.parseStylesheet(document));
+			assert.deepStrictEqual(codeActions.map(codeAction => codeAction.kind), expected === undefined ? [] : ['source.sortProperties']);
+			if (expected !== undefined) {
+				assertCodeAction2(codeActions, document, [{ title: 'Sort properties', content: expected }]);
+			}
+		};
+		assertSortProperties('css', '.a { color: red; display: block; }', undefined);
+		assertSortProperties('css', '.a {\n\tz-index: 1; /* above */\n\t/* the text */\n\tcolor: red;\n\t--x: 1;\n\ttransform: none;\n\t-webkit-transform: none\n}\n.b { width: 0; color: red }',
+			'.a {\n\t--x: 1;\n\t/* the text */\n\tcolor: red;\n\t-webkit-transform: none;\n\ttransform: none;\n\tz-index: 1; /* above */\n}\n.b { color: red; width: 0; }');
+		assertSortProperties('css', '.a { color: red; width: 0; position: absolute; }', '.a { position: absolute; width: 0; color: red; }', { propertyOrder: 'grouped' });
+		assertSortProperties('css', '.a { color: red; height: 0; width: 0; }', '.a { width: 0; height: 0; color: red; }', { propertyOrder: ['width', 'height'] });
+		assertSortProperties('scss', '.a {\n  width: 0; // w\n  color: red;\n  @include m;\n  top: 0;\n  bottom: 0;\n  .b { top: 0; bottom: 0; }\n}',
+			'.a {\n  color: red;\n  width: 0; // w\n  @include m;\n  bottom: 0;\n  top: 0;\n  .b { bottom: 0; top: 0; }\n}');
+		assertSortProperties('scss', '.a { width: 0; @extend %b; color: red; }', undefined);
+		assertSortProperties('css', '.a { padding-left: 1px; margin: 0; padding: 0; }', '.a { margin: 0; padding-left: 1px; padding: 0; }');
+		assertSortProperties('css', '.a { color: red; border-left: 1px solid; border-color: red; }', '.a { border-left: 1px solid; border-color: red; color: red; }');
+
+		testCodeActions('.a { width: 0; color: red; }', 'color', [
+			{ title: 'Sort properties of the rule', content: '.a { color: red; width: 0; }' }
+		], { order: 'warning' });
+	});
 });
@@ -1006,6 +1006,150 @@ suite('CSS - Completion', () => {
 		});
 	})
 
+	test('anchor name completion', async function () {
+		await testCompletionFor(`.a { anchor-name: --tooltip; } .b { top: anchor(|) }`, {
+			items: [
+				{ label: '--tooltip', resultText: '.a { anchor-name: --tooltip; } .b { top: anchor(--tooltip) }' }
+			]
+		});
+		await testCompletionFor(`.a { anchor-name: --tooltip; } .b { width: anchor-size(--t|) }`, {
+			items: [
+				{ label: '--tooltip', resultText: '.a { anchor-name: --tooltip; } .b { width: anchor-size(--tooltip) }' }
+			]
+		});
+		await testCompletionFor(`.b { position-anchor: | } .a { anchor-name: --tooltip; }`, {
+			items: [
+				{ label: '--tooltip', resultText: '.b { position-anchor: --tooltip } .a { anchor-name: --tooltip; }' }
+			]
+		});
+		await testCompletionFor(`@position-try --bottom { top: anchor(bottom) } .b { position-try-fallbacks: |; }`, {
+			items: [
+				{ label: '--bottom', resultText: '@position-try --bottom { top: anchor(bottom) } .b { position-try-fallbacks: --bottom; }' },
+				{ label: '--tooltip', notAvailable: true }
+			]
+		});
+	});
+
+	test('@container completion', async function () {
+		await testCompletionFor(`.a { container: sidebar / inline-size; } @container | { }`, {
+			items: [
+				{ label: 'sidebar', resultText: '.a { container: sidebar / inline-size; } @container sidebar { }' },
+				{ label: 'style()', resultText: '.a { container: sidebar / inline-size; } @container style($1) { }' },
+				{ label: 'scroll-state()', resultText: '.a { container: sidebar / inline-size; } @container scroll-state($1) { }' },
+				{ label: 'inline-size', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@container card | { } .a { container-name: card; }`, {
+			items: [
+				{ label: 'card', notAvailable: true },
+				{ label: 'style()', resultText: '@container card style($1) { } .a { container-name: card; }' }
+			]
+		});
+		await testCompletionFor(`@container (|) { }`, {
+			items: [
+				{ label: 'inline-size', resultText: '@container (inline-size) { }' },
+				{ label: 'orientation', resultText: '@container (orientation: ) { }' },
+				{ label: 'stuck', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@container (inline-size > 30|) { }`, {
+			items: [
+				{ label: '30cqi', resultText: '@container (inline-size > 30cqi) { }' },
+				{ label: '30px', resultText: '@container (inline-size > 30px) { }' }
+			]
+		});
+		await testCompletionFor(`@container scroll-state(|) { }`, {
+			items: [
+				{ label: 'stuck', resultText: '@container scroll-state(stuck: ) { }' },
+				{ label: 'width', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@container scroll-state(snapped: |) { }`, {
+			items: [
+				{ label: 'x', resultText: '@container scroll-state(snapped: x) { }' },
+				{ label: 'top', notAvailable: true }
+			]
+		});
+	});
+
+	test('view transition name completion', async function () {
+		await testCompletionFor(`.a { view-transition-name: hero; } .b { view-transition-name: none; } ::view-transition-group(|) { }`, {
+			items: [
+				{ label: 'hero', resultText: '.a { view-transition-name: hero; } .b { view-transition-name: none; } ::view-transition-group(hero) { }' },
+				{ label: 'none', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`::view-transition-old(he|) { } .a { view-transition-name: header; }`, {
+			items: [
+				{ label: 'header', resultText: '::view-transition-old(header) { } .a { view-transition-name: header; }' }
+			]
+		});
+		await testCompletionFor(`@view-transition { navigation: | }`, {
+			items: [
+				{ label: 'auto', resultText: '@view-transition { navigation: auto }' },
+				{ label: 'none', resultText: '@view-transition { navigation: none }' }
+			]
+		});
+	});
+
+	test('custom function and mixin completion', async function () {
+		await testCompletionFor(`@function --double(--x <length>) { result: calc(2 * var(--x)); } .a { width: | }`, {
+			items: [
+				{ label: '--double', resultText: '@function --double(--x <length>) { result: calc(2 * var(--x)); } .a { width: --double(${1:--x}) }' }
+			]
+		});
+		await testCompletionFor(`@mixin --center(--axis) { place-items: center; } .a { @apply | }`, {
+			items: [
+				{ label: '--center', resultText: '@mixin --center(--axis) { place-items: center; } .a { @apply --center(${1:--axis}) }' }
+			]
+		});
+		await testCompletionFor(`@mixin --center(--axis) { place-items: center; } .a { @apply --c|; }`, {
+			items: [
+				{ label: '--center', resultText: '@mixin --center(--axis) { place-items: center; } .a { @apply --center(${1:--axis}); }' }
+			]
+		});
+	});
+
+	test('at-rule descriptor completion', async function () {
+		await testCompletionFor(`@counter-style thumbs { | }`, {
+			items: [
+				{ label: 'system', resultText: '@counter-style thumbs { system:  }', documentationIncludes: 'algorithm' },
+				{ label: 'additive-symbols', resultText: '@counter-style thumbs { additive-symbols:  }' },
+				{ label: 'color', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@counter-style thumbs { system: |; }`, {
+			items: [
+				{ label: 'cyclic', resultText: '@counter-style thumbs { system: cyclic; }' },
+				{ label: 'inherit', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@font-palette-values --bixa { base-palette: d| }`, {
+			items: [
+				{ label: 'dark', resultText: '@font-palette-values --bixa { base-palette: dark }' }
+			]
+		});
+		await testCompletionFor(`@font-feature-values Font One { | }`, {
+			items: [
+				{ label: 'font-display', resultText: '@font-feature-values Font One { font-display:  }' },
+				{ label: '@styleset', resultText: '@font-feature-values Font One { @styleset }' },
+				{ label: 'color', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@position-try --bottom { m| }`, {
+			items: [
+				{ label: 'margin-top', resultText: '@position-try --bottom { margin-top:  }', documentationIncludes: 'margin' },
+				{ label: 'position-area', resultText: '@position-try --bottom { position-area:  }' },
+				{ label: 'color', notAvailable: true }
+			]
+		});
+		await testCompletionFor(`@position-try --bottom { align-self: | }`, {
+			items: [
+				{ label: 'center', resultText: '@position-try --bottom { align-self: center }' }
+			]
+		});
+	});
+
 });
 
 function newRange(start: number, end: number) {
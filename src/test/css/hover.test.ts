@@ -71,6 +71,35 @@ suite('CSS Hover', () => {
 		// });
 	});
 
+	test('at-rule descriptors', () => {
+		assertHover('@counter-style thumbs { |prefix: "("; }', {
+			contents: { kind: 'markdown', value: 'Specifies a symbol prepended to the marker representation\\.\n\nSyntax: &lt;symbol&gt;' },
+		});
+		assertHover(
+			'@position-try --bottom { margin-|top: 10px; }',
+			{
+				contents: { kind: 'markdown', value: '[MDN Reference](https://developer.mozilla.org/docs/Web/CSS/Reference/Properties/margin-top)' },
+			},
+			undefined,
+			{ documentation: false },
+		);
+	});
+
+	test('color contrast', () => {
+		assertHover('.test { |color: #777; background-color: #fff }', {
+			contents: { kind: 'markdown', value: 'Contrast ratio: 4.48:1 (AA for large text)' },
+		}, undefined, { documentation: false, references: false });
+		assertHover('.test { color: #000; |background: #fff }', {
+			contents: { kind: 'markdown', value: 'Contrast ratio: 21.00:1 (AAA)' },
+		}, undefined, { documentation: false, references: false });
+		assertHover('.test { |color: #767676; background: #fff }', {
+			contents: {
+				kind: 'markdown',
+				value: '[MDN Reference](https://developer.mozilla.org/docs/Web/CSS/Reference/Properties/color)\n\nContrast ratio: 4.54:1 (AA)',
+			},
+		}, undefined, { documentation: false });
+	});
+
 	test('specificity', () => {
 		assertHover('.|foo {}', {
 			contents: [{ language: 'html', value: '<element class="foo">' }, '[Selector Specificity](https://developer.mozilla.org/docs/Web/CSS/Specificity): (0, 1, 0)'],
@@ -127,6 +156,15 @@ suite('CSS Hover', () => {
 			'css',
 		);
 	});
+
+	test('custom functions and mixins', () => {
+		assertHover('@function --fluid(--min <length>, --max: 10px) returns <length> { result: 1px; } .a { width: --fl|uid(1px) }', {
+			contents: [{ language: 'css', value: '@function --fluid(--min <length>, --max: 10px) returns <length>' }],
+		});
+		assertHover('@mixin --reset {\n  margin: 0;\n}\n.a { @apply --re|set; }', {
+			contents: [{ language: 'css', value: '@mixin --reset' }],
+		});
+	});
 });
 
 suite('SCSS Hover', () => {
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { suite, test } from 'node:test';
+import * as assert from 'node:assert';
+import { getCSSLanguageService, getLESSLanguageService, getSCSSLanguageService, TextDocument, Range, InlayHintSettings } from '../../cssLanguageService.js';
+
+function assertInlayHints(languageId: string, content: string, expected: string[], settings?: InlayHintSettings, range?: Range) {
+	const ls = languageId === 'css' ? getCSSLanguageService() : languageId === 'less' ? getLESSLanguageService() : getSCSSLanguageService();
+	const document = TextDocument.create(`test://foo/bar.${languageId}`, languageId, 1, content);
+	range = range || Range.create(document.positionAt(0), document.positionAt(content.length));
+	const hints = ls.getInlayHints(document, range, ls.parseStylesheet(document), settings);
+
+	// the hints are rendered into the content at their positions
+	const actual = hints.map(hint => {
+		const offset = document.offsetAt(hint.position);
+		return content.substring(0, offset).replace(/^[^]*[;{}]\s*/, '') + ' ' + hint.label;
+	});
+	assert.deepEqual(actual, expected);
+}
+
+suite('CSS - Inlay Hints', () => {
+
+	test('selector specificity', () => {
+		assertInlayHints('css', '.a #b > li:hover, a::before { }', ['.a #b > li:hover (1, 2, 1)', '.a #b > li:hover, a::before (0, 0, 2)']);
+		assertInlayHints('css', ':where(#a) :is(.b, #c) { }', [':where(#a) :is(.b, #c) (1, 0, 0)']);
+	});
+
+	test('custom properties', () => {
+		assertInlayHints('css', ':root { --gap: 8px; --space: var(--gap); } a { margin: var(--gap) var(--space) var(--unknown) }', [
+			':root (0, 1, 0)',
+			'--space: var(--gap) = 8px',
+			'a (0, 0, 1)',
+			'margin: var(--gap) = 8px',
+			'margin: var(--gap) var(--space) = 8px'
+		]);
+	});
+
+	test('pixel conversions', () => {
+		assertInlayHints('css', 'a { margin: 1.5rem -2em 0 1px }', ['a (0, 0, 1)', 'margin: 1.5rem = 24px', 'margin: 1.5rem -2em = -32px']);
+		assertInlayHints('css', 'a { margin: 1.5rem 2em }', ['margin: 1.5rem = 15px', 'margin: 1.5rem 2em = 20px'], { selectorSpecificity: false, baseFontSize: 10 });
+	});
+
+	test('settings and range', () => {
+		const content = ':root { --gap: 1rem; } a { margin: var(--gap) }';
+		assertInlayHints('css', content, ['margin: var(--gap) = 1rem'], { selectorSpecificity: false, pixelConversions: false });
+		assertInlayHints('css', content, ['--gap: 1rem = 16px'], { selectorSpecificity: false, variableValues: false });
+		assertInlayHints('css', content, [], { selectorSpecificity: false, variableValues: false, pixelConversions: false });
+		assertInlayHints('css', content, ['a (0, 0, 1)'], undefined, Range.create(0, 21, 0, 30));
+	});
+});
+
+suite('SCSS - Inlay Hints', () => {
+
+	test('variables', () => {
+		assertInlayHints('scss', '$spacing: 8px;\n$spacing-lg: $spacing * 3;\n$gap: $spacing;\n@mixin m($p: 2px) { padding: $p; }\n.a { margin: $spacing-lg $gap $unknown; }', [
+			'$spacing-lg: $spacing = 8px',
+			'$gap: $spacing = 8px',
+			'.a (0, 1, 0)',
+			'margin: $spacing-lg = $spacing * 3',
+			'margin: $spacing-lg $gap = 8px'
+		]);
+	});
+});
+
+suite('LESS - Inlay Hints', () => {
+
+	test('variables', () => {
+		assertInlayHints('less', '@gap: 1rem;\n@size: @gap;\n.a { margin: @size; }', [
+			'@gap: 1rem = 16px',
+			'@size: @gap = 1rem',
+			'.a (0, 1, 0)',
+			'margin: @size = 1rem'
+		], undefined);
+	});
+});
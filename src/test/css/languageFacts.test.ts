@@ -16,6 +16,8 @@ import {
     colorFromOKLAB,
     colorFromOKLCH,
     getColorValue,
+    isColorInGamut,
+    PredefinedColorSpace,
     getMissingBaselineBrowsers,
     hexDigit,
     hslFromColor,
@@ -42,6 +44,7 @@ import { Parser } from '../../parser/cssParser.js';
 import * as nodes from '../../parser/cssNodes.js';
 import { TextDocument, Color } from '../../cssLanguageTypes.js';
 import { CSSDataManager } from '../../languageFacts/dataManager.js';
+import { getUnsupportedTargets, parseBrowserTargets } from '../../languageFacts/browserTargets.js';
 
 export function assertColor(parser: Parser, text: string, selection: string, expected: Color | null, isColor = expected !== null): void {
 	let document = TextDocument.create('test://test/test.css', 'css', 0, text);
@@ -218,6 +221,88 @@ suite('CSS - Language Facts', () => {
 		assertColor(parser, '#main { color: oklch(0% 0 none) }', 'oklch', colorFrom256RGB(0, 0, 0));
 	});
 
+	test('predefined color spaces', function () {
+		const parser = new Parser();
+		assertColor(parser, '#main { color: color(srgb 0.5 0.2 1) }', 'color(', colorFrom256RGB(127.5, 51, 255));
+		assertColor(parser, '#main { color: color(srgb 50% 20% 100% / 50%) }', 'color(', colorFrom256RGB(127.5, 51, 255, 0.5));
+		assertColor(parser, '#main { color: color(srgb-linear 0.2 0.2 0.2) }', 'color(', colorFrom256RGB(124, 124, 124));
+		assertColor(parser, '#main { color: color(display-p3 0.5 0.5 0.5) }', 'color(', colorFrom256RGB(128, 128, 128));
+		assertColor(parser, '#main { color: color(display-p3 0.9175 0.2003 0.1386) }', 'color(', colorFrom256RGB(255, 0, 0));
+		assertColor(parser, '#main { color: color(display-p3 1 0 0) }', 'color(', colorFrom256RGB(255, 0, 0));
+		assertColor(parser, '#main { color: color(a98-rgb 0.5 0.2 0.1) }', 'color(', colorFrom256RGB(147, 48, 16));
+		assertColor(parser, '#main { color: color(prophoto-rgb 0.5 0.5 0.5) }', 'color(', colorFrom256RGB(146, 146, 146));
+		assertColor(parser, '#main { color: color(rec2020 0.5 0.5 0.5) }', 'color(', colorFrom256RGB(139, 139, 139));
+		assertColor(parser, '#main { color: color(xyz 0.9505 1 1.089) }', 'color(', colorFrom256RGB(255, 255, 255));
+		assertColor(parser, '#main { color: color(xyz-d65 0.4124 0.2126 0.0193) }', 'color(', colorFrom256RGB(255, 0, 0));
+		assertColor(parser, '#main { color: color(xyz-d50 0.9642 1 0.8251) }', 'color(', colorFrom256RGB(255, 255, 255));
+		assertColor(parser, '#main { color: color(display-p3 none 0 0) }', 'color(', colorFrom256RGB(0, 0, 0));
+		assertColor(parser, '#main { color: color(foo 1 0 0) }', 'color(', null, true);
+		assertColor(parser, '#main { color: color(srgb 1 0) }', 'color(', null, true);
+	});
+
+	test('color-mix', function () {
+		const parser = new Parser();
+		assertColor(parser, '#main { color: color-mix(in srgb, red, blue) }', 'color-mix', colorFrom256RGB(127.5, 0, 127.5));
+		assertColor(parser, '#main { color: color-mix(in srgb, red 25%, blue) }', 'color-mix', colorFrom256RGB(63.75, 0, 191.25));
+		assertColor(parser, '#main { color: color-mix(in srgb, 25% red, blue 25%) }', 'color-mix', colorFrom256RGB(127.5, 0, 127.5, 0.5));
+		assertColor(parser, '#main { color: color-mix(in srgb, red, #0000) }', 'color-mix', colorFrom256RGB(255, 0, 0, 0.5));
+		assertColor(parser, '#main { color: color-mix(in srgb-linear, black, white) }', 'color-mix', colorFrom256RGB(188, 188, 188));
+		assertColor(parser, '#main { color: color-mix(in hsl, red, blue) }', 'color-mix', colorFrom256RGB(255, 0, 255));
+		assertColor(parser, '#main { color: color-mix(in hsl longer hue, red, blue) }', 'color-mix', colorFrom256RGB(0, 255, 0));
+		assertColor(parser, '#main { color: color-mix(in hsl increasing hue, red, blue) }', 'color-mix', colorFrom256RGB(0, 255, 0));
+		assertColor(parser, '#main { color: color-mix(in hsl decreasing hue, red, blue) }', 'color-mix', colorFrom256RGB(255, 0, 255));
+		assertColor(parser, '#main { color: color-mix(in hsl, white, red) }', 'color-mix', colorFrom256RGB(223, 159, 159));
+		assertColor(parser, '#main { color: color-mix(in oklch longer hue, red 40%, blue) }', 'color-mix', colorFrom256RGB(0, 149, 78));
+		assertColor(parser, '#main { color: color-mix(in lch, white, blue) }', 'color-mix', colorFrom256RGB(179, 139, 255));
+		assertColor(parser, '#main { color: color-mix(in oklab, #000, #fff) }', 'color-mix', colorFrom256RGB(99, 99, 99));
+		assertColor(parser, '#main { color: color-mix(in srgb, red 0%, blue 0%) }', 'color-mix', null, true);
+		assertColor(parser, '#main { color: color-mix(in rgb, red, blue) }', 'color-mix', null, true);
+		assertColor(parser, '#main { color: color-mix(in srgb longer hue, red, blue) }', 'color-mix', null, true);
+		assertColor(parser, '#main { color: color-mix(in srgb, var(--a), blue) }', 'color-mix', null, true);
+	});
+
+	test('relative colors', function () {
+		const parser = new Parser();
+		assertColor(parser, '#main { color: rgb(from #f00 r calc(g + 10) b / 50%) }', 'rgb', colorFrom256RGB(255, 10, 0, 0.5));
+		assertColor(parser, '#main { color: rgb(from red b g r) }', 'rgb', colorFrom256RGB(0, 0, 255));
+		assertColor(parser, '#main { color: rgba(from red r g b / calc(alpha / 4)) }', 'rgba', colorFrom256RGB(255, 0, 0, 0.25));
+		assertColor(parser, '#main { color: hsl(from red calc(h + 120) s l) }', 'hsl', colorFrom256RGB(0, 255, 0));
+		assertColor(parser, '#main { color: hsl(from red h s 25%) }', 'hsl', colorFrom256RGB(127.5, 0, 0));
+		assertColor(parser, '#main { color: hwb(from red h 50 b) }', 'hwb', colorFrom256RGB(255, 127.5, 127.5));
+		assertColor(parser, '#main { color: lab(from red l a b) }', 'lab', colorFrom256RGB(255, 0, 0));
+		assertColor(parser, '#main { color: oklch(from blue l c h) }', 'oklch', colorFrom256RGB(0, 0, 255));
+		assertColor(parser, '#main { color: oklch(from blue l 0 h) }', 'oklch', colorFrom256RGB(86, 86, 86));
+		assertColor(parser, '#main { color: color(from red srgb r g b / 0.5) }', 'color(', colorFrom256RGB(255, 0, 0, 0.5));
+		assertColor(parser, '#main { color: color(from rgb(0 0 255) srgb b g r) }', 'color(', colorFrom256RGB(255, 0, 0));
+		assertColor(parser, '#main { color: rgb(from var(--a) r g b) }', 'rgb', null, true);
+		assertColor(parser, '#main { color: rgb(from red r g x) }', 'rgb', null, true);
+	});
+
+	test('light-dark', function () {
+		const parser = new Parser();
+		assertColor(parser, '#main { color: light-dark(#fff, #000) }', 'light-dark', colorFrom256RGB(255, 255, 255));
+		assertColor(parser, '#main { color: light-dark(rgb(1 2 3), black) }', 'light-dark', colorFrom256RGB(1, 2, 3));
+		assertColor(parser, '#main { color: light-dark(var(--a), black) }', 'light-dark', null, true);
+	});
+
+	test('isColorInGamut', function () {
+		const parser = new Parser();
+		const assertInGamut = (value: string, space: PredefinedColorSpace, expected: boolean) => {
+			const document = TextDocument.create('test://test/test.css', 'css', 0, `#main { color: ${value} }`);
+			const node = nodes.getNodeAtOffset(parser.parseStylesheet(document), document.getText().indexOf(value) + 1)!.parent!;
+			assert.strictEqual(isColorInGamut(node, space), expected, value);
+		};
+		assertInGamut('color(display-p3 1 0 0)', 'srgb', false);
+		assertInGamut('color(display-p3 1 0 0)', 'display-p3', true);
+		assertInGamut('color(display-p3 0.9175 0.2003 0.1386)', 'srgb', true);
+		assertInGamut('color(rec2020 0 1 0)', 'display-p3', false);
+		assertInGamut('color(rec2020 0 1 0)', 'rec2020', true);
+		assertInGamut('lch(50% 150 20)', 'srgb', false);
+		assertInGamut('lab(50 20 20)', 'srgb', true);
+		assertInGamut('oklch(0.7 0.4 150)', 'srgb', false);
+		assertInGamut('rgb(255 0 0)', 'srgb', true);
+	});
+
 	test('hexDigit', function () {
 		const input1 = "0123456789ABCDEF", input2 = "0123456789abcdef";
 		for (let i = 0; i < input1.length; i++) {
@@ -382,4 +467,16 @@ suite('CSS - Language Facts', () => {
 	test('RGBToLCH', function () {
 		assertLCHValue(lchFromColor(colorFrom256RGB(50, 125, 50)), { l: 46.41, c: 51.60, h: 139.50 });
 	});
+
+	test('browser targets', function () {
+		assert.deepEqual(parseBrowserTargets('chrome >= 100, Safari 15.4 or baseline widely available, unknown > 1').map(t => t.query), ['chrome >= 100', 'Safari 15.4', 'baseline widely available']);
+
+		const entry = { browsers: ['E105', 'FF121', 'S15.4', 'C105'], baseline: { status: <const>'low', baseline_low_date: '2023-12-19' } };
+		const unsupported = (query: string) => getUnsupportedTargets(entry, parseBrowserTargets(query)).map(u => u.description);
+		assert.deepEqual(unsupported('chrome >= 105, safari >= 15.4'), []);
+		assert.deepEqual(unsupported('chrome >= 100, safari >= 16, firefox 120'), ['Chrome 100', 'Firefox 120']);
+		assert.deepEqual(unsupported('opera >= 100, edge < 110'), ['Opera 100', 'Edge']);
+		assert.deepEqual(unsupported('baseline newly available, baseline 2024'), []);
+		assert.deepEqual(unsupported('baseline widely available, baseline 2022'), ['Baseline widely available', 'Baseline 2022']);
+	});
 });
@@ -6,17 +6,33 @@
 
 import { suite, test } from 'node:test';
 import * as assert from 'node:assert';
+import * as path from 'path';
+import { fileURLToPath } from 'node:url';
+import { URI } from 'vscode-uri';
 import { Node, IRule, Level } from '../../parser/cssNodes.js';
 import { Parser } from '../../parser/cssParser.js';
 import { LintVisitor } from '../../services/lint.js';
 import { Rule, Rules, LintConfigurationSettings } from '../../services/lintRules.js';
-import { TextDocument } from '../../cssLanguageTypes.js';
+import { TextDocument, LintSettings, LanguageSettings, FileSystemProvider, FileType } from '../../cssLanguageTypes.js';
+import { getCSSLanguageService, getSCSSLanguageService } from '../../cssLanguageService.js';
 import { SCSSParser } from '../../parser/scssParser.js';
 import { LESSParser } from '../../parser/lessParser.js';
 import { CSSDataManager } from '../../languageFacts/dataManager.js';
+import { matchesGlob } from '../../utils/glob.js';
+import { getFsProvider } from '../testUtil/fsProvider.js';
+import { getDocumentContext } from '../testUtil/documentContext.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const cssDataManager = new CSSDataManager({ useDefaultDataProvider: true });
 
+function assertDiagnostics(input: string, expected: string[], lint: LintSettings = {}, languageId = 'css', uri = `test://test/test.${languageId}`, settings: LanguageSettings = {}): void {
+	const ls = languageId === 'scss' ? getSCSSLanguageService() : getCSSLanguageService();
+	const document = TextDocument.create(uri, languageId, 0, input);
+	const diagnostics = ls.doValidation(document, ls.parseStylesheet(document), { ...settings, lint });
+	assert.deepStrictEqual(diagnostics.map(diagnostic => `${diagnostic.range.start.line}:${diagnostic.range.start.character} ${diagnostic.code}`), expected);
+}
+
 export function assertEntries(node: Node, document: TextDocument, expectedRules: IRule[], expectedMessages: string[] | undefined = undefined, settings = new LintConfigurationSettings()): void {
 
 	const entries = LintVisitor.entries(node, document, settings, cssDataManager, Level.Error | Level.Warning | Level.Ignore);
@@ -67,11 +83,11 @@ function assertFontFace(input: string, ...rules: Rule[]): void {
 suite('CSS - Lint', () => {
 
 	test('universal selector, empty rule', function () {
-		assertRuleSet('* { color: perty }', Rules.UniversalSelector);
-		assertRuleSet('*, div { color: perty }', Rules.UniversalSelector);
-		assertRuleSet('div, * { color: perty }', Rules.UniversalSelector);
-		assertRuleSet('div > * { color: perty }', Rules.UniversalSelector);
-		assertRuleSet('div + * { color: perty }', Rules.UniversalSelector);
+		assertRuleSet('* { color: perty }', Rules.UniversalSelector, Rules.InvalidPropertyValue);
+		assertRuleSet('*, div { color: perty }', Rules.UniversalSelector, Rules.InvalidPropertyValue);
+		assertRuleSet('div, * { color: perty }', Rules.UniversalSelector, Rules.InvalidPropertyValue);
+		assertRuleSet('div > * { color: perty }', Rules.UniversalSelector, Rules.InvalidPropertyValue);
+		assertRuleSet('div + * { color: perty }', Rules.UniversalSelector, Rules.InvalidPropertyValue);
 	});
 
 	test('empty ruleset', function () {
@@ -83,7 +99,7 @@ suite('CSS - Lint', () => {
 		assertRuleSet('selector { display: inline; float: none; }', Rules.AvoidFloat);
 		assertRuleSet('selector { display: inline-block; float: right; }', Rules.PropertyIgnoredDueToDisplay, Rules.AvoidFloat);
 		assertRuleSet('selector { display: inline-block; float: none; }', Rules.AvoidFloat);
-		assertRuleSet('selector { display: block; vertical-align: center; }', Rules.PropertyIgnoredDueToDisplay);
+		assertRuleSet('selector { display: block; vertical-align: center; }', Rules.PropertyIgnoredDueToDisplay, Rules.InvalidPropertyValue);
 		assertRuleSet('selector { display: inline-block; float: none !important; }', Rules.AvoidFloat, Rules.AvoidImportant);
 	});
 
@@ -108,11 +124,23 @@ suite('CSS - Lint', () => {
 		assertRuleSet('selector { grid-template-columns: 40px 50px auto 0px 40px; }', Rules.ZeroWithUnit);
 		assertRuleSet('selector { min-height: 0% }');
 		assertRuleSet('selector { top: calc(0px - 10vw); }'); // issue 46997
+		assertRuleSet('selector { width: max(0px, 1em); height: calc(1px + min(0px, 2em)); margin: CLAMP(0px, 1vw, 2px); }');
+		assertRuleSet('selector { transform: translate(0px, 1px); }', Rules.ZeroWithUnit);
 	});
 
 	test('duplicate declarations', function () {
-		assertRuleSet('selector { color: perty; color: perty }', Rules.DuplicateDeclarations, Rules.DuplicateDeclarations);
-		assertRuleSet('selector { color: -o-perty; color: perty }');
+		assertRuleSet('selector { color: perty; color: perty }', Rules.DuplicateDeclarations, Rules.DuplicateDeclarations, Rules.InvalidPropertyValue, Rules.InvalidPropertyValue);
+		assertRuleSet('selector { color: -o-perty; color: perty }', Rules.InvalidPropertyValue);
+	});
+
+	test('properties overridden by a shorthand', function () {
+		assertRuleSet('selector { background-color: red; background: url(x.png) }', Rules.OverriddenByShorthand);
+		assertRuleSet('selector { border-top-width: 1px; border: none }', Rules.OverriddenByShorthand);
+		assertRuleSet('selector { flex-grow: 1; color: red; flex: none }', Rules.OverriddenByShorthand);
+		assertRuleSet2('selector { margin-top: 1px; margin: 0 }', [Rules.OverriddenByShorthand], ["'margin-top' is overridden by the later shorthand 'margin'."]);
+		assertRuleSet('selector { background: url(x.png); background-color: red }');
+		assertRuleSet('selector { margin-top: 1px !important; margin: 0 }', Rules.AvoidImportant);
+		assertRuleSet('selector { margin-top: 1px; margin-top: 2px; margin: 0 }', Rules.OverriddenByShorthand, Rules.DuplicateDeclarations, Rules.DuplicateDeclarations);
 	});
 
 	test('unknown properties', function () {
@@ -259,9 +287,290 @@ suite('CSS - Lint', () => {
 		assertFontFace('@font-face { src: url(test.tff); font-family: \'name\' }'); // no error
 	});
 
+	test('invalid property values', function () {
+		assertRuleSet('selector { width: red }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { display: flex-box }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { margin: 1px 2px 3px 4px 5px }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { z-index: 1.5 }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { border: 1px solid red blue }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { width: 100px; display: inline flex; margin: -10px auto; z-index: 10 }');
+		assertRuleSet('selector { font: bold 12px/1.5 "Helvetica Neue", sans-serif; border: thin dashed #ccc }');
+		assertRuleSet('selector { background: url(a.png) no-repeat center / cover, rgb(0 0 0 / 50%) }');
+		assertRuleSet('selector { transition: opacity .3s ease-in-out, transform 1s cubic-bezier(.1, .2, .3, .4) }');
+		assertRuleSet('selector { box-shadow: inset 0 1px 0 #fff, 0 2px 4px red; transform: translate(-50%, -50%) rotate(45deg) }');
+		assertRuleSet('selector { content: counter(item) ". "; width: stretch; max-height: stretch; flex-basis: stretch }');
+		assertRuleSet('selector { content: counters(item, ".") " " open-quote }');
+		assertRuleSet('selector { content: counter(item) 1px }', Rules.InvalidPropertyValue);
+	});
+
+	test('invalid property values with wildcards', function () {
+		assertRuleSet('selector { width: var(--width); color: var(--color, red) }');
+		assertRuleSet('selector { margin: env(safe-area-inset-top) auto }');
+		assertRuleSet('selector { width: calc(100% - 10px); height: min(10px, 5vh) }');
+		assertRuleSet('selector { width: calc(100% - 10px) red }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { width: inherit; display: revert-layer; color: unset }');
+		assertRuleSet('selector { display: -webkit-box; background: -webkit-gradient(linear, left top, left bottom, from(red), to(blue)) }');
+	});
+
+	test('@view-transition descriptors', function () {
+		assertStyleSheet('@view-transition { navigation: auto; types: slide forwards }');
+		assertStyleSheet('@view-transition { navigation: always }', Rules.InvalidPropertyValue);
+		assertStyleSheet('@view-transition { color: red }', Rules.UnknownDescriptor);
+	});
+
+	test('custom functions', function () {
+		assertStyleSheet('@function --fluid(--min <length>, --max: 10px) returns <length> { result: clamp(var(--min), 1vw, var(--max)); } .a { width: --fluid(1rem, 2rem); margin: --fluid(1px) 2px; }');
+		assertStyleSheet('.a { width: --unknown(1px) }');
+	});
+
+	test('at-rule descriptors', function () {
+		assertStyleSheet('@counter-style thumbs { system: cyclic; symbols: "👍" url(a.svg) x; suffix: " "; range: 1 10, 20 infinite; pad: 3 "0" }');
+		assertStyleSheet('@counter-style thumbs { system: fixed 3; speak-as: bullets; fallback: decimal; negative: "(" ")" }');
+		assertStyleSheet('@counter-style thumbs { system: cyclic; color: red }', Rules.UnknownDescriptor);
+		assertStyleSheet('@counter-style thumbs { system: loop }', Rules.InvalidPropertyValue);
+		assertStyleSheet('@counter-style thumbs { pad: "0" }', Rules.InvalidPropertyValue);
+		assertStyleSheet('@font-palette-values --bixa { font-family: Bixa, "Bixa Two"; base-palette: 1; override-colors: 0 red, 1 #00f }');
+		assertStyleSheet('@font-palette-values --bixa { base-palette: -1 }', Rules.InvalidPropertyValue);
+		assertStyleSheet('@font-palette-values --bixa { font-size: 12px }', Rules.UnknownDescriptor);
+		assertStyleSheet('@font-feature-values Font One { font-display: swap; @styleset { nice-style: 12 3; } @character-variant { alt-g: 6 2; } }');
+		assertStyleSheet('@font-feature-values Font One { color: red; @swash { fancy: 1 2; } }', Rules.UnknownDescriptor, Rules.InvalidPropertyValue);
+		assertStyleSheet('@position-try --bottom { top: anchor(bottom); margin: 10px auto; position-area: bottom }');
+		assertStyleSheet('@position-try --bottom { width: red }', Rules.InvalidPropertyValue);
+		assertStyleSheet('@position-try --bottom { color: red }', Rules.UnknownDescriptor);
+		assertStyleSheet('@position-try --bottom { --x: 1px }');
+	});
+
+	test('undeclared anchors', function () {
+		assertStyleSheet('.a { anchor-name: --tip, --menu; } .b { position-anchor: --tip; top: anchor(--menu bottom); width: anchor-size(width) }');
+		assertStyleSheet('.b { position-anchor: --tip; top: anchor(--tip bottom) } .a { anchor-name: --tip }');
+		assertStyleSheet('.b { position-anchor: --tip; top: anchor(--menu bottom, var(--fallback)); anchor-scope: all }', Rules.UndeclaredAnchor, Rules.UndeclaredAnchor);
+		assertStyleSheet('.b { position-anchor: auto; position-try-fallbacks: --bottom; --tip: 1px; width: var(--tip) }');
+	});
+
+	test('browser compatibility', function () {
+		const settings = new LintConfigurationSettings({ browserTargets: 'chrome >= 50, safari >= 12' });
+		assertRuleSet2('selector { color: red; gap: 1px }', [Rules.BrowserCompatibility], ['\'gap\' is not supported by Chrome 50'], settings);
+		assertRuleSet2('selector { display: grid }', [Rules.BrowserCompatibility], ['\'grid\' is not supported by Chrome 50'], settings);
+		assertRuleSet2('selector:has(a) { color: red }', [Rules.BrowserCompatibility], ['\':has\' is not supported by Chrome 50, Safari 12'], settings);
+		assertRuleSet2('selector::backdrop { color: red }', [Rules.BrowserCompatibility], ['\'::backdrop\' is not supported by Safari 12'], settings);
+		assertRuleSet2('selector { gap: 1px }', [], undefined, new LintConfigurationSettings({ browserTargets: 'chrome >= 84' }));
+		assertRuleSet2('selector { gap: 1px }', [], undefined, new LintConfigurationSettings());
+		assertRuleSet2('selector:has(a) { color: red }', [Rules.BrowserCompatibility], ['\':has\' is not Baseline widely available'], new LintConfigurationSettings({ browserTargets: ['baseline widely available'] }));
+
+		const document = TextDocument.create('test://test/test.css', 'css', 0, '@layer base; @container (width > 1px) { }');
+		const stylesheet = new Parser().parseStylesheet(document);
+		assertEntries(stylesheet, document, [Rules.BrowserCompatibility, Rules.BrowserCompatibility], undefined, settings);
+	});
+
+	test('obsolete vendor prefixes', function () {
+		const settings = new LintConfigurationSettings({ browserTargets: 'firefox >= 100' });
+		assertRuleSet2('selector { -moz-box-sizing: border-box; box-sizing: border-box }', [Rules.ObsoleteVendorPrefix], ['All target browsers support the standard property \'box-sizing\''], settings);
+		assertRuleSet2('selector { -moz-box-sizing: border-box; box-sizing: border-box }', [Rules.BrowserCompatibility, Rules.AllVendorPrefixes], undefined, new LintConfigurationSettings({ browserTargets: 'firefox >= 28' }));
+		assertRuleSet2('selector { -webkit-appearance: none }', [Rules.IncludeStandardPropertyWhenUsingVendorPrefix], undefined, new LintConfigurationSettings({ browserTargets: 'safari >= 15' }));
+		assertRuleSet2('selector { -moz-box-sizing: border-box; box-sizing: border-box }', [Rules.AllVendorPrefixes]);
+	});
+
+	test('color contrast', function () {
+		assertRuleSet2('selector { color: #777; background-color: #fff }', [Rules.ColorContrast], ['Contrast ratio 4.48:1 is below the AA minimum of 4.5:1.']);
+		assertRuleSet2('selector { color: #767676; background-color: #fff }', []);
+		assertRuleSet2('selector { color: rgb(0 0 0 / 20%); background: url(a.png) no-repeat, white }', []);
+		assertRuleSet2('selector { color: rgb(0 0 0 / 20%); background: white }', [Rules.ColorContrast], ['Contrast ratio 1.61:1 is below the AA minimum of 4.5:1.']);
+		assertRuleSet2('selector { color: #777; background-color: #000; background-color: #fff }', [Rules.ColorContrast, Rules.DuplicateDeclarations, Rules.DuplicateDeclarations]);
+		assertRuleSet2('selector { color: #777; background-color: #fff; background-color: #000 }', [Rules.DuplicateDeclarations, Rules.DuplicateDeclarations]);
+		assertRuleSet2('selector { color: #777; background-color: #fff; background-image: url(a.png) }', []);
+		assertRuleSet2('selector { color: #777; background-color: rgb(255 255 255 / 50%) }', []);
+		assertRuleSet2('selector { color: #777; background-color: var(--bg) }', []);
+		assertRuleSet2('selector { color: #777 }', []);
+
+		const aaa = new LintConfigurationSettings({ colorContrastLevel: 'AAA' });
+		assertRuleSet2('selector { color: #595959; background: #fff }', [], undefined, aaa);
+		assertRuleSet2('selector { color: #767676; background: #fff }', [Rules.ColorContrast], ['Contrast ratio 4.54:1 is below the AAA minimum of 7:1.'], aaa);
+
+		const apca = new LintConfigurationSettings({ colorContrastAlgorithm: 'apca' });
+		assertRuleSet2('selector { color: #000; background: #fff }', [], undefined, apca);
+		assertRuleSet2('selector { color: #888; background: #fff }', [], undefined, apca);
+		assertRuleSet2('selector { color: #999; background: #fff }', [Rules.ColorContrast], ['APCA lightness contrast Lc 54.6 is below the AA minimum of Lc 60.'], apca);
+		assertRuleSet2('selector { color: #fff; background: #999 }', [Rules.ColorContrast], ['APCA lightness contrast Lc 59.9 is below the AA minimum of Lc 60.'], apca);
+	});
+
 	test('keyframes', function () {
 		assertStyleSheet('@keyframes foo { }');
 		assertStyleSheet('@keyframes foo { } @-moz-keyframes foo { }', Rules.AllVendorPrefixes);
 		assertStyleSheet('@-moz-keyframes foo { }', Rules.AllVendorPrefixes, Rules.IncludeStandardPropertyWhenUsingVendorPrefix);
 	});
+
+	test('property order', function () {
+		const alphabetical = new LintConfigurationSettings({ order: 'warning' });
+		assertRuleSet2('selector { color: red; display: block; }', [], undefined, alphabetical);
+		assertRuleSet2('selector { display: block; color: red; }', [Rules.PropertyOrder], ["'color' should come before 'display'."], alphabetical);
+		assertRuleSet2('selector { --b: 0; --a: 0; -webkit-transform: none; transform: none; }', [Rules.AllVendorPrefixes], undefined, alphabetical);
+		assertRuleSet2('selector { transform: none; -webkit-transform: none; }', [Rules.PropertyOrder, Rules.AllVendorPrefixes], undefined, alphabetical);
+		assertRuleSet2('selector { color: red; color: blue; }', [Rules.DuplicateDeclarations, Rules.DuplicateDeclarations], undefined, alphabetical);
+		assertRuleSet2('selector { padding-left: 1px; margin: 0; padding: 0; }', [Rules.PropertyOrder, Rules.OverriddenByShorthand], undefined, alphabetical);
+		assertRuleSet2('selector { padding-left: 1px; padding: 0; }', [Rules.OverriddenByShorthand], undefined, alphabetical);
+		assertRuleSet2('selector { border-left: 1px solid; border-color: red; }', [], undefined, alphabetical);
+
+		const grouped = new LintConfigurationSettings({ order: 'warning', propertyOrder: 'grouped' });
+		assertRuleSet2('selector { position: absolute; top: 0; display: flex; margin: 0; margin-top: 1px; color: red; background: none; content: ""; }', [], undefined, grouped);
+		assertRuleSet2('selector { color: red; width: 0; }', [Rules.PropertyOrder], ["'width' should come before 'color'."], grouped);
+
+		const custom = new LintConfigurationSettings({ order: 'warning', propertyOrder: ['width', 'height', 'margin'] });
+		assertRuleSet2('selector { width: 0; height: 0; margin-left: 0; color: red; }', [], undefined, custom);
+		assertRuleSet2('selector { color: red; height: 0; }', [Rules.PropertyOrder], ["'height' should come before 'color'."], custom);
+	});
+
+	test('suppression comments', function () {
+		const lint: LintSettings = { idSelector: 'warning', important: 'warning' };
+		assertDiagnostics('#a { color: red !important; }', ['0:0 idSelector', '0:16 important'], lint);
+		assertDiagnostics('/* css-lint-disable-next-line idSelector */\n#a { color: red !important; }', ['1:16 important'], lint);
+		assertDiagnostics('/* css-lint-disable-next-line idSelector, important */\n#a { color: red !important; }', [], lint);
+		assertDiagnostics('#a { color: red !important; } /* css-lint-disable-line */', [], lint);
+		assertDiagnostics('/* css-lint-disable important */\n#a { color: red !important; }\n/* css-lint-enable important */\n#b { color: red !important; }',
+			['1:0 idSelector', '3:0 idSelector', '3:16 important'], lint);
+		assertDiagnostics('/* css-lint-disable */\n#a { color: red !important; }\n#b { color: red !important; }', [], lint);
+
+		// parse errors can not be suppressed
+		assertDiagnostics('/* css-lint-disable-next-line */\n#a { color: red', ['1:15 css-semicolonexpected'], { idSelector: 'warning', unusedSuppressions: 'ignore' });
+
+		assertDiagnostics('#a { color: red !important; } // css-lint-disable-line idSelector', ['0:16 important'], lint, 'scss');
+		assertDiagnostics('// css-lint-disable-next-line important\n#a { color: red !important; }', ['1:0 idSelector'], lint, 'scss');
+	});
+
+	test('unused suppression comments', function () {
+		const lint: LintSettings = { idSelector: 'warning' };
+		assertDiagnostics('/* css-lint-disable-next-line */\n.a { color: red; }', ['0:0 unusedSuppressions'], lint);
+		assertDiagnostics('/* css-lint-disable-next-line idSelector, important */\n#a { color: red; }', ['0:0 unusedSuppressions'], lint);
+		assertDiagnostics('/* css-lint-disable idSelector */\n.a { color: red; }\n/* css-lint-enable idSelector */', ['0:0 unusedSuppressions'], lint);
+		assertDiagnostics('/* css-lint-disable-next-line */\n.a { color: red; }', [], { unusedSuppressions: 'ignore' });
+
+		const ls = getCSSLanguageService();
+		const document = TextDocument.create('test://test/test.css', 'css', 0, '/* css-lint-disable-next-line idSelector, important */\n#a { color: red; }');
+		const diagnostics = ls.doValidation(document, ls.parseStylesheet(document), { lint });
+		assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.tags]), [["Unused lint suppression for 'important'.", [1]]]);
+
+		// the rules that depend on the workspace are only checked by doValidation2
+		assertDiagnostics('$x: 1; // css-lint-disable-line unusedVariables', [], lint, 'scss');
+		assertDiagnostics('@container card (width > 1px) { } /* css-lint-disable-line undeclaredContainers, idSelector */', ['0:34 unusedSuppressions'], lint);
+	});
+
+	test('glob patterns', function () {
+		assert.ok(matchesGlob('**/vendor/**', '/project/vendor/lib/a.css'));
+		assert.ok(matchesGlob('vendor/**', '/project/vendor/a.css'));
+		assert.ok(!matchesGlob('vendor/**', '/project/myvendor/a.css'));
+		assert.ok(matchesGlob('*.min.css', '/project/dist/a.min.css'));
+		assert.ok(!matchesGlob('*.min.css', '/project/dist/a.css'));
+		assert.ok(matchesGlob('/project/*.{css,scss}', '/project/a.scss'));
+		assert.ok(!matchesGlob('/project/*.{css,scss}', '/project/src/a.scss'));
+		assert.ok(matchesGlob('src/**/_?.scss', '/project/src/_a.scss'));
+	});
+
+	test('lint overrides', function () {
+		const input = '#a { color: red !important; }';
+		const settings: LanguageSettings = { overrides: [
+			{ files: ['**/vendor/**', '*.min.css'], lint: { idSelector: 'ignore', important: 'ignore' } },
+			{ files: ['**/vendor/legacy/**'], lint: { important: 'error' } }
+		] };
+		const lint: LintSettings = { idSelector: 'warning', important: 'warning' };
+		assertDiagnostics(input, ['0:0 idSelector', '0:16 important'], lint, 'css', 'file:///project/src/a.css', settings);
+		assertDiagnostics(input, [], lint, 'css', 'file:///project/vendor/a.css', settings);
+		assertDiagnostics(input, [], lint, 'css', 'file:///project/dist/a.min.css', settings);
+		assertDiagnostics(input, ['0:16 important'], lint, 'css', 'file:///project/vendor/legacy/a.css', settings);
+	});
+
+	test('undeclared container names', async function () {
+		const ls = getCSSLanguageService();
+		const layout = TextDocument.create('file:///project/layout.css', 'css', 0, '.sidebar { container: sidebar / inline-size; }');
+		const document = TextDocument.create('file:///project/cards.css', 'css', 0, '.card { container-name: card; }\n@container card (width > 1px) { }\n@container sidebar (width > 1px) { }\n@container menu (width > 1px) { }');
+		const validate = async (lint?: LintSettings) => {
+			const diagnostics = await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(document.uri), { documents: [layout, document] }, { lint });
+			return diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.range.start.line}:${diagnostic.range.start.character}`);
+		};
+		assert.deepStrictEqual(await validate(), ['undeclaredContainers 3:11']);
+		assert.deepStrictEqual(await validate({ undeclaredContainers: 'ignore' }), []);
+		assert.deepStrictEqual(ls.doValidation(document, ls.parseStylesheet(document)), []);
+
+		// without a workspace, the containers are not reported
+		assert.deepStrictEqual(await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(document.uri)), []);
+
+		// the containers of stylesheets in other languages
+		const scssLS = getSCSSLanguageService({ fileSystemProvider: getFsProvider() });
+		const folder = URI.file(path.resolve(__dirname, '../../../../src/test/css/containerFixture')).toString(true);
+		const scssDocument = TextDocument.create('file:///project/cards.scss', 'scss', 0, '@container sidebar (width > 1px) { }\n@container panel (width > 1px) { }\n@container menu (width > 1px) { }');
+		const diagnostics = await scssLS.doValidation2(scssDocument, scssLS.parseStylesheet(scssDocument), getDocumentContext(scssDocument.uri), { folders: [folder] });
+		assert.deepStrictEqual(diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.range.start.line}:${diagnostic.range.start.character}`), ['undeclaredContainers 2:11']);
+	});
+
+	test('unused keyframes across languages', async function () {
+		const folder = URI.file(path.resolve(__dirname, '../../../../src/test/css/keyframesFixture')).toString(true);
+		const fileSystemProvider = getFsProvider();
+		const validate = async (fileName: string) => {
+			const uri = `${folder}/${fileName}`;
+			const languageId = fileName.substring(fileName.lastIndexOf('.') + 1);
+			const ls = languageId === 'scss' ? getSCSSLanguageService({ fileSystemProvider }) : getCSSLanguageService({ fileSystemProvider });
+			const document = TextDocument.create(uri, languageId, 0, await fileSystemProvider.getContent!(uri));
+			const diagnostics = await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(uri), { folders: [folder] });
+			return diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.range.start.line}:${diagnostic.range.start.character}`);
+		};
+		assert.deepStrictEqual(await validate('anim.css'), ['unusedKeyframes 4:11']);
+		assert.deepStrictEqual(await validate('use.scss'), []);
+
+		// without a workspace, the keyframes are not reported, nor the suppressions of the rule
+		const ls = getCSSLanguageService();
+		const document = TextDocument.create('file:///project/a.css', 'css', 0, '@keyframes fade { }\n@keyframes spin { } /* css-lint-disable-line unusedKeyframes */');
+		for (const workspace of [undefined, {}, { documents: [], folders: [] }]) {
+			const diagnostics = await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(document.uri), workspace);
+			assert.deepStrictEqual(diagnostics, []);
+		}
+	});
+
+	test('lint configuration file', async function () {
+		const ls = getCSSLanguageService({ fileSystemProvider: getFsProvider() });
+		const fixtureRoot = path.resolve(__dirname, '../../../../src/test/css/lintFixture');
+		const validate = async (relativePath: string, settings?: LanguageSettings) => {
+			const uri = URI.file(path.resolve(fixtureRoot, relativePath)).toString(true);
+			const document = TextDocument.create(uri, 'css', 0, '#a { color: red !important; }');
+			const diagnostics = await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(uri), undefined, settings);
+			return diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.severity}`);
+		};
+		assert.deepStrictEqual(await validate('a.css'), ['idSelector 2']);
+		assert.deepStrictEqual(await validate('src/styles/a.css'), ['idSelector 2']);
+		assert.deepStrictEqual(await validate('generated/a.css'), ['important 2']);
+		assert.deepStrictEqual(await validate('src/generated/a.css'), ['idSelector 2']);
+
+		// the configuration file takes precedence over the settings
+		assert.deepStrictEqual(await validate('a.css', { lint: { idSelector: 'error', important: 'error' } }), ['idSelector 2', 'important 1']);
+	});
+
+	test('lint configuration file is read again only when modified', async function () {
+		const configurationUri = 'file:///project/.csslintrc.json';
+		let configuration = { lint: { idSelector: 'error' } };
+		let mtime = 1;
+		let reads = 0;
+		const fileSystemProvider: FileSystemProvider = {
+			async stat(uri: string) {
+				if (uri !== configurationUri) {
+					throw new Error('not found');
+				}
+				return { type: FileType.File, mtime, ctime: 0, size: 0 };
+			},
+			async getContent(uri: string) {
+				reads++;
+				return JSON.stringify(configuration);
+			}
+		};
+		const ls = getCSSLanguageService({ fileSystemProvider });
+		const document = TextDocument.create('file:///project/src/a.css', 'css', 0, '#a { color: red; }');
+		const validate = async () => {
+			const diagnostics = await ls.doValidation2(document, ls.parseStylesheet(document), getDocumentContext(document.uri));
+			return diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.severity}`);
+		};
+		assert.deepStrictEqual(await validate(), ['idSelector 1']);
+		assert.deepStrictEqual(await validate(), ['idSelector 1']);
+		assert.strictEqual(reads, 1);
+
+		configuration = { lint: { idSelector: 'ignore' } };
+		mtime = 2;
+		assert.deepStrictEqual(await validate(), []);
+		assert.strictEqual(reads, 2);
+	});
 });
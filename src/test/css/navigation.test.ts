@@ -303,6 +303,14 @@ suite('CSS - Navigation', () => {
 			// Scope
 			assertDocumentSymbols(ls, '@scope (.foo) to (.bar) {}', [{ name: '@scope .foo → .bar', kind: SymbolKind.Module, range: newRange(0, 26), selectionRange: newRange(7, 23) }]);
 		});
+
+		test('at-rule document symbols', () => {
+			const ls = getCSSLS();
+			assertDocumentSymbols(ls, '@counter-style thumbs { symbols: "👍"; }', [{ name: '@counter-style thumbs', kind: SymbolKind.Class, range: newRange(0, 40), selectionRange: newRange(15, 21) }]);
+			assertDocumentSymbols(ls, '@font-feature-values Font One, "Two" { @swash { fancy: 1; } }', [{ name: '@font-feature-values Font One, "Two"', kind: SymbolKind.Class, range: newRange(0, 61), selectionRange: newRange(21, 36) }]);
+			assertDocumentSymbols(ls, '@font-palette-values --bixa { base-palette: 1; }', [{ name: '@font-palette-values --bixa', kind: SymbolKind.Class, range: newRange(0, 48), selectionRange: newRange(21, 27) }]);
+			assertDocumentSymbols(ls, '@position-try --bottom { top: anchor(bottom); }', [{ name: '@position-try --bottom', kind: SymbolKind.Class, range: newRange(0, 47), selectionRange: newRange(14, 22) }]);
+		});
 	});
 
 	suite('Highlights', () => {
@@ -348,6 +356,73 @@ suite('CSS - Navigation', () => {
 			assertHighlights(ls, '.foo { }', '.foo', 1, 1);
 			assertHighlights(ls, '.body { } body { }', '.body', 1, 1);
 		});
+
+		test('mark occurrences for anchor names and position-try rules', () => {
+			const ls = getCSSLS();
+			assertHighlights(ls, '.a { anchor-name: --tip; } .b { position-anchor: --tip; top: anchor(--tip bottom); width: anchor-size(--tip width); }', '--tip', 4, 1);
+			assertHighlights(ls, '.b { top: anchor(--tip bottom); } .a { anchor-name: --other, --tip; } .c { --tip: 1px; color: var(--tip) }', '--tip', 2, 1);
+			assertHighlights(ls, '@position-try --bottom { top: anchor(bottom); } .b { position-try-fallbacks: --bottom, flip-block; position-try: most-height --bottom; }', '--bottom', 3, 1);
+		});
+
+		test('mark occurrences for view transition names', () => {
+			const ls = getCSSLS();
+			assertHighlights(ls, '.a { view-transition-name: hero; } ::view-transition-group(hero) { } ::view-transition-old(hero.card) { } hero { }', 'hero', 3, 1);
+			assertHighlights(ls, '::view-transition-new(hero) { } .a { view-transition-name: none; } .b { view-transition-name: hero; }', 'hero', 2, 1);
+		});
+
+		test('view transition name definition', () => {
+			const ls = getCSSLS();
+			const document = TextDocument.create('test://test/test.css', 'css', 0, '.a { view-transition-name: hero; } ::view-transition-image-pair(hero) { }');
+			const stylesheet = ls.parseStylesheet(document);
+			const position = document.positionAt(document.getText().lastIndexOf('hero'));
+			assert.deepStrictEqual(ls.findDefinition(document, position, stylesheet), { uri: document.uri, range: newRange(27, 31) });
+			const edit = ls.doRename(document, position, 'banner', stylesheet);
+			assert.deepStrictEqual(edit.changes![document.uri], [TextEdit.replace(newRange(27, 31), 'banner'), TextEdit.replace(newRange(64, 68), 'banner')]);
+		});
+
+		test('mark occurrences for container names', () => {
+			const ls = getCSSLS();
+			assertHighlights(ls, '.a { container: sidebar / inline-size; } @container sidebar (width > 40em) { } @container card (width > 1px), sidebar style(--x: 1) { }', 'sidebar', 3, 1);
+			assertHighlights(ls, '@container card (width > 1px) { } .a { container-name: none card; } .b { container: inline-size / card; }', 'card', 2, 1);
+			assertHighlights(ls, '.a { container-name: style; } @container style(--x: 1) { } @container style (width > 1px) { }', 'style', 2, 1);
+		});
+
+		test('container name definition and rename', () => {
+			const ls = getCSSLS();
+			const document = TextDocument.create('test://test/test.css', 'css', 0, '.a { container-name: card; } @container card (width > 1px) { }');
+			const stylesheet = ls.parseStylesheet(document);
+			const position = document.positionAt(document.getText().lastIndexOf('card'));
+			assert.deepStrictEqual(ls.findDefinition(document, position, stylesheet), { uri: document.uri, range: newRange(21, 25) });
+			const edit = ls.doRename(document, position, 'tile', stylesheet);
+			assert.deepStrictEqual(edit.changes![document.uri], [TextEdit.replace(newRange(21, 25), 'tile'), TextEdit.replace(newRange(40, 44), 'tile')]);
+		});
+
+		test('mark occurrences for custom functions and mixins', () => {
+			const ls = getCSSLS();
+			assertHighlights(ls, '@function --double(--x) { result: calc(2 * var(--x)); } .a { width: --double(1px); height: --double(var(--x)); }', '--double', 3, 1);
+			assertHighlights(ls, '@function --double(--x) { result: calc(2 * var(--x)); } .a { --x: 1px; width: var(--x); }', '--x', 2, 1);
+			assertHighlights(ls, '@mixin --reset { margin: 0; } .a { @apply --reset; } .b { @apply --reset(); }', '--reset', 3, 1);
+		});
+
+		test('custom function definition and rename', () => {
+			const ls = getCSSLS();
+			const document = TextDocument.create('test://test/test.css', 'css', 0, '@function --double(--x) { result: calc(2 * var(--x)); } .a { width: --double(1px); }');
+			const stylesheet = ls.parseStylesheet(document);
+			const position = document.positionAt(document.getText().lastIndexOf('--double'));
+			assert.deepStrictEqual(ls.findDefinition(document, position, stylesheet), { uri: document.uri, range: newRange(0, 55) });
+			const edit = ls.doRename(document, position, '--twice', stylesheet);
+			assert.deepStrictEqual(edit.changes![document.uri], [TextEdit.replace(newRange(10, 18), '--twice'), TextEdit.replace(newRange(68, 76), '--twice')]);
+		});
+
+		test('anchor definition and rename', () => {
+			const ls = getCSSLS();
+			const document = TextDocument.create('test://test/test.css', 'css', 0, '.a { anchor-name: --tip; } .b { position-anchor: --tip; }');
+			const stylesheet = ls.parseStylesheet(document);
+			const position = document.positionAt(document.getText().lastIndexOf('--tip'));
+			assert.deepStrictEqual(ls.findDefinition(document, position, stylesheet), { uri: document.uri, range: newRange(18, 23) });
+			const edit = ls.doRename(document, position, '--tooltip', stylesheet);
+			assert.deepStrictEqual(edit.changes![document.uri], [TextEdit.replace(newRange(18, 23), '--tooltip'), TextEdit.replace(newRange(49, 54), '--tooltip')]);
+		});
 	});
 
 	suite('Links', () => {
@@ -510,6 +585,7 @@ suite('CSS - Navigation', () => {
 				'lch(53.23% 104.58 40)',
 				'oklab(62.793% 0.22489 0.1258)',
 				'oklch(62.793% 0.25768 29.223)',
+				'color(display-p3 0.9175 0.2003 0.1386)',
 			);
 			assertColorPresentations(
 				ls,
@@ -522,8 +598,42 @@ suite('CSS - Navigation', () => {
 				'lch(23.04% 51.53 314.16 / 0.5)',
 				'oklab(35.231% 0.0782 -0.10478 / 0.5)',
 				'oklch(35.231% 0.13074 306.734 / 0.5)',
+				'color(display-p3 0.28 0.139 0.4197 / 0.5)',
 			);
 		});
+
+		test('colors of custom properties', function () {
+			const ls = getCSSLS();
+			assertColorSymbols(ls, ':root { --a: #00f; --b: var(--a); } .a { color: var(--b); background: var(--c, red); border-color: var(--d) }',
+				{ color: colorFrom256RGB(0, 0, 255), range: newRange(13, 17) },
+				{ color: colorFrom256RGB(0, 0, 255), range: newRange(24, 32) },
+				{ color: colorFrom256RGB(0, 0, 255), range: newRange(48, 56) },
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(79, 82) }
+			);
+			assertColorSymbols(ls, ':root { --a: #f00 } .a { color: var(--a) }',
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(13, 17) },
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(32, 40) }
+			);
+
+			const document = TextDocument.create('test://test/test.css', 'css', 0, ':root { --a: #00f; } .a { color: var(--a) }');
+			const stylesheet = ls.parseStylesheet(document);
+			const presentations = ls.getColorPresentations(document, stylesheet, colorFrom256RGB(255, 0, 0), newRange(33, 41));
+			assert.deepStrictEqual(presentations[1].textEdit, TextEdit.replace(newRange(13, 17), '#ff0000'));
+		});
+
+		test('color presentations of out of gamut colors', function () {
+			const ls = getCSSLS();
+			const document = TextDocument.create('test://test/test.css', 'css', 0, '.a { color: color(display-p3 1 0 0); background: color(display-p3 0.5 0.5 0.5) }');
+			const stylesheet = ls.parseStylesheet(document);
+			const [outOfGamut, inGamut] = ls.findDocumentColors(document, stylesheet);
+
+			const presentations = ls.getColorPresentations(document, stylesheet, outOfGamut.color, outOfGamut.range);
+			assert.strictEqual(presentations[0].label, 'rgb(255, 0, 0) (out of sRGB gamut)');
+			assert.deepStrictEqual(presentations[0].textEdit, TextEdit.replace(outOfGamut.range, 'rgb(255, 0, 0)'));
+			assert.strictEqual(presentations[8].label, 'color(display-p3 0.9175 0.2003 0.1386) (out of sRGB gamut)');
+
+			assert.deepStrictEqual(ls.getColorPresentations(document, stylesheet, inGamut.color, inGamut.range).map(p => p.label).slice(-1), ['color(display-p3 0.5 0.5 0.5)']);
+		});
 	});
 });
 
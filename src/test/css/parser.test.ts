@@ -10,6 +10,7 @@ import { Parser } from '../../parser/cssParser.js';
 import { TokenType } from '../../parser/cssScanner.js';
 import * as nodes from '../../parser/cssNodes.js';
 import { ParseError } from '../../parser/cssErrors.js';
+import { TextDocument, TextDocumentContentChangeEvent } from '../../cssLanguageTypes.js';
 
 export function assertNode(text: string, parser: Parser, f: (...args: any[]) => nodes.Node | null): nodes.Node {
 	const node = parser.internalParse(text, f)!;
@@ -44,6 +45,52 @@ export function assertError(text: string, parser: Parser, f: () => nodes.Node |
 
 }
 
+function printTree(node: nodes.Node): string {
+	const lines: string[] = [];
+	node.accept(candidate => {
+		let depth = 0;
+		for (let parent = candidate.parent; parent; parent = parent.parent) {
+			depth++;
+		}
+		let line = `${'  '.repeat(depth)}${nodes.NodeType[candidate.type]} ${candidate.offset}-${candidate.end} ${JSON.stringify(candidate.getText())}`;
+		if (candidate instanceof nodes.AbstractDeclaration) {
+			line += ` colon:${candidate.colonPosition} semicolon:${candidate.semicolonPosition}`;
+		}
+		const issues: nodes.IMarker[] = [];
+		candidate.collectIssues(issues);
+		for (const issue of issues) {
+			line += ` [${issue.getRule().id} ${issue.getOffset()}-${issue.getOffset() + issue.getLength()}]`;
+		}
+		lines.push(line);
+		return true;
+	});
+	return lines.join('\n');
+}
+
+/**
+ * Applies the changes one after the other and checks that the incremental parse results in the same tree as a full parse.
+ * Returns the stylesheets of all steps.
+ */
+export function assertIncrementalParse(parser: Parser, languageId: string, text: string, ...changes: TextDocumentContentChangeEvent[][]): nodes.Stylesheet[] {
+	const document = TextDocument.create('test://test/test.' + languageId, languageId, 0, text);
+	let stylesheet = parser.parseStylesheet(document);
+	const result = [stylesheet];
+	for (const change of changes) {
+		TextDocument.update(document, change, document.version + 1);
+		const expected = printTree(parser.parseStylesheet(document));
+		stylesheet = parser.parseStylesheetIncremental(document, stylesheet, change);
+		assert.strictEqual(printTree(stylesheet), expected, document.getText());
+		result.push(stylesheet);
+	}
+	return result;
+}
+
+export function replace(document: string, search: string, replacement: string): TextDocumentContentChangeEvent {
+	const offset = document.indexOf(search);
+	const textDocument = TextDocument.create('test://test/test.css', 'css', 0, document);
+	return { range: { start: textDocument.positionAt(offset), end: textDocument.positionAt(offset + search.length) }, text: replacement };
+}
+
 suite('CSS - Parser', () => {
 
 	test('stylesheet', function () {
@@ -177,6 +224,69 @@ suite('CSS - Parser', () => {
 		assertError(`@property  {  }`, parser, parser._parseStylesheet.bind(parser), ParseError.IdentifierExpected);
 	});
 
+	test('@counter-style', function () {
+		const parser = new Parser();
+		assertNode(`@counter-style thumbs { system: cyclic; symbols: "👍"; suffix: " "; }`, parser, parser._parseCounterStyle.bind(parser));
+		assertNode(`@counter-style roman { system: additive; additive-symbols: 10 x, 5 v, 1 i; range: 1 infinite; }`, parser, parser._parseStylesheet.bind(parser));
+		assertError(`@counter-style { system: cyclic; }`, parser, parser._parseCounterStyle.bind(parser), ParseError.IdentifierExpected);
+		assertError(`@counter-style thumbs system: cyclic; }`, parser, parser._parseCounterStyle.bind(parser), ParseError.LeftCurlyExpected);
+	});
+
+	test('@font-feature-values', function () {
+		const parser = new Parser();
+		assertNode(`@font-feature-values Font One { @styleset { nice-style: 12; } }`, parser, parser._parseFontFeatureValues.bind(parser));
+		assertNode(`@font-feature-values "Font One", Font Two { font-display: swap; @swash { fancy: 1; } @character-variant { alt-g: 6 2; } }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`@font-feature-values Font One { @unknown { x: 1; } }`, parser, parser._parseFontFeatureValues.bind(parser));
+		assertError(`@font-feature-values { @styleset { nice-style: 12; } }`, parser, parser._parseFontFeatureValues.bind(parser), ParseError.IdentifierExpected);
+		assertError(`@font-feature-values Font One, { }`, parser, parser._parseFontFeatureValues.bind(parser), ParseError.IdentifierExpected);
+	});
+
+	test('@font-palette-values', function () {
+		const parser = new Parser();
+		assertNode(`@font-palette-values --identifier { font-family: Bixa; override-colors: 0 red, 1 blue; }`, parser, parser._parseFontPaletteValues.bind(parser));
+		assertNode(`@font-palette-values --identifier { base-palette: 1; }`, parser, parser._parseStylesheet.bind(parser));
+		assertError(`@font-palette-values identifier { }`, parser, parser._parseFontPaletteValues.bind(parser), ParseError.IdentifierExpected);
+	});
+
+	test('@position-try', function () {
+		const parser = new Parser();
+		assertNode(`@position-try --custom-bottom { top: anchor(bottom); margin-top: 10px; }`, parser, parser._parsePositionTry.bind(parser));
+		assertNode(`@position-try --custom-bottom { position-area: bottom; }`, parser, parser._parseStylesheet.bind(parser));
+		assertError(`@position-try custom-bottom { }`, parser, parser._parsePositionTry.bind(parser), ParseError.IdentifierExpected);
+		assertError(`@position-try --custom-bottom { top: anchor(bottom) margin-top: 10px; }`, parser, parser._parsePositionTry.bind(parser), ParseError.SemiColonExpected);
+	});
+
+	test('@view-transition', function () {
+		const parser = new Parser();
+		assertNode(`@view-transition { navigation: auto; types: slide forwards; }`, parser, parser._parseViewTransition.bind(parser));
+		assertNode(`@view-transition { }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`::view-transition-group(hero) { animation-duration: 1s; } ::view-transition-old(*) { } ::view-transition-new(hero.card) { }`, parser, parser._parseStylesheet.bind(parser));
+		assertError(`@view-transition navigation: auto; }`, parser, parser._parseViewTransition.bind(parser), ParseError.LeftCurlyExpected);
+	});
+
+	test('@function', function () {
+		const parser = new Parser();
+		assertNode(`@function --negative(--value) { result: calc(-1 * var(--value)); }`, parser, parser._parseCustomFunctionDeclaration.bind(parser));
+		assertNode(`@function --fluid(--min <length>, --max type(<length> | auto): 10px, --x *) returns <length> { --d: 2; result: clamp(var(--min), 1vw, var(--max)); }`, parser, parser._parseCustomFunctionDeclaration.bind(parser));
+		assertNode(`@function --size() returns type(<length>+) { result: 1px; @media (width > 100px) { result: 2px; } @supports (display: grid) { result: 3px; } }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`.a { width: --fluid(1rem, 2rem); margin: --negative(var(--gap)); }`, parser, parser._parseStylesheet.bind(parser));
+		assertNoNode(`@function foo() { }`, parser, parser._parseCustomFunctionDeclaration.bind(parser));
+		assertError(`@function --fluid { result: 1px; }`, parser, parser._parseCustomFunctionDeclaration.bind(parser), ParseError.LeftParenthesisExpected);
+		assertError(`@function --fluid(--min --max) { result: 1px; }`, parser, parser._parseCustomFunctionDeclaration.bind(parser), ParseError.RightParenthesisExpected);
+		assertError(`@function --fluid(--min: ) { result: 1px; }`, parser, parser._parseCustomFunctionDeclaration.bind(parser), ParseError.VariableValueExpected);
+		assertError(`@function --fluid(--min <length) { result: 1px; }`, parser, parser._parseCustomFunctionDeclaration.bind(parser), ParseError.IdentifierExpected);
+	});
+
+	test('@mixin and @apply', function () {
+		const parser = new Parser();
+		assertNode(`@mixin --center(--axis: both) { display: grid; place-items: center; &:hover { color: red; } }`, parser, parser._parseCustomMixinDeclaration.bind(parser));
+		assertNode(`@mixin --reset { margin: 0; }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`.a { @apply --reset; @apply --center(inline); color: red; }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`.a { @apply p-4 bg-neutral-50; }`, parser, parser._parseStylesheet.bind(parser));
+		assertNoNode(`@mixin foo { }`, parser, parser._parseCustomMixinDeclaration.bind(parser));
+		assertError(`.a { @apply --center(inline; }`, parser, parser._parseStylesheet.bind(parser), ParseError.RightParenthesisExpected);
+	});
+
 	test('@container', function () {
 		const parser = new Parser();
 		assertNode(`@container card { #inner { background-color: skyblue; }}`, parser, parser._parseStylesheet.bind(parser));
@@ -187,6 +297,11 @@ suite('CSS - Parser', () => {
 		assertNode(`@container card (inline-size > 30em), style(--responsive: true) { }`, parser, parser._parseStylesheet.bind(parser));
 		assertNode(`@container card (inline-size > 30em), summary style(--responsive: true) { }`, parser, parser._parseStylesheet.bind(parser));
 		assertNode(`@container card (inline-size > 30em) { @container style(--responsive: true) {} }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`@container not (width > 30em) { }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`@container scroll-state(stuck: top) { }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`@container header scroll-state((stuck: top) or (snapped: x)) and (width > 30em) { }`, parser, parser._parseStylesheet.bind(parser));
+		assertNode(`@container scroll-state(not (scrollable: block)) { }`, parser, parser._parseStylesheet.bind(parser));
+		assertError(`@container scroll-state(stuck: top { }`, parser, parser._parseStylesheet.bind(parser), ParseError.RightParenthesisExpected);
 	});
 
 	test('@starting-style', function () {
@@ -698,3 +813,51 @@ suite('CSS - Parser', () => {
 	});
 
 });
+
+suite('CSS - Incremental Parser', () => {
+
+	const parser = new Parser();
+
+	test('edits inside a rule', function () {
+		const text = '@import "a.css";\n.a { color: red; }\n.b { margin: 0; }\n.c { padding: 0; }\n.d { display: none; }';
+		const [before, after] = assertIncrementalParse(parser, 'css', text, [replace(text, 'margin: 0', 'margin: 10px 2px')]);
+		assert.strictEqual(after.getChild(0), before.getChild(0), 'statement before the change is reused');
+		assert.strictEqual(after.getChild(4), before.getChild(4), 'statement after the change is reused');
+		assert.strictEqual(after.getChild(4)!.offset, before.getChild(4)!.offset);
+		assert.notStrictEqual(after.getChild(2), before.getChild(2));
+	});
+
+	test('edits creating and removing statements', function () {
+		const text = '.a { color: red; }\n.b { margin: 0; }\n.c { padding: 0; }';
+		assertIncrementalParse(parser, 'css', text, [replace(text, '}\n.b', '}\n.x { }\n.b')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '.b { margin: 0; }\n', '')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '.b { margin: 0; }', '.b { margin: 0; ')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '{ margin', '/* { margin')], [replace(text.replace('{ margin', '/* { margin'), '.c', '*/ .c')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '.a', '@charset "utf-8";\n.a')]);
+		assertIncrementalParse(parser, 'css', text, [{ range: { start: { line: 2, character: 18 }, end: { line: 2, character: 18 } }, text: '\n.d { color: red }' }]);
+		assertIncrementalParse(parser, 'css', text, [{ text: '.x {}' }]);
+	});
+
+	test('edits with errors', function () {
+		const text = '.a { color: red; }\n.b { margin: 0 }\n@unknown foo;\n.c { padding: 0; }\n;;\n.d { }';
+		assertIncrementalParse(parser, 'css', text, [replace(text, 'margin: 0', 'margin: ')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '.b', '.b {')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, '.a', 'a')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, ';;', '}')]);
+		assertIncrementalParse(parser, 'css', text, [replace(text, 'foo', 'bar')]);
+
+		const invalidFirst = '@impo "a.css";\n.a { color: red; }\n.b { margin: 0; }';
+		const [, after] = assertIncrementalParse(parser, 'css', invalidFirst, [replace(invalidFirst, 'margin', 'margins')]);
+		assert.strictEqual(after.offset, 0);
+		assert.strictEqual(after.getChild(0)!.type, nodes.NodeType.UnknownAtRule);
+	});
+
+	test('several changes', function () {
+		const text = '.a { color: red; }\n.b { margin: 0; }\n.c { padding: 0; }\n.d { color: blue; }';
+		const document = TextDocument.create('test://test/test.css', 'css', 0, text);
+		const first = replace(text, 'red', 'green');
+		TextDocument.update(document, [first], 1);
+		const second = replace(document.getText(), 'blue', 'yellow');
+		assertIncrementalParse(parser, 'css', text, [first, second], [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, text: '.x {}' }]);
+	});
+});
@@ -0,0 +1,111 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { suite, test } from 'node:test';
+import * as assert from 'node:assert';
+import { getCSSLanguageService, getLESSLanguageService, getSCSSLanguageService, TextDocument, Range } from '../../cssLanguageService.js';
+
+function getTokens(languageId: string, content: string, range?: Range): string[] {
+	const ls = languageId === 'css' ? getCSSLanguageService() : languageId === 'less' ? getLESSLanguageService() : getSCSSLanguageService();
+	const document = TextDocument.create(`test://foo/bar.${languageId}`, languageId, 1, content);
+	const legend = ls.getSemanticTokenLegend();
+	const data = ls.getSemanticTokens(document, ls.parseStylesheet(document), range).data;
+
+	const result: string[] = [];
+	let line = 0;
+	let character = 0;
+	for (let i = 0; i < data.length; i += 5) {
+		line += data[i];
+		character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+		const start = document.offsetAt({ line, character });
+		const modifiers = legend.tokenModifiers.filter((_, index) => data[i + 4] & (1 << index));
+		result.push([content.substring(start, start + data[i + 2]), legend.tokenTypes[data[i + 3]], ...modifiers].join(':'));
+	}
+	return result;
+}
+
+function assertTokens(languageId: string, content: string, expected: string[], range?: Range) {
+	assert.deepEqual(getTokens(languageId, content, range), expected);
+}
+
+suite('CSS - Semantic Tokens', () => {
+
+	test('selectors and properties', () => {
+		assertTokens('css', '.foo #bar a:hover::before { color: red; }', [
+			'.foo:classSelector', '#bar:idSelector', 'a:elementSelector', ':hover:pseudoSelector', '::before:pseudoSelector', 'color:property'
+		]);
+		assertTokens('css', 'li:nth-child(2n + 1), :foo { colr: red; -webkit-foo: 1px }', [
+			'li:elementSelector', ':nth-child:pseudoSelector', ':foo:pseudoSelector:unknown', 'colr:property:unknown', '-webkit-foo:property', 'px:unit'
+		]);
+		assertTokens('css', 'a { zoom: 1; box-align: center }', [
+			'a:elementSelector', 'zoom:property', 'box-align:property:deprecated:obsolete'
+		]);
+	});
+
+	test('custom properties and functions', () => {
+		assertTokens('css', ':root { --main: 1px; }\n.a { width: calc(var(--main) * 2.5em); }', [
+			':root:pseudoSelector', '--main:customProperty:declaration', 'px:unit',
+			'.a:classSelector', 'width:property', 'calc:function', 'var:function', '--main:customProperty', 'em:unit'
+		]);
+		assertTokens('css', '@property --x { syntax: "<length>"; }', [
+			'@property:atRule', '--x:customProperty:declaration', 'syntax:property'
+		]);
+	});
+
+	test('at-rules', () => {
+		assertTokens('css', '@media screen { .a { margin: 0 10% } }\n@keyframes k { from { opacity: 0 } }\n@foo bar;', [
+			'@media:atRule', '.a:classSelector', 'margin:property', '%:unit',
+			'@keyframes:atRule', 'opacity:property',
+			'@foo:atRule:unknown'
+		]);
+	});
+
+	test('range', () => {
+		const content = '.a { color: red; }\n.b { width: 1px; }\n.c { height: 2em; }';
+		assertTokens('css', content, ['.b:classSelector', 'width:property', 'px:unit'], Range.create(1, 0, 1, 18));
+		assertTokens('css', content, ['px:unit', '.c:classSelector'], Range.create(1, 13, 2, 2));
+	});
+});
+
+suite('SCSS - Semantic Tokens', () => {
+
+	test('variables, mixins and functions', () => {
+		assertTokens('scss', '$a: 1px;\n@mixin m($p: 2) { width: $p; }\n@function f($x) { @return $x * 2; }\n.c { @include m($a); height: f(2em); }', [
+			'$a:variable:declaration', 'px:unit',
+			'@mixin:atRule', 'm:mixin:declaration', '$p:variable:declaration', 'width:property', '$p:variable',
+			'@function:atRule', 'f:function:declaration', '$x:variable:declaration', '@return:atRule', '$x:variable',
+			'.c:classSelector', '@include:atRule', 'm:mixin', '$a:variable', 'height:property', 'f:function', 'em:unit'
+		]);
+	});
+
+	test('control directives', () => {
+		assertTokens('scss', '@each $x in a, b { }\n@for $i from 1 through 2 { }\n@if $a { } @else if $b { } @else { }', [
+			'@each:atRule', '$x:variable:declaration',
+			'@for:atRule', '$i:variable:declaration',
+			'@if:atRule', '$a:variable', '@else:atRule', '$b:variable', '@else:atRule'
+		]);
+	});
+
+	test('nested properties and interpolation', () => {
+		assertTokens('scss', '.a-#{$b} { font: { family: x; } #{$p}: 1; }', [
+			'$b:variable', 'font:property', 'family:property', '$p:variable'
+		]);
+		assertTokens('scss', '.a { font: { famly: x; } }', [
+			'.a:classSelector', 'font:property', 'famly:property:unknown'
+		]);
+	});
+});
+
+suite('LESS - Semantic Tokens', () => {
+
+	test('variables and mixins', () => {
+		assertTokens('less', '@a: 1px;\n.m(@p: 2) { width: @p; }\n.c { .m(3); height: percentage(@a); }', [
+			'@a:variable:declaration', 'px:unit',
+			'.m:mixin:declaration', '@p:variable:declaration', 'width:property', '@p:variable',
+			'.c:classSelector', '.m:mixin', 'height:property', 'percentage:function', '@a:variable'
+		]);
+	});
+});
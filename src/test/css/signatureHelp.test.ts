@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { suite, test } from 'node:test';
+import * as assert from 'node:assert';
+import { getCSSLanguageService, getLESSLanguageService, getSCSSLanguageService, TextDocument } from '../../cssLanguageService.js';
+
+interface ExpectedSignatureHelp {
+	label: string;
+	activeParameter?: string;
+	signatureCount?: number;
+}
+
+function assertSignatureHelp(languageId: string, content: string, expected: ExpectedSignatureHelp | null) {
+	const offset = content.indexOf('|');
+	content = content.substring(0, offset) + content.substring(offset + 1);
+
+	const ls = languageId === 'css' ? getCSSLanguageService() : languageId === 'less' ? getLESSLanguageService() : getSCSSLanguageService();
+	const document = TextDocument.create(`test://foo/bar.${languageId}`, languageId, 1, content);
+	const signatureHelp = ls.doSignatureHelp(document, document.positionAt(offset), ls.parseStylesheet(document));
+	if (!expected) {
+		assert.strictEqual(signatureHelp, null);
+		return;
+	}
+	assert.ok(signatureHelp);
+	const signature = signatureHelp.signatures[signatureHelp.activeSignature!];
+	assert.strictEqual(signature.label, expected.label);
+	const parameter = signature.parameters![signatureHelp.activeParameter!];
+	assert.strictEqual(parameter && signature.label.substring(<number>parameter.label[0], <number>parameter.label[1]), expected.activeParameter);
+	if (expected.signatureCount !== undefined) {
+		assert.strictEqual(signatureHelp.signatures.length, expected.signatureCount);
+	}
+}
+
+suite('CSS - Signature Help', () => {
+
+	test('builtin functions', () => {
+		assertSignatureHelp('css', '.a { width: clamp(|) }', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<min>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, |) }', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<preferred>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, 2vw|, 3px) }', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<preferred>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, 2vw, 3p|', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<max>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, |', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<preferred>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, | }', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<preferred>' });
+		assertSignatureHelp('css', '.a { width: max(1px, clamp(|', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<min>' });
+		assertSignatureHelp('css', '.a { width: clamp(1px, 2px, 3px) | }', null);
+		assertSignatureHelp('css', '.a { color: color-mix(in srgb, red 20%, |) }', { label: 'color-mix(<color-interpolation-method>, <color> <percentage>, <color> <percentage>)', activeParameter: '<color> <percentage>' });
+		assertSignatureHelp('css', '.a { color: red; width: calc(1px + 2px)| }', null);
+		assertSignatureHelp('css', '.a { width: foo(|) }', null);
+	});
+
+	test('custom functions and mixins', () => {
+		assertSignatureHelp('css', '@function --fluid(--min <length>, --max: 10px) { result: 1px; } .a { width: --fluid(1px, |) }', { label: '--fluid(--min <length>, --max: 10px)', activeParameter: '--max: 10px' });
+		assertSignatureHelp('css', '@mixin --center(--axis) { place-items: center; } .a { @apply --center(|); }', { label: '--center(--axis)', activeParameter: '--axis' });
+	});
+
+	test('nested functions and multiple signatures', () => {
+		assertSignatureHelp('css', '.a { width: max(1px, calc(|)) }', { label: 'calc(<calc-sum>)', activeParameter: '<calc-sum>' });
+		assertSignatureHelp('css', '.a { width: max(1px, 2px, calc(3px), |) }', { label: 'max(<calc-sum>, <calc-sum>...)', activeParameter: '<calc-sum>...' });
+		assertSignatureHelp('css', '.a { width: round(1px, |) }', { label: 'round(<value>, <interval>)', activeParameter: '<interval>', signatureCount: 2 });
+		assertSignatureHelp('css', '.a { width: round(up, 1px, |) }', { label: 'round(<rounding-strategy>, <value>, <interval>)', activeParameter: '<interval>', signatureCount: 2 });
+
+		// the space-separated signatures of the color functions
+		assertSignatureHelp('css', '.a { color: rgb(1 2 |3) }', { label: 'rgb(<red> <green> <blue> / <alpha>)', activeParameter: '<blue>', signatureCount: 2 });
+		assertSignatureHelp('css', '.a { color: rgb(1 2 3 / |) }', { label: 'rgb(<red> <green> <blue> / <alpha>)', activeParameter: '<alpha>', signatureCount: 2 });
+		assertSignatureHelp('css', '.a { color: rgb(calc(1 + 2) |', { label: 'rgb(<red> <green> <blue> / <alpha>)', activeParameter: '<green>', signatureCount: 2 });
+		assertSignatureHelp('css', '.a { color: rgb(1, 2, |3) }', { label: 'rgb(<red>, <green>, <blue>)', activeParameter: '<blue>', signatureCount: 2 });
+		assertSignatureHelp('css', '.a { color: oklch(0.5 0.1 |20) }', { label: 'oklch(<lightness> <chroma> <hue> / <alpha>)', activeParameter: '<hue>' });
+		assertSignatureHelp('css', '.a { color: oklch(0.5 0.1|) }', { label: 'oklch(<lightness> <chroma> <hue> / <alpha>)', activeParameter: '<chroma>' });
+	});
+});
+
+suite('SCSS - Signature Help', () => {
+
+	test('mixins and functions', () => {
+		const declarations = '@mixin breakpoint($min, $max: null, $args...) { }\n@function double($n) { @return $n * 2; }\n';
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint(|); }', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$min' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint(1px, 2px, 3px, |); }', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$args...' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint(1px, $max: 2|px); }', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$max: null' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint($max: |); }', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$max: null' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint(1px, $max: |); }', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$max: null' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint(1px, |', { label: 'breakpoint($min, $max: null, $args...)', activeParameter: '$max: null' });
+		assertSignatureHelp('scss', declarations + '.a { @include breakpoint; }', null);
+		assertSignatureHelp('scss', declarations + '.a { width: double(|); }', { label: 'double($n)', activeParameter: '$n' });
+		assertSignatureHelp('scss', declarations + '.a { width: clamp(double(1px), |); }', { label: 'clamp(<min>, <preferred>, <max>)', activeParameter: '<preferred>' });
+	});
+});
+
+suite('LESS - Signature Help', () => {
+
+	test('mixins', () => {
+		assertSignatureHelp('less', '.mixin(@color; @padding: 2px) { }\n.a { .mixin(red; |); }', { label: '.mixin(@color; @padding: 2px)', activeParameter: '@padding: 2px' });
+		assertSignatureHelp('less', '.mixin(@a, @b) { }\n.a { .mixin(|); }', { label: '.mixin(@a, @b)', activeParameter: '@a' });
+	});
+});
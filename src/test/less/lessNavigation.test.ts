@@ -5,9 +5,11 @@
 'use strict';
 
 import { suite, test } from 'node:test';
+import * as assert from 'node:assert';
 import * as nodes from '../../parser/cssNodes.js';
 import { assertScopeBuilding, assertSymbolsInScope, assertScopesAndSymbols, assertHighlights, assertSymbolInfos, newRange, assertColorSymbols, assertDocumentSymbols } from '../css/navigation.test.js';
-import { getLESSLanguageService, SymbolKind, Location } from '../../cssLanguageService.js';
+import { getLESSLanguageService, SymbolKind, Location, TextDocument, TextEdit } from '../../cssLanguageService.js';
+import { getDocumentContext } from '../testUtil/documentContext.js';
 import { colorFrom256RGB } from '../../languageFacts/facts.js';
 
 suite('LESS - Symbols', () => {
@@ -78,6 +80,31 @@ suite('LESS - Symbols', () => {
 		]);
 	});
 
+	test('colors of variables', () => {
+		const ls = getLESSLanguageService();
+		assertColorSymbols(ls, '@a: #f00; @b: fade(@a, 50%); @c: spin(@a, 120); .a { color: @b; background: @c; }',
+			{ color: colorFrom256RGB(255, 0, 0), range: newRange(4, 8) },
+			{ color: colorFrom256RGB(255, 0, 0), range: newRange(19, 21) },
+			{ color: colorFrom256RGB(255, 0, 0), range: newRange(38, 40) },
+			{ color: colorFrom256RGB(255, 0, 0, 0.5), range: newRange(60, 62) },
+			{ color: colorFrom256RGB(0, 255, 0), range: newRange(76, 78) }
+		);
+	});
+
+});
+
+suite('LESS - Workspace references', () => {
+
+	test('rename across imports', async function () {
+		const ls = getLESSLanguageService();
+		const main = TextDocument.create('test://test/main.less', 'less', 0, `@import 'colors.less'; .a { color: @brand; }`);
+		const colors = TextDocument.create('test://test/colors.less', 'less', 0, `@brand: red;`);
+		const edit = await ls.doRename2(main, main.positionAt(main.getText().indexOf('@brand')), '@accent', ls.parseStylesheet(main), getDocumentContext(), { documents: [colors] });
+		assert.deepStrictEqual(edit.changes, {
+			'test://test/main.less': [TextEdit.replace(newRange(35, 41), '@accent')],
+			'test://test/colors.less': [TextEdit.replace(newRange(0, 6), '@accent')]
+		});
+	});
 });
 
 suite('Color', () => {
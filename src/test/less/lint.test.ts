@@ -5,9 +5,10 @@
 'use strict';
 
 import { suite, test } from 'node:test';
-import { Rule } from '../../services/lintRules.js';
+import { Rule, Rules } from '../../services/lintRules.js';
 import { assertEntries } from '../css/lint.test.js';
 import { SCSSParser } from '../../parser/scssParser.js';
+import { LESSParser } from '../../parser/lessParser.js';
 import { TextDocument } from '../../cssLanguageTypes.js';
 
 function assertRuleSet(input: string, ...rules: Rule[]): void {
@@ -17,6 +18,13 @@ function assertRuleSet(input: string, ...rules: Rule[]): void {
 	assertEntries(node, document, rules);
 }
 
+function assertStyleSheet(input: string, ...rules: Rule[]): void {
+	let p = new LESSParser();
+	let document = TextDocument.create('test://test/test.less', 'less', 0, input);
+	let node = p.parseStylesheet(document);
+	assertEntries(node, document, rules);
+}
+
 suite('LESS - Lint', () => {
 
 	test('unknown properties', function () {
@@ -24,4 +32,12 @@ suite('LESS - Lint', () => {
 		assertRuleSet('selector { transform+_: rotate(15deg); }');
 	});
 
+	test('unused declarations', function () {
+		assertStyleSheet('.a { @width: 1px; @height: 2px; height: @height; }', Rules.UnusedVariables);
+		assertStyleSheet('.a { @name: foo; @prop: width; @{prop}: 1px; content: "@{name}"; }');
+		assertStyleSheet('.a { .local() { } .used() { } .used(); }', Rules.UnusedMixins);
+		assertStyleSheet('#ns { .m() { } } .a { #ns.m(); }', Rules.AvoidIdSelector);
+		assertStyleSheet('.m() { } @var: 1px;'); // can be used by importing documents
+	});
+
 });
@@ -7,7 +7,7 @@
 import { suite, test } from 'node:test';
 import { TextDocument } from '../../cssLanguageTypes.js';
 import { SCSSParser } from '../../parser/scssParser.js';
-import { Rule, Rules } from '../../services/lintRules.js';
+import { Rule, Rules, LintConfigurationSettings } from '../../services/lintRules.js';
 import { assertEntries } from '../css/lint.test.js';
 
 function assertFontFace(input: string, ...rules: Rule[]): void {
@@ -25,6 +25,13 @@ function assertRuleSet(input: string, ...rules: Rule[]): void {
 	assertEntries(node, document, rules);
 }
 
+function assertStyleSheet(input: string, ...rules: Rule[]): void {
+	let p = new SCSSParser();
+	let document = TextDocument.create('test://test/test.scss', 'scss', 0, input);
+	let node = p.parseStylesheet(document);
+	assertEntries(node, document, rules);
+}
+
 suite('SCSS - Lint', () => {
 
 	test('empty ruleset', function () {
@@ -66,4 +73,40 @@ suite('SCSS - Lint', () => {
 		assertRuleSet('selector { -moz-transform: none; transform: none }', Rules.AllVendorPrefixes);
 		assertRuleSet('selector { -moz-transform: none; transform: none; -o-transform: none; -webkit-transform: none; -ms-transform: none; }');
 	});
+
+	test('invalid property values', function () {
+		assertRuleSet('selector { width: red }', Rules.InvalidPropertyValue);
+		assertRuleSet('selector { width: $width; margin: $a $b; box-shadow: $shadow }');
+		assertRuleSet('selector { color: darken($color, 10%); width: math.div(10px, 2); box-shadow: shadow(1) }');
+		assertRuleSet('selector { width: #{$size}px; display: #{$display} }');
+		assertRuleSet('selector { width: 10px / 2; height: 10px + 2px; line-height: 10px * 2 }');
+	});
+
+	test('unused declarations', function () {
+		assertStyleSheet('.a { $width: 1px; $height: 2px; height: $height; }', Rules.UnusedVariables);
+		assertStyleSheet('.a { $width: 1px; $width: $width * 2; width: $width; }');
+		assertStyleSheet('.a { $i: 1; @while $i < 3 { $i: $i + 1; } }');
+		assertStyleSheet('.a { $name: foo; content: "#{$name}"; }');
+		assertStyleSheet('$-private: 1px; $public: 2px; $-used: 3px; .a { width: $-used; }', Rules.UnusedVariables);
+		assertStyleSheet('@mixin -private { } @mixin public { } @mixin -used { } .a { @include -used; }', Rules.UnusedMixins);
+		assertStyleSheet('.a { @mixin local { } }', Rules.UnusedMixins);
+		assertStyleSheet('%-private { color: red; } %public { color: red; } %-used { color: red; } .a { @extend %-used; }', Rules.UnusedPlaceholders);
+		assertStyleSheet('@keyframes fade { }'); // keyframes can be used by other documents
+	});
+
+	test('property order', function () {
+		const settings = new LintConfigurationSettings({ order: 'warning' });
+		const assertOrder = (input: string, ...rules: Rule[]) => {
+			const p = new SCSSParser();
+			const document = TextDocument.create('test://test/test.scss', 'scss', 0, input);
+			assertEntries(p.internalParse(input, p._parseRuleset)!, document, rules, undefined, settings);
+		};
+		assertOrder('selector { width: 0; @include mixin; color: red; }');
+		assertOrder('selector { width: 0; @extend %placeholder; color: red; }');
+		assertOrder('selector { width: 0; nested { color: red; } color: red; }');
+		assertOrder('selector { width: 0; $v: red; color: $v; }');
+		assertOrder('selector { width: 0; font: { family: x; } color: red; }');
+		assertOrder('selector { width: 0; #{$prop}: 1; color: red; }');
+		assertOrder('selector { width: 0; color: red; @include mixin; }', Rules.PropertyOrder);
+	});
 });
@@ -10,7 +10,7 @@ import { SCSSParser } from '../../parser/scssParser.js';
 import { ParseError } from '../../parser/cssErrors.js';
 import { SCSSParseError } from '../../parser/scssErrors.js';
 
-import { assertNode, assertError } from '../css/parser.test.js';
+import { assertNode, assertError, assertIncrementalParse, replace } from '../css/parser.test.js';
 
 suite('SCSS - Parser', () => {
 
@@ -678,3 +678,16 @@ suite('SCSS - Parser', () => {
 		assertNode('if(sass($value == \'default\'): flex-gutter(); else: $value;)', parser, parser._parseFunction.bind(parser));
 	})
 });
+
+suite('SCSS - Incremental Parser', () => {
+
+	const parser = new SCSSParser();
+
+	test('edits', function () {
+		const text = '@use "sass:math";\n$size: 10px;\n@mixin m($a) { width: $a; }\n.a { @include m(1px); &:hover { color: red; } }\n// comment\n.b { margin: math.div($size, 2); }';
+		assertIncrementalParse(parser, 'scss', text, [replace(text, '$size: 10px;', '$size: 12px')]);
+		assertIncrementalParse(parser, 'scss', text, [replace(text, 'color: red', 'color: blue; .c { }')]);
+		assertIncrementalParse(parser, 'scss', text, [replace(text, '// comment', '/* comment')]);
+		assertIncrementalParse(parser, 'scss', text, [replace(text, '($a)', '($a, $b: 2)')]);
+	});
+});
@@ -6,7 +6,8 @@
 
 import * as nodes from '../../parser/cssNodes.js';
 import { assertSymbolsInScope, assertScopesAndSymbols, assertHighlights, assertColorSymbols, assertLinks, newRange, getTestResource, assertDocumentSymbols } from '../css/navigation.test.js';
-import { getSCSSLanguageService, DocumentLink, TextDocument, SymbolKind, LanguageSettings } from '../../cssLanguageService.js';
+import { getSCSSLanguageService, DocumentLink, TextDocument, SymbolKind, LanguageSettings, TextEdit, Diagnostic, Color } from '../../cssLanguageService.js';
+import { colorFrom256RGB } from '../../languageFacts/facts.js';
 import { suite, test } from 'node:test';
 import * as assert from 'node:assert';
 import * as path from 'path';
@@ -337,6 +338,140 @@ suite('SCSS - Navigation', () => {
 
 	});
 
+	suite('Definition', () => {
+
+		const fixtureRoot = path.resolve(__dirname, '../../../../src/test/scss/linkFixture/definition');
+		const getDocumentUri = (relativePath: string) => {
+			return URI.file(path.resolve(fixtureRoot, relativePath)).toString(true);
+		};
+
+		async function assertDefinition(input: string, marker: string, expected: { uri: string, text: string } | null) {
+			const ls = getSCSSLS();
+			const document = TextDocument.create(getDocumentUri('./index.scss'), 'scss', 0, input);
+			const stylesheet = ls.parseStylesheet(document);
+			const position = document.positionAt(input.indexOf(marker) + marker.length);
+
+			const location = await ls.findDefinition2(document, position, stylesheet, getDocumentContext(document.uri));
+			if (!expected) {
+				assert.strictEqual(location, null, input);
+				return;
+			}
+			assert.ok(location, input);
+			assert.strictEqual(location.uri, expected.uri);
+			const target = location.uri === document.uri ? document : TextDocument.create(location.uri, 'scss', 0, await getFsProvider().getContent!(location.uri));
+			assert.strictEqual(target.getText(location.range), expected.text);
+		}
+
+		test('local definitions', async () => {
+			await assertDefinition('$a: 1; .a { width: $a; }', 'width: $', { uri: getDocumentUri('./index.scss'), text: '$a: 1' });
+		});
+
+		test('definitions through @use', async () => {
+			const colors = { uri: getDocumentUri('./_colors.scss'), text: '$brand-color: blue' };
+			await assertDefinition(`@use 'colors'; .a { color: colors.$brand-color; }`, 'colors.$', colors);
+			await assertDefinition(`@use 'colors' as c; .a { color: c.$brand-color; }`, 'c.$', colors);
+			await assertDefinition(`@use 'colors' as *; .a { color: $brand-color; }`, 'color: $', colors);
+			await assertDefinition(`@use 'colors'; .a { color: $brand-color; }`, 'color: $', null);
+			await assertDefinition(`@use 'colors'; .a { color: colors.$-secret; }`, 'colors.$', null);
+			await assertDefinition(`@use 'colors' as c; .a { color: colors.$brand-color; }`, 'colors.$', null);
+			await assertDefinition(`@use 'sass:math'; .a { width: math.div(1, 2); }`, 'math.d', null);
+		});
+
+		test('definitions through @forward', async () => {
+			await assertDefinition(`@use 'library' as lib; .a { color: lib.$color-brand-color; }`, 'lib.$', { uri: getDocumentUri('./_colors.scss'), text: '$brand-color: blue' });
+			await assertDefinition(`@use 'library' as lib; .a { color: lib.$brand-color; }`, 'lib.$', null);
+			await assertDefinition(`@use 'library'; .a { @include library.button-base; }`, 'library.b', { uri: getDocumentUri('./_buttons.scss'), text: '@mixin button-base {\n\tpadding: 0;\n}' });
+			await assertDefinition(`@use 'buttons'; .a { width: buttons.double(2px); }`, 'buttons.d', { uri: getDocumentUri('./_buttons.scss'), text: '@function double($n) {\n\t@return $n * 2;\n}' });
+			await assertDefinition(`@use 'library'; .a { width: library.double(2px); }`, 'library.d', null);
+		});
+
+		test('definitions through @import', async () => {
+			await assertDefinition(`@import 'legacy'; .a { width: $legacy-width; }`, 'width: $', { uri: getDocumentUri('./_legacy.scss'), text: '$legacy-width: 10px' });
+		});
+	});
+
+	suite('Workspace references', () => {
+
+		const fixtureRoot = path.resolve(__dirname, '../../../../src/test/scss/linkFixture/definition');
+		const getDocumentUri = (relativePath: string) => {
+			return URI.file(path.resolve(fixtureRoot, relativePath)).toString(true);
+		};
+		const indexDocument = TextDocument.create(getDocumentUri('./index.scss'), 'scss', 0, `@use 'colors';\n.a { color: colors.$brand-color; }`);
+
+		async function getDocument(relativePath: string) {
+			const uri = getDocumentUri(relativePath);
+			return TextDocument.create(uri, 'scss', 0, await getFsProvider().getContent!(uri));
+		}
+
+		function toText(edits: { [uri: string]: TextEdit[] }) {
+			const result: { [uri: string]: string[] } = {};
+			for (const uri in edits) {
+				result[path.basename(URI.parse(uri).fsPath)] = edits[uri].map(e => `${e.range.start.line}:${e.range.start.character} ${e.newText}`);
+			}
+			return result;
+		}
+
+		test('find references across modules', async () => {
+			const ls = getSCSSLS();
+			const document = await getDocument('./_buttons.scss');
+			const position = document.positionAt(document.getText().indexOf('button-base'));
+			const references = await ls.findReferences2(document, position, ls.parseStylesheet(document), getDocumentContext(document.uri), { folders: [URI.file(fixtureRoot).toString(true)] });
+			assert.deepStrictEqual(references.map(r => `${path.basename(URI.parse(r.uri).fsPath)} ${r.range.start.line}:${r.range.start.character}`).sort(), [
+				'_buttons.scss 0:7',
+				'_theme.scss 4:14'
+			]);
+		});
+
+		test('rename across modules', async () => {
+			const ls = getSCSSLS();
+			const workspace = { documents: [indexDocument], folders: [URI.file(fixtureRoot).toString(true)] };
+			const expected = {
+				'_colors.scss': ['0:0 $main-color'],
+				'_library.scss': ['0:34 $color-main-color'],
+				'_theme.scss': ['3:12 $color-main-color'],
+				'index.scss': ['1:19 $main-color']
+			};
+
+			const colors = await getDocument('./_colors.scss');
+			let edit = await ls.doRename2(colors, colors.positionAt(1), '$main-color', ls.parseStylesheet(colors), getDocumentContext(colors.uri), workspace);
+			assert.deepStrictEqual(toText(edit.changes!), expected);
+
+			// renaming the prefixed name
+			const theme = await getDocument('./_theme.scss');
+			const offset = theme.getText().indexOf('$color-brand-color');
+			edit = await ls.doRename2(theme, theme.positionAt(offset), '$color-main-color', ls.parseStylesheet(theme), getDocumentContext(theme.uri), workspace);
+			assert.deepStrictEqual(toText(edit.changes!), expected);
+		});
+
+		test('unused declarations across modules', async () => {
+			const ls = getSCSSLS();
+			const workspace = { folders: [URI.file(fixtureRoot).toString(true)] };
+			const toText = (diagnostics: Diagnostic[]) => diagnostics.map(d => `${d.code} ${d.range.start.line}:${d.range.start.character}${d.tags ? ' unnecessary' : ''}`);
+
+			const colors = await getDocument('./_colors.scss');
+			let diagnostics = await ls.doValidation2(colors, ls.parseStylesheet(colors), getDocumentContext(colors.uri), workspace);
+			assert.deepStrictEqual(toText(diagnostics), ['unusedVariables 1:0 unnecessary']);
+
+			const legacy = await getDocument('./_legacy.scss');
+			diagnostics = await ls.doValidation2(legacy, ls.parseStylesheet(legacy), getDocumentContext(legacy.uri), workspace);
+			assert.deepStrictEqual(toText(diagnostics), ['unusedVariables 0:0']);
+
+			const buttons = await getDocument('./_buttons.scss');
+			diagnostics = await ls.doValidation2(buttons, ls.parseStylesheet(buttons), getDocumentContext(buttons.uri), workspace);
+			assert.deepStrictEqual(toText(diagnostics), []);
+		});
+
+		test('rename without workspace', async () => {
+			const ls = getSCSSLS();
+			const stylesheet = ls.parseStylesheet(indexDocument);
+			const edit = await ls.doRename2(indexDocument, indexDocument.positionAt(indexDocument.getText().indexOf('$brand')), '$main-color', stylesheet, getDocumentContext(indexDocument.uri));
+			assert.deepStrictEqual(toText(edit.changes!), {
+				'_colors.scss': ['0:0 $main-color'],
+				'index.scss': ['1:19 $main-color']
+			});
+		});
+	});
+
 	suite('Symbols', () => {
 
 		test('scss document symbols', () => {
@@ -355,6 +490,41 @@ suite('SCSS - Navigation', () => {
 			const ls = getSCSSLS();
 			assertColorSymbols(ls, '$colors: (blue: $blue,indigo: $indigo)'); // issue #47209
 		});
+
+		test('colors of variables', () => {
+			const ls = getSCSSLS();
+			assertColorSymbols(ls, '$a: #f00 !default; $b: $a; .a { color: $b; }',
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(4, 8) },
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(23, 25) },
+				{ color: colorFrom256RGB(255, 0, 0), range: newRange(39, 41) }
+			);
+			const declarations = '@use "sass:color"; $a: #f00; ';
+			const toRGBA = (color: Color) => [color.red, color.green, color.blue].map(c => Math.round(c * 255)).concat(color.alpha);
+			const assertVariableColor = (value: string, expected: Color | null) => {
+				const content = `${declarations}$b: ${value}; .a { color: $b; }`;
+				const document = TextDocument.create('test://test/test.scss', 'scss', 0, content);
+				const color = ls.findDocumentColors(document, ls.parseStylesheet(document)).find(color => color.range.start.character === content.lastIndexOf('$b'));
+				assert.deepStrictEqual(color && toRGBA(color.color), expected === null ? undefined : toRGBA(expected), value);
+			};
+			assertVariableColor('lighten($a, 20%)', colorFrom256RGB(255, 102, 102));
+			assertVariableColor('darken($a, 10)', colorFrom256RGB(204, 0, 0));
+			assertVariableColor('rgba($a, .5)', colorFrom256RGB(255, 0, 0, 0.5));
+			assertVariableColor('color.adjust($a, $lightness: -10%, $alpha: -0.5)', colorFrom256RGB(204, 0, 0, 0.5));
+			assertVariableColor('color.adjust($a, $blue: 255)', colorFrom256RGB(255, 0, 255));
+			assertVariableColor('color.adjust($a, $blue: 255, $hue: 10)', null);
+			assertVariableColor('mix($a, blue, 25%)', colorFrom256RGB(63.75, 0, 191.25));
+			assertVariableColor('mix($a, rgba(0, 0, 255, 0))', colorFrom256RGB(255, 0, 0, 0.5));
+			assertVariableColor('foo($a)', null);
+			assertVariableColor('$b', null);
+		});
+
+		test('color presentations of variables', () => {
+			const ls = getSCSSLS();
+			const content = '$a: #f00; $b: lighten($a, 10%); .a { color: $b; }';
+			const document = TextDocument.create('test://test/test.scss', 'scss', 0, content);
+			const presentations = ls.getColorPresentations(document, ls.parseStylesheet(document), colorFrom256RGB(0, 0, 255), newRange(44, 46));
+			assert.deepStrictEqual(presentations[1].textEdit, TextEdit.replace(newRange(14, 30), '#0000ff'));
+		});
 	});
 
 });
@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Determines if the path matches the glob pattern. `**` matches any number of folders, `*` and `?` match characters of a single
+ * path segment and `{a,b}` matches one of the alternatives. Patterns that do not start with `/` can match any trailing part of the path.
+ */
+export function matchesGlob(pattern: string, path: string): boolean {
+	let regExp = globCache.get(pattern);
+	if (!regExp) {
+		regExp = globToRegExp(pattern);
+		globCache.set(pattern, regExp);
+	}
+	return regExp.test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	let inGroup = false;
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i];
+		switch (ch) {
+			case '*':
+				if (pattern[i + 1] === '*') {
+					if (pattern[i + 2] === '/') {
+						source += '(?:[^/]*/)*';
+						i += 2;
+					} else {
+						source += '.*';
+						i++;
+					}
+				} else {
+					source += '[^/]*';
+				}
+				break;
+			case '?':
+				source += '[^/]';
+				break;
+			case '{':
+				source += '(?:';
+				inGroup = true;
+				break;
+			case '}':
+				source += inGroup ? ')' : '\\}';
+				inGroup = false;
+				break;
+			case ',':
+				source += inGroup ? '|' : ',';
+				break;
+			default:
+				source += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp((pattern[0] === '/' ? '^' : '(?:^|/)') + source + '$');
+}
@@ -11,4 +11,8 @@ export function dirname(uriString: string): string {
 
 export function joinPath(uriString: string, ...paths: string[]): string {
 	return Utils.joinPath(URI.parse(uriString), ...paths).toString(true);
-}
\ No newline at end of file
+}
+
+export function basename(uriString: string): string {
+	return Utils.basename(URI.parse(uriString));
+}